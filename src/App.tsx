@@ -2,19 +2,36 @@ import { RouterProvider } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ThemeProvider, createTheme } from '@mui/material/styles';
 import CssBaseline from '@mui/material/CssBaseline';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
 import { SnackbarProvider } from 'notistack';
 import { router } from './routes';
-import { ErrorBoundary } from './components';
+import { ErrorBoundary, CurrentUserProvider, ContractViolationsOverlay } from './components';
+import { userQueryKeys } from './hooks';
+import { restoreQueryCache, persistQueryCache, type QueryCachePersistOptions } from './utils';
+
+// Users data is saved across reloads so it can be read offline
+const QUERY_CACHE_MAX_AGE = 1000 * 60 * 60 * 24; // 24 hours
+const queryCacheOptions: QueryCachePersistOptions = {
+  storageKey: 'query-cache',
+  buster: __APP_VERSION__,
+  maxAge: QUERY_CACHE_MAX_AGE,
+  shouldPersistQuery: (query) => query.queryKey[0] === userQueryKeys.all[0],
+};
 
 // Create React Query client
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       staleTime: 1000 * 60 * 5, // 5 minutes
+      gcTime: QUERY_CACHE_MAX_AGE, // Keep restored data until the saved cache would expire
       refetchOnWindowFocus: false,
+      retry: false, // The API client already retries transient failures
     },
   },
 });
+restoreQueryCache(queryClient, queryCacheOptions);
+persistQueryCache(queryClient, queryCacheOptions);
 
 // Create MUI theme
 const theme = createTheme({
@@ -46,12 +63,19 @@ function App() {
       <QueryClientProvider client={queryClient}>
         <ThemeProvider theme={theme}>
           <CssBaseline />
-          <SnackbarProvider
-            maxSnack={3}
-            anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
-          >
-            <RouterProvider router={router} />
-          </SnackbarProvider>
+          {/* Date pickers are used by the grid's date-range column filters */}
+          <LocalizationProvider dateAdapter={AdapterDayjs}>
+            <SnackbarProvider
+              maxSnack={3}
+              anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+            >
+              <CurrentUserProvider>
+                <RouterProvider router={router} />
+              </CurrentUserProvider>
+              {/* Lists API payloads that broke the contract, in development only */}
+              {import.meta.env.DEV && <ContractViolationsOverlay />}
+            </SnackbarProvider>
+          </LocalizationProvider>
         </ThemeProvider>
       </QueryClientProvider>
     </ErrorBoundary>
@@ -0,0 +1,42 @@
+import type { AuditLogApiResponse, AuditQueryParams } from '@/types';
+import { apiRequest } from './client';
+
+const API_BASE = '/api';
+
+/**
+ * Fetch audit log entries (newest first) with pagination and filters
+ */
+export const fetchAuditLog = async (
+  params: AuditQueryParams,
+  signal?: AbortSignal
+): Promise<AuditLogApiResponse> => {
+  const searchParams = new URLSearchParams({
+    page: params.page.toString(),
+    pageSize: params.pageSize.toString(),
+  });
+
+  if (params.actor) {
+    searchParams.set('actor', params.actor);
+  }
+
+  if (params.target) {
+    searchParams.set('target', params.target);
+  }
+
+  if (params.action) {
+    searchParams.set('action', params.action);
+  }
+
+  if (params.from) {
+    searchParams.set('from', params.from);
+  }
+
+  if (params.to) {
+    searchParams.set('to', params.to);
+  }
+
+  return apiRequest(`${API_BASE}/audit?${searchParams}`, {
+    signal,
+    errorMessage: 'Failed to fetch audit log',
+  });
+};
@@ -0,0 +1,28 @@
+import type { ApiResponse, User } from '@/types';
+import { apiRequest } from './client';
+
+const API_BASE = '/api';
+
+/**
+ * Exchange credentials for a session token
+ */
+export const login = async (
+  email: string,
+  password: string
+): Promise<ApiResponse<{ token: string; user: User }>> => {
+  return apiRequest(`${API_BASE}/auth/login`, {
+    method: 'POST',
+    body: { email, password },
+    errorMessage: 'Failed to sign in',
+  });
+};
+
+/**
+ * Revoke the current session token
+ */
+export const logout = async (): Promise<ApiResponse<never>> => {
+  return apiRequest(`${API_BASE}/auth/logout`, {
+    method: 'POST',
+    errorMessage: 'Failed to sign out',
+  });
+};
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { apiRequest, ApiError, NetworkRequestError } from './client';
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+// A fetch that only settles when its request is aborted
+const hangingFetch = (_input: RequestInfo | URL, init?: RequestInit) =>
+  new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () =>
+      reject(new DOMException('The operation was aborted', 'AbortError'))
+    );
+  });
+
+const rejectionOf = (promise: Promise<unknown>) =>
+  promise.then(
+    () => {
+      throw new Error('Expected the request to fail');
+    },
+    (error: ApiError) => error
+  );
+
+describe('apiRequest', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+    // No backoff wait between retries
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should send JSON and resolve with the parsed body', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ success: true, data: { id: 1 } }));
+
+    const body = await apiRequest('/api/things', { method: 'POST', body: { name: 'Thing' } });
+
+    expect(body).toEqual({ success: true, data: { id: 1 } });
+    const [, init] = fetchMock.mock.calls[0];
+    const headers = new Headers(init?.headers);
+    expect(init?.body).toBe('{"name":"Thing"}');
+    expect(headers.get('Content-Type')).toBe('application/json');
+    expect(headers.get('X-Correlation-Id')).toMatch(/^req-/);
+  });
+
+  it('should reject with the server error details', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse(
+        {
+          success: false,
+          error: 'Validation failed',
+          message: 'Email format is invalid',
+          fieldErrors: { email: 'Email format is invalid' },
+        },
+        400
+      )
+    );
+
+    const error = await rejectionOf(apiRequest('/api/users', { method: 'POST', body: {} }));
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({
+      status: 400,
+      code: 'bad_request',
+      message: 'Email format is invalid',
+      fieldErrors: { email: 'Email format is invalid' },
+    });
+    const sentId = new Headers(fetchMock.mock.calls[0][1]?.headers).get('X-Correlation-Id');
+    expect(error.correlationId).toBe(sentId);
+  });
+
+  it('should fall back to the given message when the server sends none', async () => {
+    fetchMock.mockResolvedValue(new Response('Bad gateway', { status: 502 }));
+
+    const error = await rejectionOf(
+      apiRequest('/api/things', { retries: 0, errorMessage: 'Failed to fetch things' })
+    );
+
+    expect(error).toMatchObject({
+      status: 502,
+      code: 'server_error',
+      message: 'Failed to fetch things',
+    });
+  });
+
+  it('should retry reads on server and network errors', async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(jsonResponse({ success: false }, 503))
+      .mockResolvedValueOnce(jsonResponse({ success: true }));
+
+    await expect(apiRequest('/api/things')).resolves.toEqual({ success: true });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should give up after the last retry', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+    await expect(apiRequest('/api/things')).rejects.toBeInstanceOf(NetworkRequestError);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry client errors or writes', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse({ success: false, error: 'Not found' }, 404));
+    await expect(apiRequest('/api/things/1')).rejects.toMatchObject({ status: 404 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(async () => jsonResponse({ success: false }, 503));
+    await expect(apiRequest('/api/things', { method: 'PATCH', body: {} })).rejects.toMatchObject({
+      status: 503,
+    });
+    await expect(apiRequest('/api/things/1', { method: 'DELETE' })).rejects.toMatchObject({
+      status: 503,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should time out a request that takes too long', async () => {
+    fetchMock.mockImplementation(hangingFetch);
+
+    const error = await rejectionOf(apiRequest('/api/things', { timeoutMs: 10, retries: 0 }));
+
+    expect(error).toBeInstanceOf(NetworkRequestError);
+    expect(error.code).toBe('timeout');
+  });
+
+  it('should pass cancellation through without retrying', async () => {
+    fetchMock.mockImplementation(hangingFetch);
+    const controller = new AbortController();
+
+    const request = apiRequest('/api/things', { signal: controller.signal });
+    controller.abort();
+
+    await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Shared HTTP client
+ *
+ * Attaches the session token as a bearer header to every API request.
+ * A 401 response means the session is gone, so the stored token is
+ * cleared and listeners (the session provider) are told to sign out.
+ * Requests that never reach the server reject with `NetworkRequestError`,
+ * so callers can tell a dropped connection from an error response.
+ *
+ * `apiRequest` builds on that for the API modules: JSON in and out, a
+ * timeout per attempt, retries with backoff for reads (GET/HEAD),
+ * cancellation through an AbortSignal, and `ApiError` for failures.
+ */
+import type { ApiResponse } from '@/types';
+
+const TOKEN_STORAGE_KEY = 'auth-token';
+const CORRELATION_HEADER = 'X-Correlation-Id';
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 300;
+const RETRY_MAX_DELAY_MS = 5_000;
+// Only reads are retried: the API's PUT and DELETE are not safe to repeat
+// (a second DELETE answers 404, a second PUT writes another audit entry)
+const RETRIED_METHODS = ['GET', 'HEAD'];
+
+type UnauthorizedListener = () => void;
+const unauthorizedListeners = new Set<UnauthorizedListener>();
+
+/**
+ * An API request that failed, with whatever the server said about it
+ *
+ * `code` is the server's error code when it sent one, otherwise derived
+ * from the status. `correlationId` identifies the request in server logs
+ * (and support tickets).
+ */
+export class ApiError extends Error {
+  readonly status: number; // HTTP status; 0 when there was no response
+  readonly code: string;
+  readonly fieldErrors: Record<string, string>;
+  readonly correlationId: string | null;
+
+  constructor(
+    message: string,
+    options: {
+      status: number;
+      code?: string;
+      fieldErrors?: Record<string, string>;
+      correlationId?: string | null;
+    }
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status;
+    this.code = options.code ?? codeForStatus(options.status);
+    this.fieldErrors = options.fieldErrors ?? {};
+    this.correlationId = options.correlationId ?? null;
+  }
+}
+
+/**
+ * A request that got no response: the connection dropped, the host is
+ * unreachable or the request timed out
+ */
+export class NetworkRequestError extends ApiError {
+  readonly cause: unknown;
+
+  constructor(
+    message: string,
+    cause?: unknown,
+    options: { code?: 'network_error' | 'timeout'; correlationId?: string | null } = {}
+  ) {
+    super(message, {
+      status: 0,
+      code: options.code ?? 'network_error',
+      correlationId: options.correlationId,
+    });
+    this.name = 'NetworkRequestError';
+    this.cause = cause;
+  }
+}
+
+const codeForStatus = (status: number): string => {
+  if (status === 0) return 'network_error';
+  if (status === 400) return 'bad_request';
+  if (status === 401) return 'unauthorized';
+  if (status === 403) return 'forbidden';
+  if (status === 404) return 'not_found';
+  if (status === 408) return 'timeout';
+  if (status === 409) return 'conflict';
+  if (status === 422) return 'validation_failed';
+  if (status === 429) return 'rate_limited';
+  if (status >= 500) return 'server_error';
+  return 'request_failed';
+};
+
+/**
+ * Read the stored session token
+ */
+export const getAuthToken = (): string | null => {
+  try {
+    return window.localStorage.getItem(TOKEN_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Store (or clear, with null) the session token
+ */
+export const setAuthToken = (token: string | null): void => {
+  try {
+    if (token) {
+      window.localStorage.setItem(TOKEN_STORAGE_KEY, token);
+    } else {
+      window.localStorage.removeItem(TOKEN_STORAGE_KEY);
+    }
+  } catch (error) {
+    console.warn('Error persisting auth token:', error);
+  }
+};
+
+/**
+ * Subscribe to 401 responses; returns an unsubscribe function
+ */
+export const onUnauthorized = (listener: UnauthorizedListener): (() => void) => {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
+};
+
+/**
+ * fetch() with the bearer token attached
+ */
+export const apiFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+  const headers = new Headers(init.headers);
+  const token = getAuthToken();
+
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(input, { ...init, headers });
+  } catch (error) {
+    // Aborts the caller asked for are not connection problems
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    throw new NetworkRequestError('Unable to reach the server', error, {
+      correlationId: headers.get(CORRELATION_HEADER),
+    });
+  }
+
+  if (response.status === 401 && token) {
+    setAuthToken(null);
+    unauthorizedListeners.forEach((listener) => listener());
+  }
+
+  return response;
+};
+
+// The response a body came from, for errors raised while checking it
+export interface ApiResponseInfo {
+  status: number;
+  correlationId: string | null;
+}
+
+export interface ApiRequestOptions<T = unknown> {
+  method?: string;
+  body?: unknown; // Sent as JSON
+  signal?: AbortSignal; // Cancels the request, e.g. React Query's on unmount
+  timeoutMs?: number; // Per attempt
+  retries?: number; // Extra attempts; defaults to 2 for GET/HEAD, else 0
+  errorMessage?: string; // Used when the server doesn't send a message
+  parse?: (body: unknown, response: ApiResponseInfo) => T; // Checks the body; throws if unusable
+}
+
+const createCorrelationId = () =>
+  `req-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const abortError = () => new DOMException('The request was aborted', 'AbortError');
+
+// Dropped connections, timeouts, rate limits and server errors may go
+// away on their own; anything else will fail the same way again
+const isRetryable = (error: unknown) =>
+  error instanceof NetworkRequestError ||
+  (error instanceof ApiError && (error.status === 408 || error.status === 429 || error.status >= 500));
+
+// Exponential backoff with full jitter, so clients that failed together
+// don't retry together
+const retryDelay = (attempt: number) =>
+  Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// One attempt, aborted by the caller's signal or after timeoutMs
+const fetchWithTimeout = async (
+  input: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal: AbortSignal | undefined,
+  correlationId: string
+): Promise<Response> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await apiFetch(input, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) {
+      throw new NetworkRequestError('The request timed out', error, {
+        code: 'timeout',
+        correlationId,
+      });
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * Build an ApiError from a failed response, keeping the server's message,
+ * code and field errors when it sent them
+ */
+const readApiError = async (
+  response: Response,
+  fallback: string,
+  correlationId: string | null = null
+): Promise<ApiError> => {
+  const body = (await response.json().catch(() => null)) as ApiResponse<unknown> | null;
+
+  return new ApiError(body?.message || body?.error || fallback, {
+    status: response.status,
+    code: typeof body?.code === 'string' ? body.code : undefined,
+    fieldErrors: body?.fieldErrors,
+    correlationId: response.headers.get(CORRELATION_HEADER) ?? correlationId,
+  });
+};
+
+/**
+ * Make a JSON request to the API
+ *
+ * Resolves with the parsed response body (checked by `parse` when given).
+ * Rejects with `ApiError` for error responses, `NetworkRequestError` when
+ * no response arrived (after any retries), or an AbortError when the
+ * caller's signal fired.
+ */
+export const apiRequest = async <T>(
+  path: string,
+  options: ApiRequestOptions<T> = {}
+): Promise<T> => {
+  const {
+    method = 'GET',
+    body,
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    errorMessage = 'Request failed',
+    parse,
+  } = options;
+  const retries = options.retries ?? (RETRIED_METHODS.includes(method) ? DEFAULT_RETRIES : 0);
+
+  // One ID for every attempt, so retries can be traced as one request
+  const correlationId = createCorrelationId();
+  const headers: Record<string, string> = { [CORRELATION_HEADER]: correlationId };
+  if (body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+  const init: RequestInit = {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const response = await fetchWithTimeout(path, init, timeoutMs, signal, correlationId);
+      if (!response.ok) {
+        throw await readApiError(response, errorMessage, correlationId);
+      }
+      const info: ApiResponseInfo = {
+        status: response.status,
+        correlationId: response.headers.get(CORRELATION_HEADER) ?? correlationId,
+      };
+      const data: unknown = await response.json().catch(() => {
+        throw new ApiError('The server sent an invalid response', {
+          ...info,
+          code: 'invalid_response',
+        });
+      });
+      return parse ? parse(data, info) : (data as T);
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error) || signal?.aborted) throw error;
+      await wait(retryDelay(attempt), signal);
+    }
+  }
+};
@@ -0,0 +1,128 @@
+/**
+ * API contract checks
+ *
+ * Payloads are validated where they enter the app, so a malformed
+ * response fails here with a clear report instead of deep inside a
+ * renderer. A malformed envelope rejects the request; malformed records
+ * in a list are quarantined (left out and reported) so the rest of the
+ * list still renders. Every violation is logged and kept for the dev
+ * overlay.
+ */
+import type { QuarantinedRecord } from '@/types';
+import type { Validator } from '@/utils';
+import { ApiError, type ApiResponseInfo } from './client';
+
+export interface ContractViolation {
+  key: string; // Same endpoint, record and errors = same violation
+  endpoint: string; // e.g. "GET /api/users"
+  recordId: string | null; // ID or #position in the list; null for a whole payload
+  errors: string[];
+  record: unknown;
+  reportedAt: number;
+}
+
+const MAX_VIOLATIONS = 100;
+
+let violations: ContractViolation[] = [];
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+/**
+ * Record a contract violation; repeats move to the top instead of piling up
+ */
+export const reportContractViolation = (
+  violation: Omit<ContractViolation, 'key' | 'reportedAt'>
+): void => {
+  const key = [violation.endpoint, violation.recordId ?? '', ...violation.errors].join('|');
+  const isRepeat = violations.some((existing) => existing.key === key);
+  if (!isRepeat) {
+    console.warn(
+      `API contract violation in ${violation.endpoint}` +
+        (violation.recordId ? ` (record ${violation.recordId})` : '') +
+        `: ${violation.errors.join('; ')}`,
+      violation.record
+    );
+  }
+
+  violations = [
+    { ...violation, key, reportedAt: Date.now() },
+    ...violations.filter((existing) => existing.key !== key),
+  ].slice(0, MAX_VIOLATIONS);
+  notify();
+};
+
+/**
+ * Violations reported so far, newest first
+ */
+export const getContractViolations = (): ContractViolation[] => violations;
+
+export const clearContractViolations = (): void => {
+  violations = [];
+  notify();
+};
+
+/**
+ * Subscribe to reported violations; returns an unsubscribe function
+ */
+export const subscribeToContractViolations = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Check a whole payload, rejecting the request when it doesn't match
+ *
+ * The error keeps the response's status and correlation ID, so the
+ * request can be found in the server logs.
+ */
+export const assertValid = <T>(
+  value: unknown,
+  validator: Validator<T>,
+  endpoint: string,
+  response: ApiResponseInfo
+): T => {
+  const errors = validator(value, '');
+  if (errors.length > 0) {
+    reportContractViolation({ endpoint, recordId: null, errors, record: value });
+    throw new ApiError('The server sent an invalid response', {
+      ...response,
+      code: 'invalid_response',
+    });
+  }
+  return value as T;
+};
+
+/**
+ * Split a list into valid records and quarantined ones
+ *
+ * `idField` names the field used to identify a record in reports.
+ */
+export const quarantineRecords = <T>(
+  records: unknown[],
+  validator: Validator<T>,
+  endpoint: string,
+  idField: string
+): { valid: T[]; quarantined: QuarantinedRecord[] } => {
+  const valid: T[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+
+  records.forEach((record, index) => {
+    const errors = validator(record, '');
+    if (errors.length === 0) {
+      valid.push(record as T);
+      return;
+    }
+    const id =
+      typeof record === 'object' && record !== null
+        ? (record as Record<string, unknown>)[idField]
+        : undefined;
+    const recordId = typeof id === 'string' ? id : null;
+    reportContractViolation({ endpoint, recordId: recordId ?? `#${index + 1}`, errors, record });
+    quarantined.push({ recordId, errors });
+  });
+
+  return { valid, quarantined };
+};
@@ -0,0 +1,96 @@
+import type {
+  ApiResponse,
+  Group,
+  GroupInput,
+  GroupSummary,
+  Role,
+  RoleInput,
+  RoleSummary,
+} from '@/types';
+import { apiRequest } from './client';
+
+const API_BASE = '/api';
+
+/**
+ * Fetch all groups with their roles and member counts
+ */
+export const fetchGroups = async (signal?: AbortSignal): Promise<ApiResponse<GroupSummary[]>> => {
+  return apiRequest(`${API_BASE}/groups`, { signal, errorMessage: 'Failed to fetch groups' });
+};
+
+/**
+ * Create a group
+ */
+export const createGroup = async (input: GroupInput): Promise<ApiResponse<Group>> => {
+  return apiRequest(`${API_BASE}/groups`, {
+    method: 'POST',
+    body: input,
+    errorMessage: 'Failed to create group',
+  });
+};
+
+/**
+ * Rename a group and/or replace its roles
+ */
+export const updateGroup = async (
+  groupId: string,
+  input: GroupInput
+): Promise<ApiResponse<Group>> => {
+  return apiRequest(`${API_BASE}/groups/${groupId}`, {
+    method: 'PUT',
+    body: input,
+    errorMessage: 'Failed to update group',
+  });
+};
+
+/**
+ * Delete a group, moving its members to reassignToGroupId
+ * (required by the server while the group still has members)
+ */
+export const deleteGroup = async (
+  groupId: string,
+  reassignToGroupId?: string
+): Promise<ApiResponse<never>> => {
+  const searchParams = new URLSearchParams();
+  if (reassignToGroupId) {
+    searchParams.set('reassignTo', reassignToGroupId);
+  }
+  const query = searchParams.toString();
+
+  return apiRequest(`${API_BASE}/groups/${groupId}${query ? `?${query}` : ''}`, {
+    method: 'DELETE',
+    errorMessage: 'Failed to delete group',
+  });
+};
+
+/**
+ * Fetch all roles with the number of groups granting them
+ */
+export const fetchRoles = async (signal?: AbortSignal): Promise<ApiResponse<RoleSummary[]>> => {
+  return apiRequest(`${API_BASE}/roles`, { signal, errorMessage: 'Failed to fetch roles' });
+};
+
+/**
+ * Create a role
+ */
+export const createRole = async (input: RoleInput): Promise<ApiResponse<Role>> => {
+  return apiRequest(`${API_BASE}/roles`, {
+    method: 'POST',
+    body: input,
+    errorMessage: 'Failed to create role',
+  });
+};
+
+/**
+ * Rename a role
+ */
+export const updateRole = async (
+  roleId: string,
+  input: RoleInput
+): Promise<ApiResponse<Role>> => {
+  return apiRequest(`${API_BASE}/roles/${roleId}`, {
+    method: 'PUT',
+    body: input,
+    errorMessage: 'Failed to rename role',
+  });
+};
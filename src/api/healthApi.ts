@@ -0,0 +1,39 @@
+import type { ApiResponse } from '@/types';
+import { apiRequest, ApiError, NetworkRequestError } from './client';
+
+const API_BASE = '/api';
+
+const HEALTH_TIMEOUT_MS = 5000;
+
+/**
+ * Ping the API health endpoint
+ *
+ * Rejects with `NetworkRequestError` when the API can't be reached: no
+ * response, a timeout, or a response that didn't come from the API (a
+ * captive portal's login page, for example). An error status from the API
+ * itself rejects with `ApiError`.
+ */
+export const checkHealth = async (
+  timeoutMs = HEALTH_TIMEOUT_MS
+): Promise<ApiResponse<{ status: string }>> => {
+  let body: ApiResponse<{ status: string }>;
+  try {
+    // The heartbeat has its own backoff, so a failed check is not retried
+    body = await apiRequest(`${API_BASE}/health`, {
+      timeoutMs,
+      retries: 0,
+      errorMessage: 'API health check failed',
+    });
+  } catch (error) {
+    if (error instanceof ApiError && error.code === 'invalid_response') {
+      throw new NetworkRequestError('Unexpected response from the health check', error);
+    }
+    throw error;
+  }
+
+  if (!body?.success || body.data?.status !== 'ok') {
+    throw new NetworkRequestError('Unexpected response from the health check');
+  }
+
+  return body;
+};
@@ -1 +1,43 @@
-export { fetchUsers, updateUserStatus } from './userApi';
+export {
+  fetchUsers,
+  fetchUserBatches,
+  fetchAllUsers,
+  fetchUserById,
+  createUser,
+  importUsers,
+  updateUser,
+  deleteUser,
+  updateUserStatus,
+  bulkUpdateUsers,
+} from './userApi';
+export {
+  fetchGroups,
+  createGroup,
+  updateGroup,
+  deleteGroup,
+  fetchRoles,
+  createRole,
+  updateRole,
+} from './groupApi';
+export { fetchAuditLog } from './auditApi';
+export { fetchColumnMetadata } from './metadataApi';
+export { fetchCurrentUser } from './sessionApi';
+export { login, logout } from './authApi';
+export { checkHealth } from './healthApi';
+export {
+  apiFetch,
+  apiRequest,
+  getAuthToken,
+  setAuthToken,
+  onUnauthorized,
+  ApiError,
+  NetworkRequestError,
+} from './client';
+export type { ApiRequestOptions, ApiResponseInfo } from './client';
+export {
+  reportContractViolation,
+  getContractViolations,
+  clearContractViolations,
+  subscribeToContractViolations,
+} from './contracts';
+export type { ContractViolation } from './contracts';
@@ -0,0 +1,19 @@
+import type { ApiResponse } from '@/types';
+import { apiRequest } from './client';
+
+const API_BASE = '/api';
+
+/**
+ * Fetch the column metadata for an entity's table
+ *
+ * The payload is returned unchecked; callers validate it before use.
+ */
+export const fetchColumnMetadata = async (
+  entity: string,
+  signal?: AbortSignal
+): Promise<ApiResponse<unknown>> => {
+  return apiRequest(`${API_BASE}/metadata/${encodeURIComponent(entity)}`, {
+    signal,
+    errorMessage: 'Failed to fetch column metadata',
+  });
+};
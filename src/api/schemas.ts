@@ -0,0 +1,61 @@
+/**
+ * Validators for API payloads, one per type in src/types
+ *
+ * `validators.object<T>` requires a validator for every field of T, so
+ * these fail to compile when the types change without them.
+ */
+import type { BulkUserResult, Group, Role, User } from '@/types';
+import { validators as v } from '@/utils';
+
+export const roleSchema = v.object<Role>({
+  roleId: v.nonEmptyString(),
+  roleName: v.string(),
+});
+
+export const groupSchema = v.object<Group>({
+  groupId: v.nonEmptyString(),
+  groupName: v.string(),
+  roles: v.arrayOf(roleSchema),
+});
+
+export const userSchema = v.object<User>({
+  userId: v.nonEmptyString(),
+  name: v.string(),
+  email: v.string(),
+  status: v.oneOf('active', 'inactive'),
+  createdAt: v.isoDateString(),
+  groups: v.arrayOf(groupSchema),
+});
+
+// GET /api/users; the users themselves are checked one by one
+export const usersPageSchema = v.object<{ data: { totalCount: number; users: unknown[] } }>({
+  data: v.object({
+    totalCount: v.number(),
+    users: v.arrayOf(v.unknown()),
+  }),
+});
+
+// A single user: GET, PUT and PATCH /api/users/:id, POST /api/users
+export const userResponseSchema = v.object<{ success: boolean; data: User; message?: string }>({
+  success: v.boolean(),
+  data: userSchema,
+  message: v.optional(v.string()),
+});
+
+export const bulkUserResultSchema = v.object<BulkUserResult>({
+  userId: v.nonEmptyString(),
+  success: v.boolean(),
+  data: v.optional(userSchema),
+  error: v.optional(v.string()),
+});
+
+// PATCH /api/users
+export const bulkUpdateResponseSchema = v.object<{
+  success: boolean;
+  data: BulkUserResult[];
+  message?: string;
+}>({
+  success: v.boolean(),
+  data: v.arrayOf(bulkUserResultSchema),
+  message: v.optional(v.string()),
+});
@@ -0,0 +1,11 @@
+import type { ApiResponse, User } from '@/types';
+import { apiRequest } from './client';
+
+const API_BASE = '/api';
+
+/**
+ * Fetch the signed-in user
+ */
+export const fetchCurrentUser = async (signal?: AbortSignal): Promise<ApiResponse<User>> => {
+  return apiRequest(`${API_BASE}/me`, { signal, errorMessage: 'Failed to fetch current user' });
+};
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { User } from '@/types';
+import {
+  fetchUsers,
+  fetchAllUsers,
+  fetchUserById,
+  updateUserStatus,
+  bulkUpdateUsers,
+} from './userApi';
+import { ApiError } from './client';
+import { clearContractViolations, getContractViolations } from './contracts';
+
+const user: User = {
+  userId: 'user-1',
+  name: 'Ada Lovelace',
+  email: 'ada@example.com',
+  status: 'active',
+  createdAt: '2024-01-15T09:00:00.000Z',
+  groups: [{ groupId: 'group-1', groupName: 'Engineering', roles: [] }],
+};
+
+const jsonResponse = (body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+describe('userApi response validation', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    clearContractViolations();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should quarantine invalid users and keep the rest', async () => {
+    const { groups: _groups, ...withoutGroups } = user;
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        success: true,
+        data: {
+          totalCount: 3,
+          users: [
+            user,
+            { ...withoutGroups, userId: 'user-2' },
+            { ...user, userId: 'user-3', status: 'banned', createdAt: 'last week' },
+          ],
+        },
+      })
+    );
+
+    const response = await fetchUsers({ page: 1, pageSize: 10 });
+
+    expect(response.data.users).toEqual([user]);
+    expect(response.data.totalCount).toBe(3);
+    expect(response.quarantined).toEqual([
+      { recordId: 'user-2', errors: ['groups must be a list'] },
+      {
+        recordId: 'user-3',
+        errors: [
+          'status must be one of "active", "inactive"',
+          'createdAt must be an ISO date-time string',
+        ],
+      },
+    ]);
+    expect(getContractViolations().map((violation) => violation.recordId)).toEqual([
+      'user-3',
+      'user-2',
+    ]);
+  });
+
+  it('should reject a malformed users page', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ success: true, data: { users: 'none' } }));
+
+    const error = await fetchUsers({ page: 1, pageSize: 10 }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ code: 'invalid_response' });
+    expect(getContractViolations()[0]).toMatchObject({
+      endpoint: 'GET /api/users',
+      recordId: null,
+      errors: ['data.totalCount must be a number', 'data.users must be a list'],
+    });
+  });
+
+  it('should reject an invalid single user', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({ success: true, data: { ...user, createdAt: 'not a date' } })
+    );
+
+    await expect(fetchUserById('user-1')).rejects.toMatchObject({ code: 'invalid_response' });
+    expect(getContractViolations()[0].errors).toEqual([
+      'data.createdAt must be an ISO date-time string',
+    ]);
+  });
+
+  it('should reject invalid mutation responses with the request details', async () => {
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify({ success: true, data: { ...user, status: 'banned' } }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json', 'X-Correlation-Id': 'req-42' },
+      })
+    );
+
+    await expect(updateUserStatus('user-1', 'active')).rejects.toMatchObject({
+      code: 'invalid_response',
+      status: 200,
+      correlationId: 'req-42',
+    });
+    expect(getContractViolations()[0].endpoint).toBe('PATCH /api/users/:id');
+
+    fetchMock.mockResolvedValue(
+      jsonResponse({ success: true, data: [{ userId: 'user-1', success: 'yes' }] })
+    );
+    await expect(
+      bulkUpdateUsers({ userIds: ['user-1'], status: 'active' })
+    ).rejects.toMatchObject({ code: 'invalid_response' });
+    expect(getContractViolations()[0].errors).toEqual(['data[0].success must be a boolean']);
+  });
+});
+
+describe('fetchAllUsers', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should stop requesting batches once aborted', async () => {
+    fetchMock.mockImplementation(async () =>
+      jsonResponse({ success: true, data: { totalCount: 500, users: [user] } })
+    );
+    const controller = new AbortController();
+
+    const result = fetchAllUsers({}, () => controller.abort(), controller.signal);
+
+    await expect(result).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,12 +1,34 @@
-import type { User, UsersApiResponse, PaginationParams } from '@/types';
+import type {
+  User,
+  UsersApiResponse,
+  PaginationParams,
+  ApiResponse,
+  BulkUserUpdate,
+  BulkUserResult,
+  UserInput,
+  UserImportRow,
+  UserImportReport,
+} from '@/types';
+import { apiRequest } from './client';
+import { assertValid, quarantineRecords } from './contracts';
+import {
+  bulkUpdateResponseSchema,
+  userResponseSchema,
+  userSchema,
+  usersPageSchema,
+} from './schemas';
 
 const API_BASE = '/api';
 
 /**
  * Fetch users with pagination and filters
+ *
+ * Users that don't match the User type are left out of `data.users` and
+ * listed in `quarantined`; `totalCount` still counts them.
  */
 export const fetchUsers = async (
-  params: PaginationParams
+  params: PaginationParams,
+  signal?: AbortSignal
 ): Promise<UsersApiResponse> => {
   const searchParams = new URLSearchParams({
     page: params.page.toString(),
@@ -21,33 +43,205 @@ export const fetchUsers = async (
     searchParams.set('status', params.status);
   }
 
-  const response = await fetch(`${API_BASE}/users?${searchParams}`);
+  // Multi-column sort is sent as parallel comma-separated lists
+  if (params.sortBy && params.sortBy.length > 0) {
+    searchParams.set('sortBy', params.sortBy.join(','));
+    searchParams.set(
+      'sortDir',
+      params.sortBy.map((_, index) => params.sortDir?.[index] ?? 'asc').join(',')
+    );
+  }
+
+  // Column filters
+  if (params.groupIds && params.groupIds.length > 0) {
+    searchParams.set('groups', params.groupIds.join(','));
+  }
+
+  if (params.roleIds && params.roleIds.length > 0) {
+    searchParams.set('roles', params.roleIds.join(','));
+  }
+
+  if (params.createdFrom) {
+    searchParams.set('createdFrom', params.createdFrom);
+  }
 
-  if (!response.ok) {
-    throw new Error('Failed to fetch users');
+  if (params.createdTo) {
+    searchParams.set('createdTo', params.createdTo);
   }
 
-  return response.json();
+  if (params.privilegeLevel) {
+    searchParams.set('privilegeLevel', params.privilegeLevel);
+  }
+
+  const page = await apiRequest(`${API_BASE}/users?${searchParams}`, {
+    signal,
+    errorMessage: 'Failed to fetch users',
+    parse: (body, response) => assertValid(body, usersPageSchema, 'GET /api/users', response),
+  });
+
+  const { valid, quarantined } = quarantineRecords(
+    page.data.users,
+    userSchema,
+    'GET /api/users',
+    'userId'
+  );
+  return { ...page, data: { ...page.data, users: valid }, quarantined };
+};
+
+// Page size used when fetching the full result set
+const BATCH_SIZE = 100;
+
+/**
+ * Fetch every user matching the filters and sort, one batch at a time
+ *
+ * Yields each batch as it arrives along with the total, so callers can
+ * report progress or process users without waiting for the whole set.
+ */
+export async function* fetchUserBatches(
+  params: Omit<PaginationParams, 'page' | 'pageSize'>,
+  batchSize: number = BATCH_SIZE,
+  signal?: AbortSignal
+): AsyncGenerator<{ users: User[]; totalCount: number }> {
+  let page = 1;
+  let fetched = 0;
+
+  while (true) {
+    signal?.throwIfAborted();
+    const response = await fetchUsers({ ...params, page, pageSize: batchSize }, signal);
+    const { users, totalCount } = response.data;
+    // Quarantined users were still sent, so they count towards the total
+    const received = users.length + (response.quarantined?.length ?? 0);
+    fetched += received;
+    yield { users, totalCount };
+
+    if (received === 0 || fetched >= totalCount) return;
+    page += 1;
+  }
+}
+
+/**
+ * Fetch every user matching the filters and sort
+ *
+ * Aborting the signal cancels the batch in flight and rejects with an
+ * AbortError, so no further batches are requested.
+ */
+export const fetchAllUsers = async (
+  params: Omit<PaginationParams, 'page' | 'pageSize'>,
+  onProgress?: (loaded: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<User[]> => {
+  const users: User[] = [];
+  for await (const batch of fetchUserBatches(params, BATCH_SIZE, signal)) {
+    users.push(...batch.users);
+    onProgress?.(users.length, batch.totalCount);
+  }
+  return users;
+};
+
+/**
+ * Fetch a single user by ID
+ */
+export const fetchUserById = async (
+  userId: string,
+  signal?: AbortSignal
+): Promise<ApiResponse<User>> => {
+  return apiRequest(`${API_BASE}/users/${userId}`, {
+    signal,
+    errorMessage: 'Failed to fetch user',
+    parse: (body, response) =>
+      assertValid(body, userResponseSchema, 'GET /api/users/:id', response),
+  });
+};
+
+/**
+ * Create a user
+ */
+export const createUser = async (input: UserInput): Promise<ApiResponse<User>> => {
+  return apiRequest(`${API_BASE}/users`, {
+    method: 'POST',
+    body: input,
+    errorMessage: 'Failed to create user',
+    parse: (body, response) => assertValid(body, userResponseSchema, 'POST /api/users', response),
+  });
+};
+
+/**
+ * Import users from parsed file rows
+ *
+ * With dryRun the server only validates and reports per-row errors;
+ * otherwise it creates every valid row and skips the rest.
+ */
+export const importUsers = async (
+  rows: UserImportRow[],
+  dryRun: boolean
+): Promise<ApiResponse<UserImportReport>> => {
+  return apiRequest(`${API_BASE}/users/import`, {
+    method: 'POST',
+    body: { rows, dryRun },
+    errorMessage: 'Failed to import users',
+  });
+};
+
+/**
+ * Update a user's editable fields
+ */
+export const updateUser = async (
+  userId: string,
+  input: UserInput
+): Promise<ApiResponse<User>> => {
+  return apiRequest(`${API_BASE}/users/${userId}`, {
+    method: 'PUT',
+    body: input,
+    errorMessage: 'Failed to update user',
+    parse: (body, response) =>
+      assertValid(body, userResponseSchema, 'PUT /api/users/:id', response),
+  });
+};
+
+/**
+ * Delete a user
+ */
+export const deleteUser = async (userId: string): Promise<ApiResponse<never>> => {
+  return apiRequest(`${API_BASE}/users/${userId}`, {
+    method: 'DELETE',
+    errorMessage: 'Failed to delete user',
+  });
 };
 
 /**
  * Update user status (activate/deactivate)
+ *
+ * With `unmodifiedSince` (an ISO date-time), the server rejects the change
+ * (409) if someone else changed the user's status after that time.
  */
 export const updateUserStatus = async (
   userId: string,
-  status: 'active' | 'inactive'
-): Promise<{ success: boolean; data: User; message: string }> => {
-  const response = await fetch(`${API_BASE}/users/${userId}`, {
+  status: 'active' | 'inactive',
+  unmodifiedSince?: string
+): Promise<{ success: boolean; data: User; message?: string }> => {
+  return apiRequest(`${API_BASE}/users/${userId}`, {
     method: 'PATCH',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ status }),
+    body: { status, unmodifiedSince },
+    errorMessage: 'Failed to update user status',
+    parse: (body, response) =>
+      assertValid(body, userResponseSchema, 'PATCH /api/users/:id', response),
   });
+};
 
-  if (!response.ok) {
-    throw new Error('Failed to update user status');
-  }
-
-  return response.json();
+/**
+ * Bulk update status and/or group membership for several users
+ *
+ * The server applies the change per user and reports each outcome,
+ * so a successful response can still contain failed results.
+ */
+export const bulkUpdateUsers = async (
+  update: BulkUserUpdate
+): Promise<ApiResponse<BulkUserResult[]>> => {
+  return apiRequest(`${API_BASE}/users`, {
+    method: 'PATCH',
+    body: update,
+    errorMessage: 'Failed to update users',
+    parse: (body, response) =>
+      assertValid(body, bulkUpdateResponseSchema, 'PATCH /api/users', response),
+  });
 };
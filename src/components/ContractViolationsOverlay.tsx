@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Divider,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import ReportProblemIcon from '@mui/icons-material/ReportProblem';
+import CloseIcon from '@mui/icons-material/Close';
+import { useContractViolations } from '@/hooks';
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+/**
+ * ContractViolationsOverlay Component
+ *
+ * Development-only badge listing API payloads that broke the contract
+ * (see src/api/contracts.ts): which endpoint, which record and what was
+ * wrong with it. Hidden while there is nothing to report.
+ */
+export const ContractViolationsOverlay: React.FC = () => {
+  const { violations, clear } = useContractViolations();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (violations.length === 0) return null;
+
+  return (
+    <Box
+      sx={{
+        position: 'fixed',
+        left: 16,
+        bottom: 16,
+        zIndex: (theme) => theme.zIndex.snackbar + 1,
+        maxWidth: 'calc(100vw - 32px)',
+      }}
+    >
+      {isOpen ? (
+        <Paper
+          elevation={8}
+          role="dialog"
+          aria-label="API contract violations"
+          sx={{
+            width: 480,
+            maxWidth: '100%',
+            maxHeight: '50vh',
+            display: 'flex',
+            flexDirection: 'column',
+          }}
+        >
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, px: 2, py: 1 }}>
+            <ReportProblemIcon color="warning" fontSize="small" />
+            <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+              API contract violations ({violations.length})
+            </Typography>
+            <Button size="small" color="inherit" onClick={clear}>
+              Clear
+            </Button>
+            <Tooltip title="Close">
+              <IconButton size="small" onClick={() => setIsOpen(false)} aria-label="Close">
+                <CloseIcon fontSize="small" />
+              </IconButton>
+            </Tooltip>
+          </Box>
+          <Divider />
+          <List dense sx={{ overflowY: 'auto' }}>
+            {violations.map((violation) => (
+              <ListItem key={violation.key} alignItems="flex-start" divider>
+                <ListItemText
+                  primary={
+                    <>
+                      {violation.endpoint}
+                      {violation.recordId && ` · ${violation.recordId}`}
+                      <Typography component="span" variant="caption" color="text.secondary">
+                        {' '}
+                        at {formatTime(violation.reportedAt)}
+                      </Typography>
+                    </>
+                  }
+                  secondary={
+                    <Box component="ul" sx={{ m: 0, pl: 2, fontFamily: 'monospace' }}>
+                      {violation.errors.map((error) => (
+                        <li key={error}>{error}</li>
+                      ))}
+                    </Box>
+                  }
+                  secondaryTypographyProps={{ component: 'div' }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </Paper>
+      ) : (
+        <Button
+          variant="contained"
+          color="warning"
+          startIcon={<ReportProblemIcon />}
+          onClick={() => setIsOpen(true)}
+        >
+          {violations.length} API contract {violations.length === 1 ? 'violation' : 'violations'}
+        </Button>
+      )}
+    </Box>
+  );
+};
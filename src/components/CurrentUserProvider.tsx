@@ -0,0 +1,68 @@
+import React, { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { getAuthToken, login, logout, onUnauthorized, setAuthToken } from '@/api';
+import { CurrentUserContext, sessionQueryKeys, useCurrentUserQuery } from '@/hooks';
+import { getPrivilegeLevel } from '@/utils';
+
+interface CurrentUserProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Current User Provider
+ *
+ * Owns the session: keeps the token, signs in/out and loads the
+ * signed-in user from GET /api/me. The user and their privilege level
+ * are exposed to everything below through CurrentUserContext.
+ */
+export const CurrentUserProvider: React.FC<CurrentUserProviderProps> = ({ children }) => {
+  const queryClient = useQueryClient();
+  const [token, setToken] = useState<string | null>(() => getAuthToken());
+  const { data: currentUser = null, isLoading } = useCurrentUserQuery(!!token);
+
+  // Drop the session (and any data cached for it)
+  const clearSession = useCallback(() => {
+    setAuthToken(null);
+    setToken(null);
+    queryClient.clear();
+  }, [queryClient]);
+
+  // Any 401 from the API means the token is no longer valid
+  useEffect(() => onUnauthorized(clearSession), [clearSession]);
+
+  const signIn = useCallback(
+    async (email: string, password: string) => {
+      const response = await login(email, password);
+      const session = response.data!;
+      setAuthToken(session.token);
+      queryClient.setQueryData(sessionQueryKeys.me(), { success: true, data: session.user });
+      setToken(session.token);
+      return session.user;
+    },
+    [queryClient]
+  );
+
+  const signOut = useCallback(async () => {
+    try {
+      await logout();
+    } catch (error) {
+      // The local session is cleared regardless
+      console.warn('Error signing out:', error);
+    }
+    clearSession();
+  }, [clearSession]);
+
+  const value = useMemo(
+    () => ({
+      currentUser,
+      privilegeLevel: currentUser ? getPrivilegeLevel(currentUser) : null,
+      isLoading,
+      isAuthenticated: !!token,
+      signIn,
+      signOut,
+    }),
+    [currentUser, isLoading, token, signIn, signOut]
+  );
+
+  return <CurrentUserContext.Provider value={value}>{children}</CurrentUserContext.Provider>;
+};
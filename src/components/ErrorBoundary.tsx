@@ -12,6 +12,9 @@ import RefreshIcon from '@mui/icons-material/Refresh';
 import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline';
 import WifiOffIcon from '@mui/icons-material/WifiOff';
 import SignalWifiOffIcon from '@mui/icons-material/SignalWifiOff';
+import CloudOffIcon from '@mui/icons-material/CloudOff';
+import NetworkCheckIcon from '@mui/icons-material/NetworkCheck';
+import { ApiError } from '@/api';
 
 interface Props {
   children: ReactNode;
@@ -139,11 +142,13 @@ export class ErrorBoundary extends Component<Props, State> {
  * Error Alert Component
  *
  * Displays an error message with retry functionality.
- * Use this for API errors and recoverable errors.
+ * Use this for API errors and recoverable errors. Pass the `error` itself
+ * to also show an ApiError's code and correlation ID for support.
  */
 interface ErrorAlertProps {
   title?: string;
-  message: string;
+  message?: string; // Defaults to the error's own message
+  error?: unknown;
   onRetry?: () => void;
   showRetry?: boolean;
 }
@@ -151,9 +156,13 @@ interface ErrorAlertProps {
 export const ErrorAlert: React.FC<ErrorAlertProps> = ({
   title = 'Error',
   message,
+  error,
   onRetry,
   showRetry = true,
 }) => {
+  const apiError = error instanceof ApiError ? error : null;
+  const errorMessage = error instanceof Error ? error.message : 'Something went wrong.';
+
   return (
     <Alert
       severity="error"
@@ -172,7 +181,12 @@ export const ErrorAlert: React.FC<ErrorAlertProps> = ({
       }
     >
       <AlertTitle>{title}</AlertTitle>
-      {message}
+      {message ?? errorMessage}
+      {apiError?.correlationId && (
+        <Typography variant="caption" component="div" sx={{ mt: 1, opacity: 0.8 }}>
+          Error code: {apiError.code} · Reference ID: {apiError.correlationId}
+        </Typography>
+      )}
     </Alert>
   );
 };
@@ -219,25 +233,60 @@ export const NetworkError: React.FC<NetworkErrorProps> = ({ onRetry }) => {
   );
 };
 
+// Why the app can't talk to the API: no network at all, or the network
+// is up but the API doesn't answer (server down, captive portal)
+export type OfflineReason = 'offline' | 'unreachable';
+
 /**
  * Offline Banner Component
  *
- * Shows a persistent banner when the user is offline.
- * Automatically hides when connection is restored.
+ * Shows a persistent banner when the user is offline, or a milder one
+ * while the connection is degraded. Automatically hides when connection
+ * is restored. With `dataUpdatedAt`, it also says how old the data on
+ * screen is.
  */
 interface OfflineBannerProps {
   isOffline: boolean;
+  isDegraded?: boolean;
+  reason?: OfflineReason;
+  dataUpdatedAt?: number; // When the (cached) data shown was fetched
 }
 
-export const OfflineBanner: React.FC<OfflineBannerProps> = ({ isOffline }) => {
+const formatDataTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const bannerTitles: Record<OfflineReason | 'degraded', string> = {
+  offline: 'No internet connection.',
+  unreachable: "Can't reach the server.",
+  degraded: 'Connection is unstable.',
+};
+
+export const OfflineBanner: React.FC<OfflineBannerProps> = ({
+  isOffline,
+  isDegraded = false,
+  reason = 'offline',
+  dataUpdatedAt,
+}) => {
+  const state = isOffline ? reason : 'degraded';
+  const icons: Record<typeof state, ReactNode> = {
+    offline: <WifiOffIcon />,
+    unreachable: <CloudOffIcon />,
+    degraded: <NetworkCheckIcon />,
+  };
+
   return (
     <Snackbar
-      open={isOffline}
+      open={isOffline || isDegraded}
       anchorOrigin={{ vertical: 'top', horizontal: 'center' }}
     >
       <Alert
-        severity="warning"
-        icon={<WifiOffIcon />}
+        severity={isOffline ? 'warning' : 'info'}
+        icon={icons[state]}
         sx={{
           width: '100%',
           alignItems: 'center',
@@ -249,7 +298,12 @@ export const OfflineBanner: React.FC<OfflineBannerProps> = ({ isOffline }) => {
         }}
       >
         <Typography variant="body2" fontWeight={500}>
-          No internet connection. Some features may not work.
+          {bannerTitles[state]}{' '}
+          {dataUpdatedAt && isOffline
+            ? `Showing data from ${formatDataTime(dataUpdatedAt)}.`
+            : isOffline
+              ? 'Some features may not work.'
+              : 'Some requests may be slow or fail.'}
         </Typography>
       </Alert>
     </Snackbar>
@@ -260,16 +314,33 @@ export const OfflineBanner: React.FC<OfflineBannerProps> = ({ isOffline }) => {
  * Offline Full Page Component
  *
  * Shows a full page message when user is offline and data couldn't be loaded.
+ * `reason` decides whether to blame the user's connection or the server.
  */
 interface OfflinePageProps {
   onRetry: () => void;
   message?: string;
+  reason?: OfflineReason;
 }
 
+const offlinePageText: Record<OfflineReason, { title: string; hint: string }> = {
+  offline: {
+    title: "You're Offline",
+    hint: 'Please check your internet connection.',
+  },
+  unreachable: {
+    title: "Can't Reach the Server",
+    hint: 'Your connection looks fine, but the server is not responding. Please try again shortly.',
+  },
+};
+
 export const OfflinePage: React.FC<OfflinePageProps> = ({
   onRetry,
-  message = 'You are currently offline. Please check your internet connection.',
+  message,
+  reason = 'offline',
 }) => {
+  const { title, hint } = offlinePageText[reason];
+  const Icon = reason === 'offline' ? SignalWifiOffIcon : CloudOffIcon;
+
   return (
     <Box
       sx={{
@@ -290,14 +361,14 @@ export const OfflinePage: React.FC<OfflinePageProps> = ({
           backgroundColor: 'transparent',
         }}
       >
-        <SignalWifiOffIcon
+        <Icon
           sx={{ fontSize: 80, color: 'text.secondary', mb: 2 }}
         />
         <Typography variant="h5" gutterBottom color="text.primary">
-          You're Offline
+          {title}
         </Typography>
         <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
-          {message}
+          {message ? `${message} ${hint}` : hint}
         </Typography>
         <Button
           variant="contained"
@@ -0,0 +1,34 @@
+import React, { type ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Box, CircularProgress } from '@mui/material';
+import { useCurrentUser } from '@/hooks';
+
+interface RequireAuthProps {
+  children: ReactNode;
+}
+
+/**
+ * Route guard
+ *
+ * Redirects to /login when there is no session, remembering the full
+ * original location (path and search params) so the login page can
+ * send the user back to the same page, filters and query.
+ */
+export const RequireAuth: React.FC<RequireAuthProps> = ({ children }) => {
+  const { isAuthenticated, isLoading } = useCurrentUser();
+  const location = useLocation();
+
+  if (!isAuthenticated) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '100vh' }}>
+        <CircularProgress aria-label="Loading session" />
+      </Box>
+    );
+  }
+
+  return <>{children}</>;
+};
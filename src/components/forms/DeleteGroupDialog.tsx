@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+} from '@mui/material';
+import type { GroupSummary } from '@/types';
+
+interface DeleteGroupDialogProps {
+  open: boolean;
+  group: GroupSummary | null;
+  groups: GroupSummary[]; // Candidates for reassignment
+  onClose: () => void;
+  onConfirm: (reassignToGroupId?: string) => void;
+  isDeleting?: boolean;
+  submitError?: string | null;
+}
+
+/**
+ * DeleteGroupDialog Component
+ *
+ * Confirms deleting a group. While the group still has members the
+ * admin must pick a group to move them to before deleting.
+ */
+export const DeleteGroupDialog: React.FC<DeleteGroupDialogProps> = ({
+  open,
+  group,
+  groups,
+  onClose,
+  onConfirm,
+  isDeleting = false,
+  submitError,
+}) => {
+  const [reassignTo, setReassignTo] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setReassignTo('');
+    }
+  }, [open]);
+
+  const memberCount = group?.memberCount ?? 0;
+  const needsReassignment = memberCount > 0;
+  const candidates = groups.filter((g) => g.groupId !== group?.groupId);
+
+  return (
+    <Dialog
+      open={open}
+      onClose={isDeleting ? undefined : onClose}
+      aria-labelledby="delete-group-dialog-title"
+      fullWidth
+      maxWidth="sm"
+    >
+      <DialogTitle id="delete-group-dialog-title">Delete {group?.groupName}?</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2}>
+          {submitError && <Alert severity="error">{submitError}</Alert>}
+          {needsReassignment ? (
+            <>
+              <DialogContentText>
+                This group still has {memberCount} {memberCount === 1 ? 'member' : 'members'}.
+                Choose a group to move them to before deleting it.
+              </DialogContentText>
+              <FormControl fullWidth required>
+                <InputLabel id="delete-group-reassign-label">Reassign members to</InputLabel>
+                <Select
+                  labelId="delete-group-reassign-label"
+                  value={reassignTo}
+                  label="Reassign members to"
+                  onChange={(e) => setReassignTo(e.target.value)}
+                >
+                  {candidates.map((candidate) => (
+                    <MenuItem key={candidate.groupId} value={candidate.groupId}>
+                      {candidate.groupName}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </>
+          ) : (
+            <DialogContentText>
+              This group has no members. This action cannot be undone.
+            </DialogContentText>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} color="inherit" disabled={isDeleting} autoFocus>
+          Cancel
+        </Button>
+        <Button
+          onClick={() => onConfirm(needsReassignment ? reassignTo : undefined)}
+          color="error"
+          variant="contained"
+          disabled={isDeleting || (needsReassignment && !reassignTo)}
+          startIcon={isDeleting ? <CircularProgress size={16} color="inherit" /> : undefined}
+        >
+          {needsReassignment ? 'Reassign & Delete' : 'Delete'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
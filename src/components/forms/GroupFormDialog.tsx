@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Checkbox,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  ListItemText,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+} from '@mui/material';
+import type { Group, GroupInput, Role } from '@/types';
+import { isAccessLevelGroupName } from '@/utils';
+
+interface GroupFormDialogProps {
+  open: boolean;
+  group?: Group | null; // Edit mode when provided
+  roles: Role[];
+  onClose: () => void;
+  onSubmit: (input: GroupInput) => void;
+  isSubmitting?: boolean;
+  submitError?: string | null;
+}
+
+const toInput = (group?: Group | null): GroupInput =>
+  group
+    ? { groupName: group.groupName, roleIds: group.roles.map((role) => role.roleId) }
+    : { groupName: '', roleIds: [] };
+
+/**
+ * GroupFormDialog Component
+ *
+ * Create/rename a group and choose the roles it grants.
+ * Name uniqueness is checked by the server. Groups whose name sets their
+ * members' access level (e.g. Administrators, Read Only) keep their name.
+ */
+export const GroupFormDialog: React.FC<GroupFormDialogProps> = ({
+  open,
+  group,
+  roles,
+  onClose,
+  onSubmit,
+  isSubmitting = false,
+  submitError,
+}) => {
+  const isEdit = !!group;
+  const isNameLocked = isEdit && isAccessLevelGroupName(group.groupName);
+  const [values, setValues] = useState<GroupInput>(() => toInput(group));
+  const [nameError, setNameError] = useState<string | null>(null);
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setValues(toInput(group));
+      setNameError(null);
+    }
+  }, [open, group]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!values.groupName.trim()) {
+      setNameError('Group name is required');
+      return;
+    }
+    onSubmit({ ...values, groupName: values.groupName.trim() });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={isSubmitting ? undefined : onClose}
+      aria-labelledby="group-form-dialog-title"
+      fullWidth
+      maxWidth="sm"
+    >
+      <form onSubmit={handleSubmit} noValidate>
+        <DialogTitle id="group-form-dialog-title">
+          {isEdit ? `Edit ${group.groupName}` : 'Add Group'}
+        </DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            {submitError && <Alert severity="error">{submitError}</Alert>}
+
+            <TextField
+              label="Group Name"
+              value={values.groupName}
+              onChange={(e) => {
+                setValues((prev) => ({ ...prev, groupName: e.target.value }));
+                setNameError(null);
+              }}
+              error={!!nameError}
+              helperText={
+                nameError ??
+                (isNameLocked && "This group sets its members' access level, so it can't be renamed")
+              }
+              disabled={isNameLocked}
+              required
+              autoFocus
+              fullWidth
+            />
+
+            <FormControl fullWidth>
+              <InputLabel id="group-form-roles-label">Roles</InputLabel>
+              <Select<string[]>
+                labelId="group-form-roles-label"
+                multiple
+                value={values.roleIds}
+                label="Roles"
+                onChange={(e) => {
+                  const value = e.target.value;
+                  setValues((prev) => ({
+                    ...prev,
+                    roleIds: typeof value === 'string' ? value.split(',') : value,
+                  }));
+                }}
+                renderValue={(selected) =>
+                  selected
+                    .map((roleId) => roles.find((r) => r.roleId === roleId)?.roleName ?? roleId)
+                    .join(', ')
+                }
+              >
+                {roles.map((role) => (
+                  <MenuItem key={role.roleId} value={role.roleId}>
+                    <Checkbox checked={values.roleIds.includes(role.roleId)} size="small" />
+                    <ListItemText primary={role.roleName} />
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose} color="inherit" disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={isSubmitting}
+            startIcon={isSubmitting ? <CircularProgress size={16} color="inherit" /> : undefined}
+          >
+            {isEdit ? 'Save Changes' : 'Create Group'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
@@ -0,0 +1,301 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Step,
+  StepLabel,
+  Stepper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import { useImportUsers } from '@/hooks';
+import {
+  parseCsv,
+  guessColumnMapping,
+  toImportRows,
+  importFields,
+  type ImportColumnMapping,
+} from '@/utils';
+import type { Group, UserImportReport } from '@/types';
+
+interface ImportUsersDialogProps {
+  open: boolean;
+  groups: Group[]; // Known groups, to preview how group names resolve
+  onClose: () => void;
+  onImported: (report: UserImportReport) => void;
+}
+
+const steps = ['Upload CSV', 'Map Columns', 'Review & Import'];
+
+/**
+ * ImportUsersDialog Component
+ *
+ * Three-step import wizard: upload a CSV, map its columns to user fields,
+ * then review the server's dry-run report before importing. Rows with
+ * errors are skipped; all other rows are created together.
+ */
+export const ImportUsersDialog: React.FC<ImportUsersDialogProps> = ({
+  open,
+  groups,
+  onClose,
+  onImported,
+}) => {
+  const [activeStep, setActiveStep] = useState(0);
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [report, setReport] = useState<UserImportReport | null>(null);
+  const importMutation = useImportUsers();
+  const { reset: resetImport } = importMutation;
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setActiveStep(0);
+      setFileName('');
+      setHeaders([]);
+      setDataRows([]);
+      setMapping(null);
+      setFileError(null);
+      setReport(null);
+      resetImport();
+    }
+  }, [open, resetImport]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow choosing the same file again
+    if (!file) return;
+
+    const [headerRow, ...rows] = parseCsv(await file.text());
+    if (!headerRow || rows.length === 0) {
+      setFileError('The file needs a header row and at least one user row.');
+      return;
+    }
+
+    setFileName(file.name);
+    setHeaders(headerRow);
+    setDataRows(rows);
+    setMapping(guessColumnMapping(headerRow));
+    setFileError(null);
+    setActiveStep(1);
+  };
+
+  const missingFields = mapping
+    ? importFields.filter(({ field, required }) => required && mapping[field] === null)
+    : [];
+
+  // Distinct group names in the file and whether each matches a known group
+  const groupNames =
+    mapping?.groups != null
+      ? [...new Set(toImportRows(dataRows, mapping).flatMap((row) => row.groups))]
+      : [];
+  const isKnownGroup = (name: string) =>
+    groups.some((group) => group.groupName.toLowerCase() === name.toLowerCase());
+
+  const runImport = (dryRun: boolean) => {
+    if (!mapping) return;
+    importMutation.mutate(
+      { rows: toImportRows(dataRows, mapping), dryRun },
+      {
+        onSuccess: (response) => {
+          if (!response.data) return;
+          if (dryRun) {
+            setReport(response.data);
+            setActiveStep(2);
+          } else {
+            onImported(response.data);
+          }
+        },
+      }
+    );
+  };
+
+  const validCount = report ? report.rows.filter((row) => row.valid).length : 0;
+  const invalidRows = report ? report.rows.filter((row) => !row.valid) : [];
+  const rowFields = (rowNumber: number) => dataRows[rowNumber - 2] ?? [];
+  const isSubmitting = importMutation.isPending;
+
+  return (
+    <Dialog
+      open={open}
+      onClose={isSubmitting ? undefined : onClose}
+      aria-labelledby="import-users-dialog-title"
+      fullWidth
+      maxWidth="md"
+    >
+      <DialogTitle id="import-users-dialog-title">Import Users</DialogTitle>
+      <DialogContent>
+        <Stepper activeStep={activeStep} sx={{ mb: 3, mt: 1 }}>
+          {steps.map((label) => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {importMutation.error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {importMutation.error.message}
+          </Alert>
+        )}
+
+        {/* Step 1: upload */}
+        {activeStep === 0 && (
+          <Stack spacing={2} alignItems="flex-start">
+            <Typography variant="body2" color="text.secondary">
+              Upload a CSV file with a header row. Columns for name, email and groups are
+              required; status is optional and defaults to active. List several groups in one
+              cell separated by commas or semicolons.
+            </Typography>
+            {fileError && <Alert severity="error">{fileError}</Alert>}
+            <Button component="label" variant="outlined" startIcon={<UploadFileIcon />}>
+              Choose CSV File
+              <input type="file" accept=".csv,text/csv" hidden onChange={handleFileChange} />
+            </Button>
+          </Stack>
+        )}
+
+        {/* Step 2: column mapping */}
+        {activeStep === 1 && mapping && (
+          <Stack spacing={2}>
+            <Typography variant="body2" color="text.secondary">
+              {fileName}: {dataRows.length} rows. Choose which column holds each field.
+            </Typography>
+            <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: 2 }}>
+              {importFields.map(({ field, label, required }) => (
+                <FormControl key={field} size="small" required={required}>
+                  <InputLabel id={`import-map-${field}-label`}>{label}</InputLabel>
+                  <Select
+                    labelId={`import-map-${field}-label`}
+                    value={mapping[field] ?? ''}
+                    label={label}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      setMapping({ ...mapping, [field]: value === '' ? null : Number(value) });
+                    }}
+                  >
+                    <MenuItem value="">
+                      <em>Not mapped</em>
+                    </MenuItem>
+                    {headers.map((header, index) => (
+                      <MenuItem key={index} value={index}>
+                        {header || `Column ${index + 1}`}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              ))}
+            </Box>
+            {missingFields.length > 0 && (
+              <Alert severity="warning">
+                Map a column for: {missingFields.map(({ label }) => label).join(', ')}
+              </Alert>
+            )}
+            {groupNames.length > 0 && (
+              <Box>
+                <Typography variant="subtitle2" gutterBottom>
+                  Groups in this file
+                </Typography>
+                <Stack direction="row" spacing={0.5} useFlexGap flexWrap="wrap">
+                  {groupNames.map((name) => (
+                    <Chip
+                      key={name}
+                      label={isKnownGroup(name) ? name : `${name} (unknown)`}
+                      color={isKnownGroup(name) ? 'success' : 'warning'}
+                      size="small"
+                      variant="outlined"
+                    />
+                  ))}
+                </Stack>
+              </Box>
+            )}
+          </Stack>
+        )}
+
+        {/* Step 3: dry-run report */}
+        {activeStep === 2 && report && (
+          <Stack spacing={2}>
+            <Alert severity={invalidRows.length > 0 ? 'warning' : 'success'}>
+              {validCount} of {report.rows.length} rows are ready to import.
+              {invalidRows.length > 0 && ` ${invalidRows.length} rows have errors and will be skipped.`}
+            </Alert>
+            {invalidRows.length > 0 && (
+              <Box sx={{ maxHeight: 320, overflow: 'auto' }}>
+                <Table size="small" stickyHeader>
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Row</TableCell>
+                      <TableCell>Email</TableCell>
+                      <TableCell>Errors</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {invalidRows.map((row) => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell>{row.rowNumber}</TableCell>
+                        <TableCell>
+                          {mapping?.email != null ? rowFields(row.rowNumber)[mapping.email] : ''}
+                        </TableCell>
+                        <TableCell>{row.errors.join('; ')}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Box>
+            )}
+          </Stack>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} color="inherit" disabled={isSubmitting}>
+          Cancel
+        </Button>
+        {activeStep > 0 && (
+          <Button onClick={() => setActiveStep(activeStep - 1)} disabled={isSubmitting}>
+            Back
+          </Button>
+        )}
+        {activeStep === 1 && (
+          <Button
+            variant="contained"
+            onClick={() => runImport(true)}
+            disabled={isSubmitting || missingFields.length > 0}
+            startIcon={isSubmitting ? <CircularProgress size={16} color="inherit" /> : undefined}
+          >
+            Validate
+          </Button>
+        )}
+        {activeStep === 2 && (
+          <Button
+            variant="contained"
+            onClick={() => runImport(false)}
+            disabled={isSubmitting || validCount === 0}
+            startIcon={isSubmitting ? <CircularProgress size={16} color="inherit" /> : undefined}
+          >
+            Import {validCount} Users
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
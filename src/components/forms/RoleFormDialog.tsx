@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  TextField,
+} from '@mui/material';
+import type { Role, RoleInput } from '@/types';
+
+interface RoleFormDialogProps {
+  open: boolean;
+  role?: Role | null; // Rename mode when provided
+  onClose: () => void;
+  onSubmit: (input: RoleInput) => void;
+  isSubmitting?: boolean;
+  submitError?: string | null;
+}
+
+/**
+ * RoleFormDialog Component
+ *
+ * Create or rename a role. Name uniqueness is checked by the server.
+ */
+export const RoleFormDialog: React.FC<RoleFormDialogProps> = ({
+  open,
+  role,
+  onClose,
+  onSubmit,
+  isSubmitting = false,
+  submitError,
+}) => {
+  const isEdit = !!role;
+  const [roleName, setRoleName] = useState(role?.roleName ?? '');
+  const [nameError, setNameError] = useState<string | null>(null);
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setRoleName(role?.roleName ?? '');
+      setNameError(null);
+    }
+  }, [open, role]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!roleName.trim()) {
+      setNameError('Role name is required');
+      return;
+    }
+    onSubmit({ roleName: roleName.trim() });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={isSubmitting ? undefined : onClose}
+      aria-labelledby="role-form-dialog-title"
+      fullWidth
+      maxWidth="xs"
+    >
+      <form onSubmit={handleSubmit} noValidate>
+        <DialogTitle id="role-form-dialog-title">
+          {isEdit ? `Rename ${role.roleName}` : 'Add Role'}
+        </DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            {submitError && <Alert severity="error">{submitError}</Alert>}
+            <TextField
+              label="Role Name"
+              value={roleName}
+              onChange={(e) => {
+                setRoleName(e.target.value);
+                setNameError(null);
+              }}
+              error={!!nameError}
+              helperText={nameError}
+              required
+              autoFocus
+              fullWidth
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose} color="inherit" disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={isSubmitting}
+            startIcon={isSubmitting ? <CircularProgress size={16} color="inherit" /> : undefined}
+          >
+            {isEdit ? 'Rename' : 'Create Role'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
@@ -0,0 +1,212 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Checkbox,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  FormHelperText,
+  InputLabel,
+  ListItemText,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+} from '@mui/material';
+import type { Group, User, UserInput } from '@/types';
+
+interface UserFormDialogProps {
+  open: boolean;
+  user?: User | null; // Edit mode when provided
+  groups: Group[];
+  onClose: () => void;
+  onSubmit: (input: UserInput) => void;
+  isSubmitting?: boolean;
+  submitError?: string | null;
+  submitFieldErrors?: Record<string, string>; // Server-side errors keyed by field
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const emptyInput: UserInput = {
+  name: '',
+  email: '',
+  status: 'active',
+  groupIds: [],
+};
+
+const toInput = (user?: User | null): UserInput =>
+  user
+    ? {
+        name: user.name,
+        email: user.email,
+        status: user.status,
+        groupIds: user.groups.map((group) => group.groupId),
+      }
+    : emptyInput;
+
+/**
+ * Client-side validation mirroring the server rules
+ * (uniqueness can only be checked by the server)
+ */
+const validate = (input: UserInput): Partial<Record<keyof UserInput, string>> => {
+  const errors: Partial<Record<keyof UserInput, string>> = {};
+  if (!input.name.trim()) errors.name = 'Name is required';
+  if (!input.email.trim()) errors.email = 'Email is required';
+  else if (!EMAIL_PATTERN.test(input.email.trim())) errors.email = 'Email format is invalid';
+  if (input.groupIds.length === 0) errors.groupIds = 'Select at least one group';
+  return errors;
+};
+
+/**
+ * UserFormDialog Component
+ *
+ * Create/edit form for a user. Validates on submit and shows the
+ * server's error message (and field errors) when the request is rejected.
+ */
+export const UserFormDialog: React.FC<UserFormDialogProps> = ({
+  open,
+  user,
+  groups,
+  onClose,
+  onSubmit,
+  isSubmitting = false,
+  submitError,
+  submitFieldErrors,
+}) => {
+  const isEdit = !!user;
+  const [values, setValues] = useState<UserInput>(() => toInput(user));
+  const [errors, setErrors] = useState<Partial<Record<keyof UserInput, string>>>({});
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setValues(toInput(user));
+      setErrors({});
+    }
+  }, [open, user]);
+
+  // Show the server's field errors next to the fields they belong to
+  useEffect(() => {
+    if (submitFieldErrors) {
+      setErrors((prev) => ({ ...prev, ...submitFieldErrors }));
+    }
+  }, [submitFieldErrors]);
+
+  const handleChange = <K extends keyof UserInput>(field: K, value: UserInput[K]) => {
+    setValues((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const validationErrors = validate(values);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length === 0) {
+      onSubmit({ ...values, name: values.name.trim(), email: values.email.trim() });
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={isSubmitting ? undefined : onClose}
+      aria-labelledby="user-form-dialog-title"
+      fullWidth
+      maxWidth="sm"
+    >
+      <form onSubmit={handleSubmit} noValidate>
+        <DialogTitle id="user-form-dialog-title">
+          {isEdit ? `Edit ${user.name}` : 'Add User'}
+        </DialogTitle>
+        <DialogContent>
+          <Stack spacing={2} sx={{ mt: 1 }}>
+            {submitError && <Alert severity="error">{submitError}</Alert>}
+
+            <TextField
+              label="Name"
+              value={values.name}
+              onChange={(e) => handleChange('name', e.target.value)}
+              error={!!errors.name}
+              helperText={errors.name}
+              required
+              autoFocus
+              fullWidth
+            />
+
+            <TextField
+              label="Email"
+              type="email"
+              value={values.email}
+              onChange={(e) => handleChange('email', e.target.value)}
+              error={!!errors.email}
+              helperText={errors.email}
+              required
+              fullWidth
+            />
+
+            <FormControl fullWidth>
+              <InputLabel id="user-form-status-label">Status</InputLabel>
+              <Select
+                labelId="user-form-status-label"
+                value={values.status}
+                label="Status"
+                onChange={(e) => handleChange('status', e.target.value as 'active' | 'inactive')}
+              >
+                <MenuItem value="active">Active</MenuItem>
+                <MenuItem value="inactive">Inactive</MenuItem>
+              </Select>
+            </FormControl>
+
+            <FormControl fullWidth error={!!errors.groupIds} required>
+              <InputLabel id="user-form-groups-label">Groups</InputLabel>
+              <Select<string[]>
+                labelId="user-form-groups-label"
+                multiple
+                value={values.groupIds}
+                label="Groups"
+                onChange={(e) => {
+                  const value = e.target.value;
+                  handleChange('groupIds', typeof value === 'string' ? value.split(',') : value);
+                }}
+                renderValue={(selected) =>
+                  selected
+                    .map((groupId) => groups.find((g) => g.groupId === groupId)?.groupName ?? groupId)
+                    .join(', ')
+                }
+              >
+                {groups.map((group) => (
+                  <MenuItem key={group.groupId} value={group.groupId}>
+                    <Checkbox checked={values.groupIds.includes(group.groupId)} size="small" />
+                    <ListItemText
+                      primary={group.groupName}
+                      secondary={group.roles.map((role) => role.roleName).join(', ')}
+                    />
+                  </MenuItem>
+                ))}
+              </Select>
+              {errors.groupIds && <FormHelperText>{errors.groupIds}</FormHelperText>}
+            </FormControl>
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose} color="inherit" disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={isSubmitting}
+            startIcon={isSubmitting ? <CircularProgress size={16} color="inherit" /> : undefined}
+          >
+            {isEdit ? 'Save Changes' : 'Create User'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
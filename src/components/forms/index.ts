@@ -0,0 +1,5 @@
+export { UserFormDialog } from './UserFormDialog';
+export { GroupFormDialog } from './GroupFormDialog';
+export { RoleFormDialog } from './RoleFormDialog';
+export { DeleteGroupDialog } from './DeleteGroupDialog';
+export { ImportUsersDialog } from './ImportUsersDialog';
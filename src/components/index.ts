@@ -1,2 +1,27 @@
-export { DynamicGrid, UserActions } from './tables';
+export {
+  DynamicGrid,
+  PAGE_SIZE_OPTIONS,
+  BulkActionsToolbar,
+  ExportButton,
+  SavedViewsMenu,
+  StatusOutboxPanel,
+  registerColumnType,
+  isColumnTypeRegistered,
+  getColumnTypeDefinition,
+  renderCell,
+  compareCellValues,
+  sortRows,
+  chipIcons,
+} from './tables';
+export type {
+  ColumnTypeDefinition,
+  InfiniteScrollOptions,
+  RowAction,
+  RowActionConfirmation,
+} from './tables';
 export { ErrorBoundary, ErrorAlert, NetworkError, OfflineBanner, OfflinePage } from './ErrorBoundary';
+export type { OfflineReason } from './ErrorBoundary';
+export { UserFormDialog, GroupFormDialog, RoleFormDialog, DeleteGroupDialog, ImportUsersDialog } from './forms';
+export { CurrentUserProvider } from './CurrentUserProvider';
+export { RequireAuth } from './RequireAuth';
+export { ContractViolationsOverlay } from './ContractViolationsOverlay';
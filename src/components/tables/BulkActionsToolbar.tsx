@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Toolbar,
+  Typography,
+} from '@mui/material';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import CancelIcon from '@mui/icons-material/Cancel';
+import GroupAddIcon from '@mui/icons-material/GroupAdd';
+import GroupRemoveIcon from '@mui/icons-material/GroupRemove';
+import type { BulkUserUpdate, Group, User } from '@/types';
+
+interface BulkActionsToolbarProps {
+  selectedUsers: User[];
+  groups: Group[];
+  onConfirm: (update: BulkUserUpdate) => void;
+  onClearSelection: () => void;
+  isUpdating?: boolean;
+}
+
+// A bulk action waiting for confirmation
+interface PendingAction {
+  title: string;
+  description: string;
+  confirmLabel: string;
+  color: 'error' | 'primary' | 'success';
+  update: BulkUserUpdate;
+}
+
+/**
+ * BulkActionsToolbar Component
+ *
+ * Shown above the grid while rows are selected. Every action goes
+ * through a single confirmation dialog listing the affected users.
+ */
+export const BulkActionsToolbar: React.FC<BulkActionsToolbarProps> = ({
+  selectedUsers,
+  groups,
+  onConfirm,
+  onClearSelection,
+  isUpdating = false,
+}) => {
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [groupMenu, setGroupMenu] = useState<{
+    anchorEl: HTMLElement;
+    mode: 'add' | 'remove';
+  } | null>(null);
+
+  const userIds = selectedUsers.map((user) => user.userId);
+  const count = selectedUsers.length;
+
+  const handleGroupSelect = (group: Group) => {
+    if (!groupMenu) return;
+    const isAdd = groupMenu.mode === 'add';
+    setGroupMenu(null);
+    setPendingAction({
+      title: isAdd ? `Add ${count} users to group?` : `Remove ${count} users from group?`,
+      description: isAdd
+        ? `The following users will be added to "${group.groupName}":`
+        : `The following users will be removed from "${group.groupName}":`,
+      confirmLabel: isAdd ? 'Add to Group' : 'Remove from Group',
+      color: isAdd ? 'primary' : 'error',
+      update: isAdd
+        ? { userIds, addGroupId: group.groupId }
+        : { userIds, removeGroupId: group.groupId },
+    });
+  };
+
+  const handleConfirm = () => {
+    if (pendingAction) {
+      onConfirm(pendingAction.update);
+    }
+    setPendingAction(null);
+  };
+
+  if (count === 0) return null;
+
+  return (
+    <>
+      <Toolbar
+        variant="dense"
+        sx={{
+          gap: 1,
+          flexWrap: 'wrap',
+          bgcolor: 'action.selected',
+          borderTopLeftRadius: 4,
+          borderTopRightRadius: 4,
+        }}
+        aria-label="Bulk actions"
+      >
+        <Typography variant="subtitle2" sx={{ mr: 1 }}>
+          {count} selected
+        </Typography>
+        <Button
+          size="small"
+          color="success"
+          startIcon={<CheckCircleIcon />}
+          disabled={isUpdating}
+          onClick={() =>
+            setPendingAction({
+              title: `Activate ${count} users?`,
+              description: 'The following users will regain access to the system:',
+              confirmLabel: 'Activate',
+              color: 'success',
+              update: { userIds, status: 'active' },
+            })
+          }
+        >
+          Activate
+        </Button>
+        <Button
+          size="small"
+          color="error"
+          startIcon={<CancelIcon />}
+          disabled={isUpdating}
+          onClick={() =>
+            setPendingAction({
+              title: `Deactivate ${count} users?`,
+              description: 'The following users will no longer have access to the system:',
+              confirmLabel: 'Deactivate',
+              color: 'error',
+              update: { userIds, status: 'inactive' },
+            })
+          }
+        >
+          Deactivate
+        </Button>
+        <Button
+          size="small"
+          startIcon={<GroupAddIcon />}
+          disabled={isUpdating || groups.length === 0}
+          onClick={(e) => setGroupMenu({ anchorEl: e.currentTarget, mode: 'add' })}
+        >
+          Add to Group
+        </Button>
+        <Button
+          size="small"
+          startIcon={<GroupRemoveIcon />}
+          disabled={isUpdating || groups.length === 0}
+          onClick={(e) => setGroupMenu({ anchorEl: e.currentTarget, mode: 'remove' })}
+        >
+          Remove from Group
+        </Button>
+        <Box sx={{ ml: 'auto', display: 'flex', alignItems: 'center', gap: 1 }}>
+          {isUpdating && <CircularProgress size={20} aria-label="Updating users" />}
+          <Button size="small" color="inherit" onClick={onClearSelection} disabled={isUpdating}>
+            Clear Selection
+          </Button>
+        </Box>
+      </Toolbar>
+
+      {/* Group picker for add/remove */}
+      <Menu
+        anchorEl={groupMenu?.anchorEl}
+        open={!!groupMenu}
+        onClose={() => setGroupMenu(null)}
+      >
+        {groups.map((group) => (
+          <MenuItem key={group.groupId} onClick={() => handleGroupSelect(group)}>
+            {group.groupName}
+          </MenuItem>
+        ))}
+      </Menu>
+
+      {/* Single confirmation for the whole selection */}
+      <Dialog
+        open={!!pendingAction}
+        onClose={() => setPendingAction(null)}
+        aria-labelledby="bulk-action-dialog-title"
+        aria-describedby="bulk-action-dialog-description"
+        fullWidth
+        maxWidth="sm"
+      >
+        <DialogTitle id="bulk-action-dialog-title">{pendingAction?.title}</DialogTitle>
+        <DialogContent>
+          <DialogContentText id="bulk-action-dialog-description">
+            {pendingAction?.description}
+          </DialogContentText>
+          <List dense sx={{ maxHeight: 300, overflow: 'auto' }}>
+            {selectedUsers.map((user) => (
+              <ListItem key={user.userId} disableGutters>
+                <ListItemText primary={user.name} secondary={user.email} />
+              </ListItem>
+            ))}
+          </List>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setPendingAction(null)} color="inherit" autoFocus>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            color={pendingAction?.color ?? 'primary'}
+            variant="contained"
+          >
+            {pendingAction?.confirmLabel}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
@@ -1,6 +1,10 @@
 // Imports removed as they are not used in this test file
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
+import { render, renderHook, screen } from '@testing-library/react';
 import type { ColumnMetadata, Group } from '@/types';
+import { useTablePreferences } from '@/hooks';
+import { getColumnValue, userColumnMetadata } from '@/utils';
+import { DynamicGrid } from './DynamicGrid';
 
 // Test the renderCellByType function by extracting its logic
 // Since renderCellByType is not exported, we test through the component
@@ -144,11 +148,75 @@ describe('DynamicGrid Column Rendering', () => {
     });
 
     it('should allow hiding columns except name', () => {
-      const canHide = (key: string) => key !== 'name';
+      const canHide = (key: string) =>
+        userColumnMetadata.find((col) => col.key === key)?.hideable ?? true;
 
       expect(canHide('name')).toBe(false);
       expect(canHide('email')).toBe(true);
       expect(canHide('status')).toBe(true);
     });
+
+    it('should use the parent\'s preferences instead of loading its own', () => {
+      const columns: ColumnMetadata<{ id: string; name: string }>[] = [
+        { key: 'name', header: 'Name', type: 'string' },
+      ];
+      const { result } = renderHook(() => useTablePreferences('shared-table', columns));
+      const getItem = vi.spyOn(Storage.prototype, 'getItem');
+
+      render(
+        <DynamicGrid
+          data={[{ id: '1', name: 'Ada' }]}
+          columns={columns}
+          totalCount={1}
+          getRowId={(row) => row.id}
+          tablePreferences={result.current}
+          tableId="grid-table"
+        />
+      );
+
+      expect(screen.getByText('Ada')).toBeInTheDocument();
+      expect(getItem).not.toHaveBeenCalledWith('table-preferences-grid-table');
+      getItem.mockRestore();
+    });
+  });
+
+  describe('Typed Column Keys', () => {
+    interface Order {
+      orderId: string;
+      total: number;
+      customer: { name: string; address: { city: string } };
+      tags: string[];
+    }
+
+    it('should accept row fields and dotted paths into nested objects', () => {
+      const columns: ColumnMetadata<Order>[] = [
+        { key: 'orderId', header: 'Order', type: 'string' },
+        { key: 'customer.address.city', header: 'City', type: 'string' },
+        { key: 'tags', header: 'Tags', type: 'chiplist' },
+      ];
+      const order: Order = {
+        orderId: 'o-1',
+        total: 10,
+        customer: { name: 'Ada', address: { city: 'London' } },
+        tags: ['new'],
+      };
+
+      expect(columns.map((col) => getColumnValue(order, col.key))).toEqual([
+        'o-1',
+        'London',
+        ['new'],
+      ]);
+    });
+
+    it('should reject keys that are not on the row type', () => {
+      const columns: ColumnMetadata<Order>[] = [
+        // @ts-expect-error - not a field of Order
+        { key: 'customerName', header: 'Customer', type: 'string' },
+        // @ts-expect-error - arrays are leaves, not paths
+        { key: 'tags.length', header: 'Tag Count', type: 'number' },
+      ];
+      expect(getColumnValue({ customer: null }, 'customer.name')).toBeUndefined();
+      expect(columns).toHaveLength(2);
+    });
   });
 });
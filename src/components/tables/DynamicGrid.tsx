@@ -1,149 +1,104 @@
-import { useMemo } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   MaterialReactTable,
   useMaterialReactTable,
   type MRT_ColumnDef,
+  type MRT_ColumnFiltersState,
   type MRT_PaginationState,
+  type MRT_RowSelectionState,
   type MRT_SortingState,
   type MRT_VisibilityState,
   type MRT_DensityState,
+  type MRT_ColumnOrderState,
+  type MRT_ColumnSizingState,
+  type MRT_ColumnPinningState,
 } from 'material-react-table';
-import { Chip, Box, Skeleton, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper, Tooltip } from '@mui/material';
-import AdminPanelSettingsIcon from '@mui/icons-material/AdminPanelSettings';
-import SupervisorAccountIcon from '@mui/icons-material/SupervisorAccount';
-import VisibilityIcon from '@mui/icons-material/Visibility';
-import CreateIcon from '@mui/icons-material/Create';
-import PersonIcon from '@mui/icons-material/Person';
-import type { ColumnMetadata, User, Group } from '@/types';
-import { formatDate } from '@/utils';
-import { useTablePreferences } from '@/hooks';
-
-interface DynamicGridProps {
-  data: User[];
-  columns: ColumnMetadata[];
+import { Alert, Button, Skeleton, Typography, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper } from '@mui/material';
+import RestartAltIcon from '@mui/icons-material/RestartAlt';
+import type { ColumnMetadata } from '@/types';
+import { useTablePreferences, type TablePreferencesState } from '@/hooks';
+import {
+  getColumnValue,
+  mergeColumnVisibility,
+  mergeColumnOrder,
+  mergeColumnPinning,
+  mergeColumnSizing,
+} from '@/utils';
+import {
+  renderCell,
+  renderCellSkeleton,
+  compareCellValues,
+  getColumnFilterVariant,
+} from './columnTypes';
+import {
+  RowActionButtons,
+  RowActionMenu,
+  RowActionConfirmDialog,
+  type PendingRowAction,
+  type RowAction,
+} from './RowActions';
+
+// Width of the actions column per visible button, plus room for a row marker
+const ACTION_BUTTON_WIDTH = 40;
+const ROW_MARKER_WIDTH = 32;
+
+// Infinite mode loads the next page within this many pixels of the bottom
+const LOAD_MORE_THRESHOLD = 400;
+
+// Rows per page offered by the pagination controls
+export const PAGE_SIZE_OPTIONS = [5, 10, 15, 20, 25, 30, 50, 100];
+
+// MRT's own columns, kept around the data columns and out of saved preferences
+const SELECT_COLUMN_ID = 'mrt-row-select';
+const ACTIONS_COLUMN_ID = 'mrt-row-actions';
+const isDataColumnId = (id: string) => id !== SELECT_COLUMN_ID && id !== ACTIONS_COLUMN_ID;
+
+type Updater<S> = S | ((old: S) => S);
+const resolveUpdater = <S,>(updater: Updater<S>, old: S): S =>
+  updater instanceof Function ? updater(old) : updater;
+
+// Infinite mode: rows are virtualized and the next page loads on scroll
+export interface InfiniteScrollOptions {
+  hasNextPage: boolean;
+  isFetchingNextPage: boolean;
+  onLoadMore: () => void;
+}
+
+interface DynamicGridProps<T extends object> {
+  data: T[];
+  columns: ColumnMetadata<T>[];
   isLoading?: boolean;
   isFetching?: boolean;
   totalCount: number;
-  pagination: MRT_PaginationState;
-  onPaginationChange: (pagination: MRT_PaginationState) => void;
-  onRowAction?: (user: User, action: string) => void;
+  pagination?: MRT_PaginationState; // Paged mode
+  onPaginationChange?: (pagination: MRT_PaginationState) => void;
+  infiniteScroll?: InfiniteScrollOptions; // Replaces pagination with infinite scrolling
+  sorting?: MRT_SortingState; // When provided, sorting is done server-side
+  onSortingChange?: (sorting: MRT_SortingState) => void;
+  tablePreferences?: TablePreferencesState; // Parent-owned preferences (e.g. for saved views)
+  columnFilters?: MRT_ColumnFiltersState; // When provided, filtering is done server-side
+  onColumnFiltersChange?: (columnFilters: MRT_ColumnFiltersState) => void;
+  rowSelection?: MRT_RowSelectionState; // Keyed by getRowId so it survives page changes
+  onRowSelectionChange?: (rowSelection: MRT_RowSelectionState) => void;
+  getRowId: (row: T) => string; // Stable row ID (keys selection and React rows)
+  rowActions?: RowAction<T>[]; // Rendered as a pinned-right actions column
+  enableRowContextMenu?: boolean; // Also offer rowActions on right-click
+  isRowPending?: (row: T) => boolean; // Shows a spinner in place of the row's actions
+  getRowMarker?: (row: T) => React.ReactNode; // Small indicator shown before the row's actions
+  onRowClick?: (row: T) => void;
   tableId?: string; // Unique ID for persisting preferences
 }
 
-/**
- * Renders cell content based on column type
- *
- * BUG: The 'chiplist' type for groups is not rendering correctly.
- * It should display group names as chips, but something is wrong.
- * TODO: Fix the chiplist renderer to properly display groups.
- */
-const renderCellByType = (
-  value: unknown,
-  columnMeta: ColumnMetadata
-): React.ReactNode => {
-  switch (columnMeta.type) {
-    case 'string':
-      return value as string;
-
-    case 'badge':
-      const status = value as 'active' | 'inactive';
-      return (
-        <Chip
-          label={status}
-          size="small"
-          color={status === 'active' ? 'success' : 'default'}
-          sx={{ textTransform: 'capitalize' }}
-        />
-      );
-
-    case 'date':
-      return formatDate(value as string, columnMeta.format);
-
-    case 'chiplist':
-      const groups = value as Group[];
-      if (!groups || groups.length === 0) {
-        return <span style={{ color: '#999' }}>No groups</span>;
-      }
-
-      // Check for special groups and assign colors
-      const getGroupColor = (groupName: string): 'error' | 'warning' | 'info' | 'secondary' | 'success' | 'default' => {
-        const name = groupName.toLowerCase();
-        if (name.includes('admin')) return 'error';        // Red
-        if (name.includes('management')) return 'warning'; // Orange
-        if (name.includes('content')) return 'info';       // Blue
-        if (name.includes('standard')) return 'secondary'; // Purple
-        if (name.includes('read only')) return 'success';  // Green for Read Only
-        return 'default';
-      };
-
-      // Get icon for special groups
-      const getGroupIcon = (groupName: string) => {
-        const name = groupName.toLowerCase();
-        if (name.includes('admin')) {
-          return <AdminPanelSettingsIcon sx={{ fontSize: 16, mr: 0.5 }} />;
-        }
-        if (name.includes('management')) {
-          return <SupervisorAccountIcon sx={{ fontSize: 16, mr: 0.5 }} />;
-        }
-        if (name.includes('read only')) {
-          return <VisibilityIcon sx={{ fontSize: 16, mr: 0.5 }} />;
-        }
-        if (name.includes('content')) {
-          return <CreateIcon sx={{ fontSize: 16, mr: 0.5 }} />;
-        }
-        if (name.includes('standard')) {
-          return <PersonIcon sx={{ fontSize: 16, mr: 0.5 }} />;
-        }
-        return null;
-      };
-
-      return (
-        <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
-          {groups.map((group) => {
-            const color = getGroupColor(group.groupName);
-            const icon = getGroupIcon(group.groupName);
-            const isSpecial = color !== 'default'; // All colored chips are special
-
-            return (
-              <Tooltip
-                key={group.groupId}
-                title={group.roles?.length > 0
-                  ? `Roles: ${group.roles.map(r => r.roleName).join(', ')}`
-                  : 'No specific roles'
-                }
-                arrow
-              >
-                <Chip
-                  icon={icon || undefined}
-                  label={group.groupName}
-                  size="small"
-                  color={color}
-                  variant={isSpecial ? 'filled' : 'outlined'}
-                  sx={{
-                    fontWeight: isSpecial ? 600 : 400,
-                    '& .MuiChip-icon': {
-                      color: 'inherit',
-                    },
-                  }}
-                />
-              </Tooltip>
-            );
-          })}
-        </Box>
-      );
-
-    default:
-      return String(value);
-  }
-};
-
 /**
  * Loading Skeleton Component
  * Shows placeholder rows while data is loading
  */
-const TableSkeleton: React.FC<{ columns: ColumnMetadata[]; rowCount?: number }> = ({
+const TableSkeleton = <T extends object>({
   columns,
   rowCount = 5
+}: {
+  columns: ColumnMetadata<T>[];
+  rowCount?: number;
 }) => {
   return (
     <TableContainer component={Paper}>
@@ -162,14 +117,7 @@ const TableSkeleton: React.FC<{ columns: ColumnMetadata[]; rowCount?: number }>
             <TableRow key={rowIndex}>
               {columns.map((col) => (
                 <TableCell key={col.key}>
-                  {col.type === 'badge' ? (
-                    <Skeleton variant="rounded" width={70} height={24} />
-                  ) : col.type === 'chiplist' ? (
-                    <Box sx={{ display: 'flex', gap: 0.5 }}>
-                      <Skeleton variant="rounded" width={60} height={24} />
-                      <Skeleton variant="rounded" width={80} height={24} />
-                    </Box>
-                  ) : (
+                  {renderCellSkeleton(col) ?? (
                     <Skeleton variant="text" width={col.width ? col.width * 0.7 : 100} />
                   )}
                 </TableCell>
@@ -182,20 +130,8 @@ const TableSkeleton: React.FC<{ columns: ColumnMetadata[]; rowCount?: number }>
   );
 };
 
-/**
- * DynamicGrid Component
- *
- * A metadata-driven data grid using Material React Table.
- * Columns are generated dynamically based on the provided metadata.
- *
- * Features:
- * - Dynamic column generation from metadata
- * - Custom cell renderers for different data types
- * - Server-side pagination
- * - Sorting support
- * - Loading skeleton for better UX
- */
-export const DynamicGrid: React.FC<DynamicGridProps> = ({
+// The grid itself, given the preferences it reads and saves
+const Grid = <T extends object>({
   data,
   columns,
   isLoading = false,
@@ -203,52 +139,186 @@ export const DynamicGrid: React.FC<DynamicGridProps> = ({
   totalCount,
   pagination,
   onPaginationChange,
-  tableId = 'default-table',
-}) => {
-  // Load persisted preferences from localStorage
+  infiniteScroll,
+  sorting,
+  onSortingChange,
+  tablePreferences,
+  columnFilters,
+  onColumnFiltersChange,
+  rowSelection,
+  onRowSelectionChange,
+  getRowId,
+  rowActions,
+  enableRowContextMenu = false,
+  isRowPending,
+  getRowMarker,
+  onRowClick,
+}: Omit<DynamicGridProps<T>, 'tableId'> & { tablePreferences: TablePreferencesState }) => {
   // IMPORTANT: All hooks must be called before any conditional returns
   const {
     preferences,
     updateColumnVisibility,
     updateSorting,
     updateDensity,
-  } = useTablePreferences(tableId);
+    updateColumnOrder,
+    updateColumnSizing,
+    updateColumnPinning,
+    resetPreferences,
+    storageError,
+  } = tablePreferences;
+  const [isStorageErrorDismissed, setIsStorageErrorDismissed] = useState(false);
+
+  // Row action awaiting confirmation, and the open row context menu
+  const [pendingAction, setPendingAction] = useState<PendingRowAction<T> | null>(null);
+  const [contextMenu, setContextMenu] = useState<{ row: T; top: number; left: number } | null>(
+    null
+  );
+
+  // Infinite mode: load the next page when scrolled near the bottom
+  const tableContainerRef = useRef<HTMLDivElement>(null);
+  const isInfinite = infiniteScroll !== undefined;
+  const { hasNextPage = false, isFetchingNextPage = false, onLoadMore } = infiniteScroll ?? {};
+  const loadMoreIfNearBottom = useCallback(
+    (container: HTMLDivElement | null) => {
+      if (!container || !onLoadMore || !hasNextPage || isFetchingNextPage) return;
+      const { scrollHeight, scrollTop, clientHeight } = container;
+      if (scrollHeight - scrollTop - clientHeight < LOAD_MORE_THRESHOLD) onLoadMore();
+    },
+    [onLoadMore, hasNextPage, isFetchingNextPage]
+  );
+
+  // Pages that don't fill the container can't be scrolled, so check after each load
+  useEffect(() => {
+    loadMoreIfNearBottom(tableContainerRef.current);
+  }, [loadMoreIfNearBottom, data.length]);
 
   // Generate MRT columns from metadata
   // Must be called before conditional return to maintain hook order
-  const tableColumns = useMemo<MRT_ColumnDef<User>[]>(() => {
+  const tableColumns = useMemo<MRT_ColumnDef<T>[]>(() => {
     return columns.map((colMeta) => ({
-      accessorKey: colMeta.key,
+      id: colMeta.key, // Keeps dotted keys as-is for preferences and server sorting
+      accessorFn: (row) => getColumnValue(row, colMeta.key),
       header: colMeta.header,
       size: colMeta.width,
       enableSorting: colMeta.sorting ?? false,
-      enablePinning: !!colMeta.pinned,
-      enableHiding: colMeta.key !== 'name', // Name column can't be hidden
-      Cell: ({ cell }) => {
-        const value = cell.getValue();
-        return renderCellByType(value, colMeta);
-      },
+      enableHiding: colMeta.hideable ?? true,
+      enableColumnFilter: colMeta.filterable ?? false,
+      filterVariant: getColumnFilterVariant(colMeta),
+      filterSelectOptions: colMeta.filterOptions,
+      sortingFn: (rowA, rowB, columnId) =>
+        compareCellValues(rowA.getValue(columnId), rowB.getValue(columnId), colMeta),
+      Cell: ({ cell, row }) => renderCell(cell.getValue(), colMeta, row.original),
     }));
   }, [columns]);
 
+  // Saved layout applied to the current columns; metadata supplies the
+  // defaults and columns added since the preferences were saved
+  const columnVisibility = useMemo(
+    () => mergeColumnVisibility(columns, preferences.columnVisibility),
+    [columns, preferences.columnVisibility]
+  );
+  const density = preferences.density as MRT_DensityState;
+  const hasRowSelection = rowSelection !== undefined;
+  const hasRowActions = !!rowActions && rowActions.length > 0;
+
+  const columnOrder = useMemo<MRT_ColumnOrderState>(
+    () => [
+      ...(hasRowSelection ? [SELECT_COLUMN_ID] : []),
+      ...mergeColumnOrder(columns, preferences.columnOrder),
+      ...(hasRowActions ? [ACTIONS_COLUMN_ID] : []),
+    ],
+    [columns, preferences.columnOrder, hasRowSelection, hasRowActions]
+  );
+  const columnSizing = useMemo(
+    () => mergeColumnSizing(columns, preferences.columnSizing),
+    [columns, preferences.columnSizing]
+  );
+  const columnPinning = useMemo<MRT_ColumnPinningState>(() => {
+    const { left, right } = mergeColumnPinning(columns, preferences.columnPinning);
+    return {
+      // The selection checkbox stays first when columns are pinned left
+      left: hasRowSelection && left.length > 0 ? [SELECT_COLUMN_ID, ...left] : left,
+      right: hasRowActions ? [...right, ACTIONS_COLUMN_ID] : right,
+    };
+  }, [columns, preferences.columnPinning, hasRowSelection, hasRowActions]);
+
   // Handle column visibility change and persist
-  const handleColumnVisibilityChange = (
-    updater: MRT_VisibilityState | ((old: MRT_VisibilityState) => MRT_VisibilityState)
-  ) => {
-    const newVisibility = typeof updater === 'function'
-      ? updater(preferences.columnVisibility as MRT_VisibilityState)
-      : updater;
-    updateColumnVisibility(newVisibility);
+  const handleColumnVisibilityChange = (updater: Updater<MRT_VisibilityState>) => {
+    updateColumnVisibility(resolveUpdater(updater, columnVisibility));
+  };
+
+  // Handle column reordering (drag and drop) and persist
+  const handleColumnOrderChange = (updater: Updater<MRT_ColumnOrderState>) => {
+    updateColumnOrder(resolveUpdater(updater, columnOrder).filter(isDataColumnId));
+  };
+
+  // Handle column resizing (applied when the drag ends) and persist
+  const handleColumnSizingChange = (updater: Updater<MRT_ColumnSizingState>) => {
+    updateColumnSizing(resolveUpdater(updater, columnSizing));
   };
 
-  // Handle sorting change and persist
+  // Handle pinning from the column menus and persist
+  const handleColumnPinningChange = (updater: Updater<MRT_ColumnPinningState>) => {
+    const { left = [], right = [] } = resolveUpdater(updater, columnPinning);
+    updateColumnPinning({
+      left: left.filter(isDataColumnId),
+      right: right.filter(isDataColumnId),
+    });
+  };
+
+  // Controlled sorting from the parent takes precedence over persisted sorting
+  const isManualSorting = sorting !== undefined;
+  const sortingState = sorting ?? (preferences.sorting as MRT_SortingState);
+
+  // Handle sorting change, persist and notify parent
   const handleSortingChange = (
     updater: MRT_SortingState | ((old: MRT_SortingState) => MRT_SortingState)
   ) => {
     const newSorting = typeof updater === 'function'
-      ? updater(preferences.sorting as MRT_SortingState)
+      ? updater(sortingState)
       : updater;
     updateSorting(newSorting);
+    onSortingChange?.(newSorting);
+  };
+
+  // Restore metadata defaults for the layout, sorting and density
+  const handleResetPreferences = () => {
+    resetPreferences();
+    if (isManualSorting) onSortingChange?.([]);
+  };
+
+  // Handle column filter change and notify parent
+  const handleColumnFiltersChange = (
+    updater: MRT_ColumnFiltersState | ((old: MRT_ColumnFiltersState) => MRT_ColumnFiltersState)
+  ) => {
+    const newFilters = typeof updater === 'function'
+      ? updater(columnFilters ?? [])
+      : updater;
+    onColumnFiltersChange?.(newFilters);
+  };
+
+  // Handle row selection change and notify parent
+  const handleRowSelectionChange = (
+    updater: MRT_RowSelectionState | ((old: MRT_RowSelectionState) => MRT_RowSelectionState)
+  ) => {
+    const newSelection = typeof updater === 'function'
+      ? updater(rowSelection ?? {})
+      : updater;
+    onRowSelectionChange?.(newSelection);
+  };
+
+  // Run a row action, asking for confirmation first when it declares one
+  const handleRowAction = (action: RowAction<T>, row: T) => {
+    if (action.confirm) {
+      setPendingAction({ action, row });
+    } else {
+      action.onAction(row);
+    }
+  };
+
+  const handleConfirmAction = () => {
+    pendingAction?.action.onAction(pendingAction.row);
+    setPendingAction(null);
   };
 
   // Handle density change and persist
@@ -256,7 +326,7 @@ export const DynamicGrid: React.FC<DynamicGridProps> = ({
     updater: MRT_DensityState | ((old: MRT_DensityState) => MRT_DensityState)
   ) => {
     const newDensity = typeof updater === 'function'
-      ? updater(preferences.density as MRT_DensityState)
+      ? updater(density)
       : updater;
     updateDensity(newDensity);
   };
@@ -264,34 +334,109 @@ export const DynamicGrid: React.FC<DynamicGridProps> = ({
   const table = useMaterialReactTable({
     columns: tableColumns,
     data: (isLoading || isFetching) && data.length === 0 ? [] : data, // Pass empty array during initial load or refetch
-    enableRowSelection: false,
-    enableColumnFilters: false,
+    enableRowSelection: hasRowSelection,
+    getRowId,
+    enableRowActions: hasRowActions,
+    positionActionsColumn: 'last',
+    renderRowActions: ({ row }) => (
+      <RowActionButtons
+        row={row.original}
+        actions={rowActions ?? []}
+        onSelect={handleRowAction}
+        isPending={isRowPending?.(row.original)}
+        marker={getRowMarker?.(row.original)}
+      />
+    ),
+    displayColumnDefOptions: {
+      'mrt-row-actions': {
+        header: 'Actions',
+        size:
+          (rowActions?.length ?? 0) * ACTION_BUTTON_WIDTH +
+          (getRowMarker ? ROW_MARKER_WIDTH : 0) +
+          32,
+      },
+    },
+    enableColumnPinning: true,
+    enableColumnOrdering: true, // Drag headers to reorder
+    enableColumnResizing: true,
+    columnResizeMode: 'onEnd', // Persist once per drag rather than on every pixel
+    renderTopToolbarCustomActions: () => (
+      <Button size="small" color="inherit" startIcon={<RestartAltIcon />} onClick={handleResetPreferences}>
+        Reset Layout
+      </Button>
+    ),
+    positionToolbarAlertBanner: 'none', // Selection summary is rendered by the parent
+    enableColumnFilters: columnFilters !== undefined,
+    manualFiltering: true,
     enableGlobalFilter: false,
     enableHiding: true, // Enable column visibility toggle
     enableDensityToggle: true, // Enable density toggle
     manualPagination: true,
+    enablePagination: !isInfinite,
+    enableRowVirtualization: isInfinite, // Only the rows in view are rendered
+    rowVirtualizerOptions: { overscan: 10 },
+    renderBottomToolbarCustomActions: isInfinite
+      ? () => (
+          <Typography variant="body2" color="text.secondary" sx={{ px: 1 }}>
+            {isFetchingNextPage ? 'Loading more...' : `Loaded ${data.length} of ${totalCount}`}
+          </Typography>
+        )
+      : undefined,
+    manualSorting: isManualSorting,
+    enableMultiSort: true, // Shift+click a header to add a secondary sort
     rowCount: totalCount,
+    muiPaginationProps: { rowsPerPageOptions: PAGE_SIZE_OPTIONS },
     state: {
       isLoading,
-      pagination,
-      columnVisibility: preferences.columnVisibility as MRT_VisibilityState,
-      sorting: preferences.sorting as MRT_SortingState,
-      density: preferences.density as MRT_DensityState,
+      ...(pagination && !isInfinite && { pagination }),
+      showProgressBars: isFetchingNextPage,
+      columnVisibility,
+      sorting: sortingState,
+      ...(columnFilters !== undefined && { columnFilters }),
+      ...(rowSelection !== undefined && { rowSelection }),
+      density,
+      columnOrder,
+      columnSizing,
+      columnPinning,
     },
     onPaginationChange: (updater) => {
+      if (!pagination) return;
       const newPagination =
         typeof updater === 'function' ? updater(pagination) : updater;
-      onPaginationChange(newPagination);
+      onPaginationChange?.(newPagination);
     },
     onColumnVisibilityChange: handleColumnVisibilityChange,
     onSortingChange: handleSortingChange,
+    onColumnFiltersChange: handleColumnFiltersChange,
+    onRowSelectionChange: handleRowSelectionChange,
     onDensityChange: handleDensityChange,
-    muiTableContainerProps: {
-      sx: { maxHeight: '600px' },
+    onColumnOrderChange: handleColumnOrderChange,
+    onColumnSizingChange: handleColumnSizingChange,
+    onColumnPinningChange: handleColumnPinningChange,
+    initialState: {
+      showColumnFilters: (columnFilters?.length ?? 0) > 0,
     },
-    muiTableBodyRowProps: () => ({
+    muiTableContainerProps: isInfinite
+      ? {
+          ref: tableContainerRef,
+          onScroll: (event: React.UIEvent<HTMLDivElement>) =>
+            loadMoreIfNearBottom(event.currentTarget),
+          sx: { height: '70vh' },
+        }
+      : {
+          sx: { maxHeight: '600px' },
+        },
+    muiTableBodyRowProps: ({ row }) => ({
+      onClick: onRowClick ? () => onRowClick(row.original) : undefined,
+      onContextMenu:
+        enableRowContextMenu && hasRowActions
+          ? (event: React.MouseEvent) => {
+              event.preventDefault();
+              setContextMenu({ row: row.original, top: event.clientY, left: event.clientX });
+            }
+          : undefined,
       sx: {
-        cursor: 'pointer',
+        cursor: onRowClick ? 'pointer' : 'default',
         '&:hover': {
           backgroundColor: 'action.hover',
         },
@@ -301,8 +446,77 @@ export const DynamicGrid: React.FC<DynamicGridProps> = ({
 
   // Show skeleton while loading (after all hooks have been called)
   if ((isLoading || isFetching) && data.length === 0) {
-    return <TableSkeleton columns={columns} rowCount={pagination.pageSize} />;
+    return <TableSkeleton columns={columns} rowCount={pagination?.pageSize} />;
   }
 
-  return <MaterialReactTable table={table} />;
+  return (
+    <>
+      {storageError && !isStorageErrorDismissed && (
+        <Alert severity="warning" onClose={() => setIsStorageErrorDismissed(true)} sx={{ mb: 2 }}>
+          Your saved layout for this table could not be restored, so the default layout is shown.
+        </Alert>
+      )}
+      <MaterialReactTable table={table} />
+      {hasRowActions && (
+        <>
+          <RowActionMenu
+            row={contextMenu?.row ?? null}
+            position={contextMenu && { top: contextMenu.top, left: contextMenu.left }}
+            actions={rowActions}
+            onSelect={handleRowAction}
+            onClose={() => setContextMenu(null)}
+          />
+          <RowActionConfirmDialog
+            pending={pendingAction}
+            onConfirm={handleConfirmAction}
+            onCancel={() => setPendingAction(null)}
+          />
+        </>
+      )}
+    </>
+  );
 };
+
+// A grid whose preferences are persisted in localStorage under its tableId
+const GridWithOwnPreferences = <T extends object>({
+  tableId = 'default-table',
+  ...props
+}: DynamicGridProps<T>) => {
+  const tablePreferences = useTablePreferences(tableId, props.columns);
+  return <Grid {...props} tablePreferences={tablePreferences} />;
+};
+
+/**
+ * DynamicGrid Component
+ *
+ * A metadata-driven data grid using Material React Table, generic over
+ * the row type. Columns are generated dynamically based on the provided
+ * metadata, whose keys are fields (or dotted paths) of the row type.
+ *
+ * Features:
+ * - Dynamic column generation from metadata
+ * - Column hiding controlled per column (`hideable`); saved visibility
+ *   carries over when columns are added or removed
+ * - Cell renderers, skeletons and sorting per column type (see ./columnTypes)
+ * - Server-side pagination, or virtualized rows with infinite scrolling
+ * - Sorting support (server-side when `sorting` is controlled by the parent)
+ * - Column filters derived from metadata (server-side when `columnFilters` is controlled)
+ * - Row selection across pages when `rowSelection` is controlled
+ * - Declarative row actions with confirmation and an optional context menu
+ * - Loading skeleton for better UX
+ *
+ * Visibility, order, sizes, pinning, sorting and density are saved per
+ * `tableId`, or in the parent's `tablePreferences` when it shares them
+ * (e.g. to apply saved views).
+ */
+export const DynamicGrid = <T extends object>({
+  tablePreferences,
+  ...props
+}: DynamicGridProps<T>) =>
+  // Only load preferences when the parent doesn't share its own, so there's
+  // a single live copy per table
+  tablePreferences ? (
+    <Grid {...props} tablePreferences={tablePreferences} />
+  ) : (
+    <GridWithOwnPreferences {...props} />
+  );
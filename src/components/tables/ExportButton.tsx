@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Button, CircularProgress, ListItemText, Menu, MenuItem } from '@mui/material';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import type { ExportFormat } from '@/utils';
+
+interface ExportButtonProps {
+  onExport: (format: ExportFormat) => void;
+  isExporting?: boolean;
+  progress?: { loaded: number; total: number } | null;
+  disabled?: boolean;
+}
+
+/**
+ * ExportButton Component
+ *
+ * Export menu (CSV or JSON) that shows fetch progress while the full
+ * result set is being downloaded.
+ */
+export const ExportButton: React.FC<ExportButtonProps> = ({
+  onExport,
+  isExporting = false,
+  progress,
+  disabled = false,
+}) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+
+  const handleSelect = (format: ExportFormat) => {
+    setAnchorEl(null);
+    onExport(format);
+  };
+
+  const percent = progress && progress.total > 0 ? (progress.loaded / progress.total) * 100 : 0;
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={
+          isExporting ? (
+            <CircularProgress
+              size={16}
+              variant={percent > 0 ? 'determinate' : 'indeterminate'}
+              value={percent}
+            />
+          ) : (
+            <FileDownloadIcon />
+          )
+        }
+        disabled={disabled || isExporting}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        aria-haspopup="menu"
+      >
+        {isExporting && progress?.total
+          ? `Exporting ${progress.loaded} of ${progress.total}`
+          : 'Export'}
+      </Button>
+      <Menu anchorEl={anchorEl} open={!!anchorEl} onClose={() => setAnchorEl(null)}>
+        <MenuItem onClick={() => handleSelect('csv')}>
+          <ListItemText primary="CSV" secondary="Spreadsheet-compatible" />
+        </MenuItem>
+        <MenuItem onClick={() => handleSelect('json')}>
+          <ListItemText primary="JSON" />
+        </MenuItem>
+      </Menu>
+    </>
+  );
+};
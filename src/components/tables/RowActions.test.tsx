@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { RowActionButtons, getVisibleRowActions, type RowAction } from './RowActions';
+
+interface Item {
+  id: string;
+  locked: boolean;
+}
+
+const makeActions = (onAction = vi.fn()): RowAction<Item>[] => [
+  {
+    id: 'edit',
+    label: (item) => `Edit ${item.id}`,
+    icon: 'E',
+    getDisabledReason: (item) => (item.locked ? 'Item is locked' : null),
+    onAction,
+  },
+  {
+    id: 'delete',
+    label: 'Delete',
+    icon: 'D',
+    isVisible: (item) => !item.locked,
+    onAction,
+  },
+];
+
+describe('RowActions', () => {
+  it('should hide actions whose visibility predicate fails', () => {
+    const actions = makeActions();
+    expect(getVisibleRowActions(actions, { id: 'a', locked: true }).map((a) => a.id)).toEqual([
+      'edit',
+    ]);
+    expect(getVisibleRowActions(actions, { id: 'a', locked: false })).toHaveLength(2);
+  });
+
+  it('should pass the row and action to onSelect', () => {
+    const onSelect = vi.fn();
+    const item = { id: 'a', locked: false };
+    const actions = makeActions();
+    render(<RowActionButtons row={item} actions={actions} onSelect={onSelect} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit a' }));
+    expect(onSelect).toHaveBeenCalledWith(actions[0], item);
+  });
+
+  it('should disable actions that have a denied reason', () => {
+    render(
+      <RowActionButtons row={{ id: 'a', locked: true }} actions={makeActions()} onSelect={vi.fn()} />
+    );
+    expect(screen.getByRole('button', { name: 'Edit a' })).toBeDisabled();
+    expect(screen.queryByRole('button', { name: 'Delete' })).toBeNull();
+  });
+
+  it('should show a spinner instead of buttons while pending', () => {
+    render(
+      <RowActionButtons
+        row={{ id: 'a', locked: false }}
+        actions={makeActions()}
+        onSelect={vi.fn()}
+        isPending
+      />
+    );
+    expect(screen.getByLabelText('Updating')).toBeInTheDocument();
+    expect(screen.queryByRole('button')).toBeNull();
+  });
+});
@@ -0,0 +1,223 @@
+import React from 'react';
+import {
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  IconButton,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  Tooltip,
+} from '@mui/material';
+
+type ActionColor = 'inherit' | 'primary' | 'secondary' | 'error' | 'info' | 'success' | 'warning';
+
+// Confirmation shown before a row action runs
+export interface RowActionConfirmation {
+  title: string;
+  message: React.ReactNode;
+  confirmLabel: string;
+  color?: ActionColor;
+}
+
+/**
+ * A declarative per-row action for DynamicGrid
+ *
+ * Rendered as an icon button in the pinned actions column and, when the
+ * grid enables it, as an entry in the row's context menu.
+ */
+export interface RowAction<T> {
+  id: string;
+  label: string | ((row: T) => string); // Tooltip, aria-label and menu text
+  icon: React.ReactNode;
+  color?: ActionColor;
+  isVisible?: (row: T) => boolean; // Hidden when false (default: always shown)
+  getDisabledReason?: (row: T) => string | null; // Disabled with the reason as tooltip
+  confirm?: RowActionConfirmation | ((row: T) => RowActionConfirmation);
+  onAction: (row: T) => void;
+}
+
+// An action waiting for the user to confirm it
+export interface PendingRowAction<T> {
+  action: RowAction<T>;
+  row: T;
+}
+
+// Label for an action on a given row
+export const getRowActionLabel = <T extends object>(action: RowAction<T>, row: T): string =>
+  typeof action.label === 'function' ? action.label(row) : action.label;
+
+// Actions shown for a row, in declaration order
+export const getVisibleRowActions = <T extends object>(
+  actions: RowAction<T>[],
+  row: T
+): RowAction<T>[] =>
+  actions.filter((action) => action.isVisible?.(row) ?? true);
+
+interface RowActionButtonsProps<T> {
+  row: T;
+  actions: RowAction<T>[];
+  onSelect: (action: RowAction<T>, row: T) => void;
+  isPending?: boolean; // Replaces the buttons with a spinner
+  marker?: React.ReactNode; // Row state shown before the buttons (e.g. pending sync)
+}
+
+/**
+ * RowActionButtons Component
+ *
+ * Icon buttons for one row. Disabled actions keep their tooltip so the
+ * user can see why. Clicks don't reach the row's own click handler.
+ */
+export const RowActionButtons = <T extends object>({
+  row,
+  actions,
+  onSelect,
+  isPending = false,
+  marker,
+}: RowActionButtonsProps<T>) => {
+  if (isPending) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', width: 40 }}>
+        <CircularProgress size={20} aria-label="Updating" />
+      </Box>
+    );
+  }
+
+  return (
+    <Box
+      sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {marker}
+      {getVisibleRowActions(actions, row).map((action) => {
+        const label = getRowActionLabel(action, row);
+        const disabledReason = action.getDisabledReason?.(row) ?? null;
+        return (
+          <Tooltip key={action.id} title={disabledReason ?? label} arrow placement="top">
+            {/* Span keeps the tooltip working while the button is disabled */}
+            <span>
+              <IconButton
+                size="small"
+                color={action.color ?? 'default'}
+                disabled={!!disabledReason}
+                onClick={() => onSelect(action, row)}
+                aria-label={label}
+              >
+                {action.icon}
+              </IconButton>
+            </span>
+          </Tooltip>
+        );
+      })}
+    </Box>
+  );
+};
+
+interface RowActionMenuProps<T> {
+  row: T | null;
+  position: { top: number; left: number } | null;
+  actions: RowAction<T>[];
+  onSelect: (action: RowAction<T>, row: T) => void;
+  onClose: () => void;
+}
+
+/**
+ * RowActionMenu Component
+ *
+ * Context menu listing a row's actions at the pointer position.
+ */
+export const RowActionMenu = <T extends object>({
+  row,
+  position,
+  actions,
+  onSelect,
+  onClose,
+}: RowActionMenuProps<T>) => {
+  const visibleActions = row ? getVisibleRowActions(actions, row) : [];
+
+  return (
+    <Menu
+      open={!!row && !!position && visibleActions.length > 0}
+      onClose={onClose}
+      anchorReference="anchorPosition"
+      anchorPosition={position ?? undefined}
+    >
+      {row &&
+        visibleActions.map((action) => {
+          const disabledReason = action.getDisabledReason?.(row) ?? null;
+          return (
+            <MenuItem
+              key={action.id}
+              disabled={!!disabledReason}
+              onClick={() => {
+                onClose();
+                onSelect(action, row);
+              }}
+            >
+              <ListItemIcon>{action.icon}</ListItemIcon>
+              <ListItemText
+                primary={getRowActionLabel(action, row)}
+                secondary={disabledReason}
+              />
+            </MenuItem>
+          );
+        })}
+    </Menu>
+  );
+};
+
+// Confirmation details for an action on a given row (undefined = none)
+const getRowActionConfirmation = <T extends object>(
+  action: RowAction<T>,
+  row: T
+): RowActionConfirmation | undefined =>
+  typeof action.confirm === 'function' ? action.confirm(row) : action.confirm;
+
+interface RowActionConfirmDialogProps<T> {
+  pending: PendingRowAction<T> | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * RowActionConfirmDialog Component
+ *
+ * Shared confirmation for row actions that declare `confirm`.
+ */
+export const RowActionConfirmDialog = <T extends object>({
+  pending,
+  onConfirm,
+  onCancel,
+}: RowActionConfirmDialogProps<T>) => {
+  const details = pending ? getRowActionConfirmation(pending.action, pending.row) : undefined;
+
+  return (
+    <Dialog
+      open={!!pending}
+      onClose={onCancel}
+      aria-labelledby="row-action-dialog-title"
+      aria-describedby="row-action-dialog-description"
+    >
+      <DialogTitle id="row-action-dialog-title">{details?.title}</DialogTitle>
+      <DialogContent>
+        <DialogContentText id="row-action-dialog-description">
+          {details?.message}
+        </DialogContentText>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel} color="inherit" autoFocus>
+          Cancel
+        </Button>
+        <Button onClick={onConfirm} color={details?.color ?? 'primary'} variant="contained">
+          {details?.confirmLabel}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
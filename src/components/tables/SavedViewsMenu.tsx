@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  ListItemIcon,
+  ListItemText,
+  Menu,
+  MenuItem,
+  TextField,
+  Tooltip,
+} from '@mui/material';
+import BookmarksIcon from '@mui/icons-material/Bookmarks';
+import CheckIcon from '@mui/icons-material/Check';
+import StarIcon from '@mui/icons-material/Star';
+import StarBorderIcon from '@mui/icons-material/StarBorder';
+import DeleteIcon from '@mui/icons-material/Delete';
+import SaveIcon from '@mui/icons-material/Save';
+import SaveAsIcon from '@mui/icons-material/SaveAs';
+import LinkIcon from '@mui/icons-material/Link';
+import { isViewNameTaken } from '@/hooks';
+
+interface SavedViewsMenuProps {
+  views: { viewId: string; name: string }[];
+  activeViewId: string | null;
+  defaultViewId: string | null;
+  isModified: boolean; // The table has changed since the active view was applied
+  onSelect: (viewId: string) => void;
+  onSave: (name: string) => void;
+  onUpdate: (viewId: string) => void;
+  onDelete: (viewId: string) => void;
+  onSetDefault: (viewId: string | null) => void;
+  onShare: () => void;
+}
+
+/**
+ * SavedViewsMenu Component
+ *
+ * View switcher for a table: apply, save, update, delete and share named
+ * views, and mark one as the default.
+ */
+export const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({
+  views,
+  activeViewId,
+  defaultViewId,
+  isModified,
+  onSelect,
+  onSave,
+  onUpdate,
+  onDelete,
+  onSetDefault,
+  onShare,
+}) => {
+  const [anchorEl, setAnchorEl] = useState<HTMLElement | null>(null);
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const activeView = views.find((view) => view.viewId === activeViewId);
+  const nameTaken = isViewNameTaken(views, name);
+
+  const close = () => setAnchorEl(null);
+
+  const handleOpenSave = () => {
+    close();
+    setName('');
+    setIsSaveOpen(true);
+  };
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim() || nameTaken) return;
+    onSave(name);
+    setIsSaveOpen(false);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        startIcon={<BookmarksIcon />}
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        aria-haspopup="menu"
+      >
+        {activeView ? `${activeView.name}${isModified ? ' (modified)' : ''}` : 'Views'}
+      </Button>
+
+      <Menu anchorEl={anchorEl} open={!!anchorEl} onClose={close}>
+        {views.map((view) => {
+          const isDefault = view.viewId === defaultViewId;
+          return (
+            <MenuItem
+              key={view.viewId}
+              selected={view.viewId === activeViewId}
+              onClick={() => {
+                close();
+                onSelect(view.viewId);
+              }}
+            >
+              <ListItemIcon>
+                {view.viewId === activeViewId && <CheckIcon fontSize="small" />}
+              </ListItemIcon>
+              <ListItemText primary={view.name} sx={{ mr: 2 }} />
+              <Tooltip title={isDefault ? 'Unset default view' : 'Make default view'}>
+                <IconButton
+                  size="small"
+                  edge="end"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onSetDefault(isDefault ? null : view.viewId);
+                  }}
+                  aria-label={`${isDefault ? 'Unset' : 'Set'} ${view.name} as default view`}
+                >
+                  {isDefault ? (
+                    <StarIcon fontSize="small" color="warning" />
+                  ) : (
+                    <StarBorderIcon fontSize="small" />
+                  )}
+                </IconButton>
+              </Tooltip>
+              <Tooltip title="Delete view">
+                <IconButton
+                  size="small"
+                  edge="end"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(view.viewId);
+                  }}
+                  aria-label={`Delete view ${view.name}`}
+                >
+                  <DeleteIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            </MenuItem>
+          );
+        })}
+        {views.length > 0 && <Divider />}
+        {activeView && isModified && (
+          <MenuItem
+            onClick={() => {
+              close();
+              onUpdate(activeView.viewId);
+            }}
+          >
+            <ListItemIcon>
+              <SaveIcon fontSize="small" />
+            </ListItemIcon>
+            <ListItemText primary={`Update "${activeView.name}"`} />
+          </MenuItem>
+        )}
+        <MenuItem onClick={handleOpenSave}>
+          <ListItemIcon>
+            <SaveAsIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText primary="Save as new view..." />
+        </MenuItem>
+        <MenuItem
+          onClick={() => {
+            close();
+            onShare();
+          }}
+        >
+          <ListItemIcon>
+            <LinkIcon fontSize="small" />
+          </ListItemIcon>
+          <ListItemText primary="Copy link to this view" />
+        </MenuItem>
+      </Menu>
+
+      <Dialog
+        open={isSaveOpen}
+        onClose={() => setIsSaveOpen(false)}
+        aria-labelledby="save-view-dialog-title"
+        fullWidth
+        maxWidth="xs"
+      >
+        <form onSubmit={handleSave} noValidate>
+          <DialogTitle id="save-view-dialog-title">Save View</DialogTitle>
+          <DialogContent>
+            <TextField
+              label="View name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              error={nameTaken}
+              helperText={
+                nameTaken
+                  ? 'A view with this name already exists'
+                  : 'Saves the current filters, sort, columns and density'
+              }
+              autoFocus
+              fullWidth
+              sx={{ mt: 1 }}
+            />
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setIsSaveOpen(false)} color="inherit">
+              Cancel
+            </Button>
+            <Button type="submit" variant="contained" disabled={!name.trim() || nameTaken}>
+              Save
+            </Button>
+          </DialogActions>
+        </form>
+      </Dialog>
+    </>
+  );
+};
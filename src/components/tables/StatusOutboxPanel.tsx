@@ -0,0 +1,101 @@
+import React from 'react';
+import {
+  Alert,
+  AlertTitle,
+  Box,
+  Button,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material';
+import CloudUploadIcon from '@mui/icons-material/CloudUpload';
+import type { StatusOutboxEntry } from '@/hooks';
+
+interface StatusOutboxPanelProps {
+  entries: StatusOutboxEntry[];
+  isOffline: boolean;
+  isSyncing: boolean;
+  onSyncNow: () => void;
+  onRetry: (entryId: string) => void;
+  onDiscard: (entryId: string) => void;
+}
+
+const statusLabel = (status: StatusOutboxEntry['status']) =>
+  status === 'active' ? 'Active' : 'Inactive';
+
+/**
+ * StatusOutboxPanel Component
+ *
+ * Shown above the grid while status changes are waiting to sync. Changes
+ * the server rejected are listed one by one with retry and discard.
+ */
+export const StatusOutboxPanel: React.FC<StatusOutboxPanelProps> = ({
+  entries,
+  isOffline,
+  isSyncing,
+  onSyncNow,
+  onRetry,
+  onDiscard,
+}) => {
+  const waitingCount = entries.filter((entry) => entry.state !== 'failed').length;
+  const failedEntries = entries.filter((entry) => entry.state === 'failed');
+
+  if (entries.length === 0) return null;
+
+  return (
+    <Box sx={{ p: 2, display: 'flex', flexDirection: 'column', gap: 1 }}>
+      {waitingCount > 0 && (
+        <Alert
+          severity="info"
+          icon={<CloudUploadIcon />}
+          action={
+            <Button color="inherit" size="small" onClick={onSyncNow} disabled={isOffline || isSyncing}>
+              {isSyncing ? 'Syncing...' : 'Sync Now'}
+            </Button>
+          }
+        >
+          {waitingCount} status {waitingCount === 1 ? 'change is' : 'changes are'} pending sync.
+          {isOffline && ' They will be sent when you are back online.'}
+        </Alert>
+      )}
+
+      {failedEntries.length > 0 && (
+        <Alert severity="warning">
+          <AlertTitle>
+            {failedEntries.length} status {failedEntries.length === 1 ? 'change' : 'changes'} could
+            not be synced
+          </AlertTitle>
+          <List dense disablePadding>
+            {failedEntries.map((entry) => (
+              <ListItem
+                key={entry.entryId}
+                disableGutters
+                secondaryAction={
+                  <Box sx={{ display: 'flex', gap: 1 }}>
+                    <Button
+                      size="small"
+                      color="inherit"
+                      onClick={() => onRetry(entry.entryId)}
+                      disabled={isOffline}
+                    >
+                      Retry
+                    </Button>
+                    <Button size="small" color="inherit" onClick={() => onDiscard(entry.entryId)}>
+                      Discard
+                    </Button>
+                  </Box>
+                }
+              >
+                <ListItemText
+                  primary={`Set ${entry.userName} to ${statusLabel(entry.status)}`}
+                  secondary={entry.error}
+                  sx={{ pr: 18 }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </Alert>
+      )}
+    </Box>
+  );
+};
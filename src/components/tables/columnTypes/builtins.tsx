@@ -0,0 +1,286 @@
+import React from 'react';
+import {
+  Avatar,
+  Box,
+  Chip,
+  LinearProgress,
+  Link,
+  Skeleton,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import type { SvgIconComponent } from '@mui/icons-material';
+import AdminPanelSettingsIcon from '@mui/icons-material/AdminPanelSettings';
+import SupervisorAccountIcon from '@mui/icons-material/SupervisorAccount';
+import VisibilityIcon from '@mui/icons-material/Visibility';
+import CreateIcon from '@mui/icons-material/Create';
+import PersonIcon from '@mui/icons-material/Person';
+import dayjs from 'dayjs';
+import relativeTime from 'dayjs/plugin/relativeTime';
+import type { ChipColor } from '@/types';
+import {
+  formatBoolean,
+  formatCurrency,
+  formatDate,
+  formatNumber,
+  getChipLabel,
+  getField,
+  getLinkHref,
+  getProgressPercent,
+  isEmptyCell as isEmpty,
+  toNumber,
+} from '@/utils';
+import { registerColumnType, defaultCompare } from './registry';
+
+dayjs.extend(relativeTime);
+
+/**
+ * Built-in column types
+ */
+
+// Icons chiplist style rules can refer to by name
+export const chipIcons: Record<string, SvgIconComponent> = {
+  admin: AdminPanelSettingsIcon,
+  management: SupervisorAccountIcon,
+  readonly: VisibilityIcon,
+  content: CreateIcon,
+  person: PersonIcon,
+};
+
+const emptyCell = (text: string) => <span style={{ color: '#999' }}>{text}</span>;
+
+const compareNumbers = (a: unknown, b: unknown): number => {
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (x === null || y === null) return Number(x === null) - Number(y === null);
+  return x - y;
+};
+
+const compareDates = (a: unknown, b: unknown): number =>
+  compareNumbers(
+    isEmpty(a) ? null : new Date(a as string).getTime(),
+    isEmpty(b) ? null : new Date(b as string).getTime()
+  );
+
+// string
+registerColumnType('string', {
+  render: (value) => (isEmpty(value) ? '' : (value as React.ReactNode)),
+});
+
+// badge
+registerColumnType('badge', {
+  render: (value, column) => {
+    const label = String(value ?? '');
+    const color: ChipColor =
+      column.options?.colors?.[label] ?? (label === 'active' ? 'success' : 'default');
+    return <Chip label={label} size="small" color={color} sx={{ textTransform: 'capitalize' }} />;
+  },
+  renderSkeleton: () => <Skeleton variant="rounded" width={70} height={24} />,
+  filterVariant: 'select',
+});
+
+// date
+registerColumnType('date', {
+  render: (value, column) => (isEmpty(value) ? '' : formatDate(value as string, column.format)),
+  compare: compareDates,
+  filterVariant: 'date-range',
+});
+
+// chiplist
+registerColumnType('chiplist', {
+  render: (value, column) => {
+    const options = column.options ?? {};
+    const items = Array.isArray(value) ? value : [];
+    if (items.length === 0) {
+      return emptyCell(options.emptyText ?? 'None');
+    }
+
+    return (
+      <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+        {items.map((item, index) => {
+          const label = getChipLabel(item, options);
+          const rule = options.styles?.find((style) =>
+            label.toLowerCase().includes(style.match.toLowerCase())
+          );
+          const Icon = rule?.icon ? chipIcons[rule.icon] : undefined;
+          const isSpecial = !!rule && rule.color !== 'default';
+          const key = options.idKey ? String(getField(item, options.idKey)) : `${label}-${index}`;
+
+          const chip = (
+            <Chip
+              icon={Icon ? <Icon sx={{ fontSize: 16, mr: 0.5 }} /> : undefined}
+              label={label}
+              size="small"
+              color={rule?.color ?? 'default'}
+              variant={isSpecial ? 'filled' : 'outlined'}
+              sx={{
+                fontWeight: isSpecial ? 600 : 400,
+                '& .MuiChip-icon': {
+                  color: 'inherit',
+                },
+              }}
+            />
+          );
+
+          if (!options.tooltipKey) {
+            return <React.Fragment key={key}>{chip}</React.Fragment>;
+          }
+
+          const tooltipItems = getField(item, options.tooltipKey);
+          const tooltipLabels = Array.isArray(tooltipItems)
+            ? tooltipItems.map((entry) =>
+                typeof entry === 'string'
+                  ? entry
+                  : String(getField(entry, options.tooltipLabelKey ?? 'label') ?? '')
+              )
+            : [];
+          const prefix = options.tooltipPrefix ?? 'Details';
+
+          return (
+            <Tooltip
+              key={key}
+              title={
+                tooltipLabels.length > 0
+                  ? `${prefix}: ${tooltipLabels.join(', ')}`
+                  : `No ${prefix.toLowerCase()}`
+              }
+              arrow
+            >
+              {chip}
+            </Tooltip>
+          );
+        })}
+      </Box>
+    );
+  },
+  renderSkeleton: () => (
+    <Box sx={{ display: 'flex', gap: 0.5 }}>
+      <Skeleton variant="rounded" width={60} height={24} />
+      <Skeleton variant="rounded" width={80} height={24} />
+    </Box>
+  ),
+  compare: (a, b, column) =>
+    defaultCompare(
+      (Array.isArray(a) ? a : []).map((item) => getChipLabel(item, column.options)).join(', '),
+      (Array.isArray(b) ? b : []).map((item) => getChipLabel(item, column.options)).join(', ')
+    ),
+  filterVariant: 'multi-select',
+});
+
+// number
+registerColumnType('number', {
+  render: (value, column) => formatNumber(value, column.options),
+  compare: compareNumbers,
+  filterVariant: 'range',
+});
+
+// currency
+registerColumnType('currency', {
+  render: (value, column) => formatCurrency(value, column.options),
+  compare: compareNumbers,
+  filterVariant: 'range',
+});
+
+// boolean
+registerColumnType('boolean', {
+  render: (value, column) =>
+    isEmpty(value) ? (
+      ''
+    ) : (
+      <Chip
+        label={formatBoolean(value, column.options)}
+        size="small"
+        color={value ? 'success' : 'default'}
+        variant="outlined"
+      />
+    ),
+  renderSkeleton: () => <Skeleton variant="rounded" width={48} height={24} />,
+  compare: (a, b) => Number(!!a) - Number(!!b),
+  filterVariant: 'checkbox',
+});
+
+// link (unsafe targets, e.g. javascript: URLs, show as plain text)
+registerColumnType('link', {
+  render: (value, column, row) => {
+    if (isEmpty(value)) return '';
+    const href = getLinkHref(value, row, column.options);
+    if (!href) return String(value);
+    return (
+      <Link
+        href={href}
+        underline="hover"
+        // Links inside clickable rows shouldn't also open the row
+        onClick={(e) => e.stopPropagation()}
+        {...(column.options?.external && { target: '_blank', rel: 'noopener noreferrer' })}
+      >
+        {String(value)}
+      </Link>
+    );
+  },
+});
+
+// avatar (value is the display name)
+const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join('');
+
+registerColumnType('avatar', {
+  render: (value, column, row) => {
+    if (isEmpty(value)) return '';
+    const name = String(value);
+    const size = column.options?.size ?? 28;
+    const imageKey = column.options?.imageKey;
+    const src = imageKey ? (getField(row, imageKey) as string | undefined) : undefined;
+    return (
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Avatar src={src} alt={name} sx={{ width: size, height: size, fontSize: size * 0.45 }}>
+          {getInitials(name)}
+        </Avatar>
+        <span>{name}</span>
+      </Box>
+    );
+  },
+  renderSkeleton: (column) => (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+      <Skeleton variant="circular" width={column.options?.size ?? 28} height={column.options?.size ?? 28} />
+      <Skeleton variant="text" width={100} />
+    </Box>
+  ),
+});
+
+// relative-time (e.g. "3 days ago", exact time in the tooltip)
+registerColumnType('relative-time', {
+  render: (value) =>
+    isEmpty(value) ? (
+      ''
+    ) : (
+      <Tooltip title={dayjs(value as string).format('YYYY-MM-DD HH:mm:ss')} arrow>
+        <span>{dayjs(value as string).fromNow()}</span>
+      </Tooltip>
+    ),
+  compare: compareDates,
+  filterVariant: 'date-range',
+});
+
+// progress (value out of options.max)
+registerColumnType('progress', {
+  render: (value, column) => {
+    const percent = getProgressPercent(value, column.options);
+    if (percent === null) return '';
+    return (
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, minWidth: 100 }}>
+        <LinearProgress variant="determinate" value={percent} sx={{ flex: 1 }} />
+        <Typography variant="caption" color="text.secondary">
+          {Math.round(percent)}%
+        </Typography>
+      </Box>
+    );
+  },
+  renderSkeleton: () => <Skeleton variant="rounded" width={100} height={8} />,
+  compare: compareNumbers,
+  filterVariant: 'range',
+});
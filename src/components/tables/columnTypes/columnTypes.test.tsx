@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { isValidElement } from 'react';
+import type { ColumnMetadata, Group } from '@/types';
+import { formatCellValue, userColumnMetadata } from '@/utils';
+import {
+  registerColumnType,
+  isColumnTypeRegistered,
+  renderCell,
+  compareCellValues,
+  sortRows,
+  getColumnFilterVariant,
+} from './index';
+
+// Options for the app-defined type registered below
+declare module '@/types' {
+  interface ColumnTypeOptionsMap {
+    rating: { max?: number };
+  }
+}
+
+const groupsColumn = userColumnMetadata.find((col) => col.key === 'groups')!;
+
+const groups: Group[] = [
+  { groupId: 'grp-1', groupName: 'Administrators', roles: [] },
+  { groupId: 'grp-3', groupName: 'Standard Users', roles: [] },
+];
+
+describe('column type registry', () => {
+  it('should register every built-in type', () => {
+    const builtIns = [
+      'string',
+      'badge',
+      'date',
+      'chiplist',
+      'number',
+      'currency',
+      'boolean',
+      'link',
+      'avatar',
+      'relative-time',
+      'progress',
+    ];
+    expect(builtIns.filter((type) => !isColumnTypeRegistered(type))).toEqual([]);
+  });
+
+  it('should format export values like the cells', () => {
+    expect(formatCellValue(groups, groupsColumn)).toBe('Administrators, Standard Users');
+    expect(
+      formatCellValue('2024-03-05T10:00:00.000Z', {
+        key: 'createdAt',
+        header: 'Joined',
+        type: 'date',
+        format: 'YYYY-MM-DD',
+      })
+    ).toBe('2024-03-05');
+    expect(
+      formatCellValue(1234.5, {
+        key: 'amount',
+        header: 'Amount',
+        type: 'currency',
+        options: { currency: 'EUR', locale: 'en-US' },
+      })
+    ).toBe('€1,234.50');
+    expect(
+      formatCellValue(false, { key: 'mfa', header: 'MFA', type: 'boolean', options: { falseLabel: 'Off' } })
+    ).toBe('Off');
+    expect(
+      formatCellValue(
+        'Profile',
+        { key: 'profile', header: 'Profile', type: 'link', options: { hrefTemplate: '/users/{userId}' } },
+        { userId: 'user 1' }
+      )
+    ).toBe('/users/user%201');
+    expect(
+      formatCellValue(3, { key: 'steps', header: 'Steps', type: 'progress', options: { max: 4 } })
+    ).toBe('75%');
+    expect(formatCellValue(undefined, { key: 'name', header: 'Name', type: 'string' })).toBe('');
+  });
+
+  it('should not link to unsafe URLs', () => {
+    const column: ColumnMetadata = { key: 'website', header: 'Website', type: 'link' };
+
+    expect(isValidElement(renderCell('https://example.com', column))).toBe(true);
+    expect(renderCell('javascript:alert(1)', column)).toBe('javascript:alert(1)');
+    expect(renderCell('java\tscript:alert(1)', column)).toBe('java\tscript:alert(1)');
+    expect(formatCellValue('javascript:alert(1)', column)).toBe('javascript:alert(1)');
+  });
+
+  it('should compare values by type', () => {
+    const number: ColumnMetadata = { key: 'n', header: 'N', type: 'number' };
+    expect(compareCellValues(9, 10, number)).toBeLessThan(0);
+    expect(compareCellValues(null, 1, number)).toBeGreaterThan(0);
+
+    const date: ColumnMetadata = { key: 'd', header: 'D', type: 'date' };
+    expect(compareCellValues('2024-02-01', '2023-12-31', date)).toBeGreaterThan(0);
+
+    const text: ColumnMetadata = { key: 's', header: 'S', type: 'string' };
+    expect(compareCellValues('item 2', 'item 10', text)).toBeLessThan(0);
+  });
+
+  it('should sort whole row lists by several columns', () => {
+    type Row = { name: string; count: number };
+    const columns: ColumnMetadata<Row>[] = [
+      { key: 'name', header: 'Name', type: 'string' },
+      { key: 'count', header: 'Count', type: 'number' },
+    ];
+    const rows: Row[] = [
+      { name: 'b', count: 1 },
+      { name: 'a', count: 2 },
+      { name: 'b', count: 10 },
+    ];
+
+    expect(
+      sortRows(rows, [{ id: 'name', desc: false }, { id: 'count', desc: true }], columns)
+    ).toEqual([rows[1], rows[2], rows[0]]);
+    expect(sortRows(rows, [{ id: 'missing', desc: false }], columns)).toBe(rows);
+  });
+
+  it('should map filterable types to filter variants', () => {
+    expect(getColumnFilterVariant(groupsColumn)).toBe('multi-select');
+    expect(getColumnFilterVariant({ key: 'name', header: 'Name', type: 'string' })).toBe('text');
+  });
+
+  it('should let apps register their own types with typed options', () => {
+    registerColumnType('rating', {
+      render: (value, column) => `${'*'.repeat(Number(value))} / ${column.options?.max ?? 5}`,
+      formatForExport: (value) => `${value} stars`,
+    });
+    const column: ColumnMetadata = {
+      key: 'score',
+      header: 'Score',
+      type: 'rating',
+      options: { max: 3 },
+    };
+
+    expect(renderCell(2, column)).toBe('** / 3');
+    expect(formatCellValue(2, column)).toBe('2 stars');
+    // Types without a comparator sort as text
+    expect(compareCellValues(1, 2, column)).toBeLessThan(0);
+  });
+
+  it('should render chiplist items as elements', () => {
+    expect(isValidElement(renderCell(groups, groupsColumn))).toBe(true);
+  });
+});
@@ -0,0 +1,15 @@
+// Importing the built-ins registers them before any column type is looked up
+import './builtins';
+
+export {
+  registerColumnType,
+  isColumnTypeRegistered,
+  getColumnTypeDefinition,
+  renderCell,
+  renderCellSkeleton,
+  compareCellValues,
+  sortRows,
+  getColumnFilterVariant,
+} from './registry';
+export type { ColumnTypeDefinition } from './registry';
+export { chipIcons } from './builtins';
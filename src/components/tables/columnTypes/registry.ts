@@ -0,0 +1,111 @@
+import type React from 'react';
+import type { MRT_ColumnDef, MRT_SortingState } from 'material-react-table';
+import type { ColumnMetadata, ColumnType, TypedColumnMetadata } from '@/types';
+import { getColumnValue, registerCellFormatter, type CellFormatter } from '@/utils';
+
+/**
+ * Column type registry
+ *
+ * Each column type supplies how DynamicGrid renders its cells and loading
+ * placeholders, how client-side sorting compares them and, for types that
+ * need one, how exports format their values. Built-in types are registered in ./builtins; apps can
+ * register their own (or replace a built-in) with registerColumnType.
+ */
+export interface ColumnTypeDefinition<K extends ColumnType = ColumnType> {
+  // Cell content; row is the full data row (e.g. for links built from other fields)
+  render: (value: unknown, column: TypedColumnMetadata<K>, row: unknown) => React.ReactNode;
+  // Placeholder shown by the grid's loading skeleton (default: a text line)
+  renderSkeleton?: (column: TypedColumnMetadata<K>) => React.ReactNode;
+  // Plain-text value for CSV/JSON export (default: the built-in formatter in
+  // utils/cellFormatUtils, else String(value))
+  formatForExport?: (value: unknown, column: TypedColumnMetadata<K>, row: unknown) => string;
+  // Client-side sort order (default: natural string comparison)
+  compare?: (a: unknown, b: unknown, column: TypedColumnMetadata<K>) => number;
+  // Filter UI used when the column is filterable (default: text)
+  filterVariant?: MRT_ColumnDef<Record<string, unknown>>['filterVariant'];
+}
+
+// Definitions are stored type-erased; registerColumnType ties each to its options type
+type StoredDefinition = ColumnTypeDefinition<ColumnType>;
+
+const registry = new Map<string, StoredDefinition>();
+
+// Register (or replace) a column type
+export const registerColumnType = <K extends ColumnType>(
+  type: K,
+  definition: ColumnTypeDefinition<K>
+): void => {
+  registry.set(type, definition as unknown as StoredDefinition);
+  if (definition.formatForExport) {
+    registerCellFormatter(type, definition.formatForExport as unknown as CellFormatter);
+  }
+};
+
+// Check whether a column type has been registered
+export const isColumnTypeRegistered = (type: string): boolean => registry.has(type);
+
+// Look up a column type; unknown types fall back to the string renderer
+export const getColumnTypeDefinition = (type: ColumnType): StoredDefinition => {
+  const definition = registry.get(type) ?? registry.get('string');
+  if (!definition) {
+    throw new Error(`Column type "${type}" is not registered`);
+  }
+  return definition;
+};
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+// Natural string order, with empty values last
+export const defaultCompare = (a: unknown, b: unknown): number => {
+  if (isEmpty(a) || isEmpty(b)) return Number(isEmpty(a)) - Number(isEmpty(b));
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+};
+
+// Render a cell with its column type's renderer
+export const renderCell = (value: unknown, column: ColumnMetadata, row?: unknown): React.ReactNode => {
+  return getColumnTypeDefinition(column.type).render(value, column, row);
+};
+
+// Render a loading placeholder for a column (null = use the default text line)
+export const renderCellSkeleton = (column: ColumnMetadata): React.ReactNode => {
+  return getColumnTypeDefinition(column.type).renderSkeleton?.(column) ?? null;
+};
+
+// Compare two cell values for client-side sorting
+export const compareCellValues = (a: unknown, b: unknown, column: ColumnMetadata): number => {
+  const definition = getColumnTypeDefinition(column.type);
+  return definition.compare ? definition.compare(a, b, column) : defaultCompare(a, b);
+};
+
+// Sort rows like the grid's client-side sorting, for pages that page the
+// rows themselves (the grid only ever sorts the rows it is given)
+export const sortRows = <T extends object>(
+  rows: T[],
+  sorting: MRT_SortingState,
+  columns: ColumnMetadata<T>[]
+): T[] => {
+  const sorts = sorting.flatMap((sort) => {
+    const column = columns.find((col) => col.key === sort.id);
+    return column ? [{ column, direction: sort.desc ? -1 : 1 }] : [];
+  });
+  if (sorts.length === 0) return rows;
+
+  return [...rows].sort((a, b) => {
+    for (const { column, direction } of sorts) {
+      const result = compareCellValues(
+        getColumnValue(a, column.key),
+        getColumnValue(b, column.key),
+        column as ColumnMetadata
+      );
+      if (result !== 0) return result * direction;
+    }
+    return 0;
+  });
+};
+
+// Filter UI for a column
+export const getColumnFilterVariant = (
+  column: ColumnMetadata
+): ColumnTypeDefinition['filterVariant'] => {
+  return getColumnTypeDefinition(column.type).filterVariant ?? 'text';
+};
@@ -1,2 +1,17 @@
-export { DynamicGrid } from './DynamicGrid';
-export { UserActions } from './UserActions';
+export { DynamicGrid, PAGE_SIZE_OPTIONS } from './DynamicGrid';
+export type { InfiniteScrollOptions } from './DynamicGrid';
+export { BulkActionsToolbar } from './BulkActionsToolbar';
+export { ExportButton } from './ExportButton';
+export { SavedViewsMenu } from './SavedViewsMenu';
+export { StatusOutboxPanel } from './StatusOutboxPanel';
+export {
+  registerColumnType,
+  isColumnTypeRegistered,
+  getColumnTypeDefinition,
+  renderCell,
+  compareCellValues,
+  sortRows,
+  chipIcons,
+} from './columnTypes';
+export type { ColumnTypeDefinition } from './columnTypes';
+export type { RowAction, RowActionConfirmation } from './RowActions';
@@ -1,5 +1,52 @@
-export { useUsers, useUpdateUserStatus, useInvalidateUsersCache, userQueryKeys } from './useUsers';
+export {
+  useUsers,
+  useInfiniteUsers,
+  useUser,
+  useCreateUser,
+  useImportUsers,
+  useUpdateUser,
+  useDeleteUser,
+  useUpdateUserStatus,
+  useBulkUpdateUsers,
+  useInvalidateUsersCache,
+  useRefreshUsersOnReconnect,
+  userQueryKeys,
+} from './useUsers';
+export {
+  useGroups,
+  useRoles,
+  useCreateGroup,
+  useUpdateGroup,
+  useDeleteGroup,
+  useCreateRole,
+  useUpdateRole,
+  groupQueryKeys,
+  roleQueryKeys,
+} from './useGroups';
+export { useAuditLog, auditQueryKeys } from './useAuditLog';
+export { useColumnMetadata, metadataQueryKeys } from './useColumnMetadata';
+export {
+  useCurrentUser,
+  useCurrentUserQuery,
+  CurrentUserContext,
+  sessionQueryKeys,
+} from './useCurrentUser';
+export type { CurrentUserContextValue } from './useCurrentUser';
+export { useExportUsers } from './useExportUsers';
+export type { ExportProgress } from './useExportUsers';
 export { useDebounce } from './useDebounce';
-export { useLocalStorage, useTablePreferences } from './useLocalStorage';
-export type { TablePreferences } from './useLocalStorage';
-export { useNetworkStatus, isNetworkError } from './useNetworkStatus';
+export { useSavedViews, isViewNameTaken, getUniqueViewName } from './useSavedViews';
+export type { SavedView } from './useSavedViews';
+export {
+  useLocalStorage,
+  useTablePreferences,
+  readTablePreferences,
+  pruneTablePreferences,
+  tablePreferencesSchema,
+} from './useLocalStorage';
+export type { TablePreferences, TablePreferencesState } from './useLocalStorage';
+export { useNetworkStatus, isNetworkError, checkConnectivity } from './useNetworkStatus';
+export type { ConnectivityStatus, NetworkStatus } from './useNetworkStatus';
+export { useStatusOutbox } from './useStatusOutbox';
+export { useContractViolations } from './useContractViolations';
+export type { StatusOutboxEntry } from './useStatusOutbox';
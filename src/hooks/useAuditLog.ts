@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchAuditLog } from '@/api';
+import type { AuditQueryParams } from '@/types';
+
+// Query keys
+export const auditQueryKeys = {
+  all: ['audit'] as const,
+  list: (params: AuditQueryParams) => ['audit', 'list', params] as const,
+};
+
+/**
+ * Hook to fetch audit log entries
+ *
+ * Every mutation appends entries, so the log is always treated as stale
+ * and refetched whenever a view showing it mounts.
+ */
+export const useAuditLog = (params: AuditQueryParams, options: { enabled?: boolean } = {}) => {
+  return useQuery({
+    queryKey: auditQueryKeys.list(params),
+    queryFn: ({ signal }) => fetchAuditLog(params, signal),
+    staleTime: 0,
+    enabled: options.enabled ?? true,
+  });
+};
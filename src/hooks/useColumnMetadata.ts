@@ -0,0 +1,50 @@
+import { useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { fetchColumnMetadata } from '@/api';
+import { isColumnTypeRegistered } from '@/components/tables/columnTypes';
+import { validateColumnMetadata } from '@/utils';
+import type { ColumnMetadata } from '@/types';
+
+// Query keys
+export const metadataQueryKeys = {
+  all: ['metadata'] as const,
+  columns: (entity: string) => ['metadata', 'columns', entity] as const,
+};
+
+/**
+ * Hook to load server-driven column metadata for an entity's table
+ *
+ * The server's columns replace the bundled `fallback` once loaded and
+ * validated. While loading, on errors, or when the payload is malformed
+ * (e.g. a column type this build doesn't know), the fallback is used.
+ */
+export const useColumnMetadata = <T>(entity: string, fallback: ColumnMetadata<T>[]) => {
+  const { data, isLoading, error } = useQuery({
+    queryKey: metadataQueryKeys.columns(entity),
+    queryFn: ({ signal }) => fetchColumnMetadata(entity, signal),
+    staleTime: 60 * 60 * 1000, // Metadata only changes with backend releases
+    select: (response) => response.data,
+  });
+
+  const validation = useMemo(
+    () => (data === undefined ? null : validateColumnMetadata(data, isColumnTypeRegistered)),
+    [data]
+  );
+
+  useEffect(() => {
+    if (validation && !validation.valid) {
+      console.warn(
+        `Invalid column metadata for "${entity}", using the bundled columns:`,
+        validation.errors
+      );
+    }
+  }, [entity, validation]);
+
+  return {
+    // Validated server keys are trusted to match the row type
+    columns: validation?.valid ? (validation.columns as ColumnMetadata<T>[]) : fallback,
+    isFallback: !validation?.valid,
+    isLoading,
+    error,
+  };
+};
@@ -0,0 +1,21 @@
+import { useSyncExternalStore } from 'react';
+import {
+  clearContractViolations,
+  getContractViolations,
+  subscribeToContractViolations,
+} from '@/api';
+
+/**
+ * Hook to list API contract violations reported so far (newest first)
+ *
+ * Used by the dev overlay; see src/api/contracts.ts.
+ */
+export function useContractViolations() {
+  const violations = useSyncExternalStore(
+    subscribeToContractViolations,
+    getContractViolations,
+    getContractViolations
+  );
+
+  return { violations, clear: clearContractViolations };
+}
@@ -0,0 +1,70 @@
+import { createContext, useContext } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { fetchCurrentUser } from '@/api';
+import type { User } from '@/types';
+import { getActionDeniedReason, type PrivilegeLevel, type UserAction } from '@/utils';
+
+// Query keys
+export const sessionQueryKeys = {
+  all: ['session'] as const,
+  me: () => ['session', 'me'] as const,
+};
+
+export interface CurrentUserContextValue {
+  currentUser: User | null;
+  privilegeLevel: PrivilegeLevel | null;
+  isLoading: boolean;
+  isAuthenticated: boolean; // A session token is present
+  signIn: (email: string, password: string) => Promise<User>;
+  signOut: () => Promise<void>;
+}
+
+export const CurrentUserContext = createContext<CurrentUserContextValue>({
+  currentUser: null,
+  privilegeLevel: null,
+  isLoading: false,
+  isAuthenticated: false,
+  signIn: () => Promise.reject(new Error('CurrentUserProvider is missing')),
+  signOut: () => Promise.resolve(),
+});
+
+/**
+ * Hook to fetch the signed-in user (used by CurrentUserProvider)
+ */
+export const useCurrentUserQuery = (enabled: boolean) => {
+  return useQuery({
+    queryKey: sessionQueryKeys.me(),
+    queryFn: ({ signal }) => fetchCurrentUser(signal),
+    select: (response) => response.data ?? null,
+    enabled,
+    retry: false,
+  });
+};
+
+/**
+ * Hook to read the signed-in user, sign in/out and check what they may do
+ *
+ * `getDeniedReason` mirrors the server's permission rules, so the UI can
+ * disable actions up front and explain why instead of waiting for a 403.
+ */
+export const useCurrentUser = () => {
+  const { currentUser, privilegeLevel, isLoading, isAuthenticated, signIn, signOut } =
+    useContext(CurrentUserContext);
+
+  const getDeniedReason = (target: User, action: UserAction): string | null => {
+    if (isLoading) return 'Checking your permissions...';
+    if (!privilegeLevel) return 'Unable to verify your permissions';
+    return getActionDeniedReason(privilegeLevel, target, action);
+  };
+
+  return {
+    currentUser,
+    privilegeLevel,
+    isLoading,
+    isAuthenticated,
+    signIn,
+    signOut,
+    getDeniedReason,
+    can: (target: User, action: UserAction) => getDeniedReason(target, action) === null,
+  };
+};
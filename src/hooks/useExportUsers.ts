@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchAllUsers } from '@/api';
+import { toCsv, toJson, downloadFile, formatCellValue, type ExportFormat } from '@/utils';
+import type { ColumnMetadata, PaginationParams, User } from '@/types';
+
+// Loaded/total users while an export is fetching
+export interface ExportProgress {
+  loaded: number;
+  total: number;
+}
+
+const mimeTypes: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+};
+
+/**
+ * Hook to export every user matching the current filters and sort
+ *
+ * Fetches all pages in batches (not just the visible page), formats the
+ * given columns and downloads the result as CSV or JSON. Unmounting
+ * cancels an export in progress, which then resolves to null.
+ */
+export const useExportUsers = () => {
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Stop fetching once nobody is waiting for the file
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const exportUsers = useCallback(
+    async (
+      format: ExportFormat,
+      params: Omit<PaginationParams, 'page' | 'pageSize'>,
+      columns: ColumnMetadata<User>[]
+    ): Promise<number | null> => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
+      setProgress({ loaded: 0, total: 0 });
+      try {
+        const users = await fetchAllUsers(
+          params,
+          (loaded, total) => setProgress({ loaded, total }),
+          controller.signal
+        );
+        const content =
+          format === 'csv'
+            ? toCsv(users, columns, formatCellValue)
+            : toJson(users, columns, formatCellValue);
+        const date = new Date().toISOString().slice(0, 10);
+        downloadFile(content, `users-${date}.${format}`, mimeTypes[format]);
+        return users.length;
+      } catch (error) {
+        if (controller.signal.aborted) return null;
+        throw error;
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setProgress(null);
+        }
+      }
+    },
+    []
+  );
+
+  return { exportUsers, isExporting: progress !== null, progress };
+};
@@ -0,0 +1,125 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchGroups,
+  fetchRoles,
+  createGroup,
+  updateGroup,
+  deleteGroup,
+  createRole,
+  updateRole,
+} from '@/api';
+import type { GroupInput, RoleInput } from '@/types';
+import { userQueryKeys } from './useUsers';
+
+// Query keys
+export const groupQueryKeys = {
+  all: ['groups'] as const,
+  list: () => ['groups', 'list'] as const,
+};
+
+export const roleQueryKeys = {
+  all: ['roles'] as const,
+  list: () => ['roles', 'list'] as const,
+};
+
+/**
+ * Hook to fetch all groups
+ *
+ * Groups change rarely, so they stay fresh for the session's default stale time.
+ */
+export const useGroups = () => {
+  return useQuery({
+    queryKey: groupQueryKeys.list(),
+    queryFn: ({ signal }) => fetchGroups(signal),
+    select: (response) => response.data ?? [],
+  });
+};
+
+/**
+ * Hook to fetch all roles
+ */
+export const useRoles = () => {
+  return useQuery({
+    queryKey: roleQueryKeys.list(),
+    queryFn: ({ signal }) => fetchRoles(signal),
+    select: (response) => response.data ?? [],
+  });
+};
+
+/**
+ * Users embed their groups and roles, and groups embed their roles,
+ * so any group/role change refreshes all three
+ */
+const useInvalidateMembership = () => {
+  const queryClient = useQueryClient();
+
+  return () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: groupQueryKeys.all }),
+      queryClient.invalidateQueries({ queryKey: roleQueryKeys.all }),
+      queryClient.invalidateQueries({ queryKey: userQueryKeys.all }),
+    ]);
+};
+
+/**
+ * Hook to create a group
+ */
+export const useCreateGroup = () => {
+  const invalidateMembership = useInvalidateMembership();
+
+  return useMutation({
+    mutationFn: (input: GroupInput) => createGroup(input),
+    onSuccess: invalidateMembership,
+  });
+};
+
+/**
+ * Hook to rename a group or change its roles
+ */
+export const useUpdateGroup = () => {
+  const invalidateMembership = useInvalidateMembership();
+
+  return useMutation({
+    mutationFn: ({ groupId, input }: { groupId: string; input: GroupInput }) =>
+      updateGroup(groupId, input),
+    onSuccess: invalidateMembership,
+  });
+};
+
+/**
+ * Hook to delete a group, optionally reassigning its members
+ */
+export const useDeleteGroup = () => {
+  const invalidateMembership = useInvalidateMembership();
+
+  return useMutation({
+    mutationFn: ({ groupId, reassignToGroupId }: { groupId: string; reassignToGroupId?: string }) =>
+      deleteGroup(groupId, reassignToGroupId),
+    onSuccess: invalidateMembership,
+  });
+};
+
+/**
+ * Hook to create a role
+ */
+export const useCreateRole = () => {
+  const invalidateMembership = useInvalidateMembership();
+
+  return useMutation({
+    mutationFn: (input: RoleInput) => createRole(input),
+    onSuccess: invalidateMembership,
+  });
+};
+
+/**
+ * Hook to rename a role
+ */
+export const useUpdateRole = () => {
+  const invalidateMembership = useInvalidateMembership();
+
+  return useMutation({
+    mutationFn: ({ roleId, input }: { roleId: string; input: RoleInput }) =>
+      updateRole(roleId, input),
+    onSuccess: invalidateMembership,
+  });
+};
@@ -0,0 +1,119 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ColumnMetadata } from '@/types';
+import { useLocalStorage, useTablePreferences } from './useLocalStorage';
+
+const STORAGE_KEY = 'table-preferences-test-table';
+
+const columns: ColumnMetadata[] = [
+  { key: 'name', header: 'Name', type: 'string' },
+  { key: 'email', header: 'Email', type: 'string' },
+];
+
+describe('useTablePreferences', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should migrate unversioned preferences and store them in an envelope', () => {
+    window.localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({ columnVisibility: { email: false }, sorting: [], density: 'compact' })
+    );
+    const { result } = renderHook(() => useTablePreferences('test-table'));
+
+    expect(result.current.storageError).toBeNull();
+    expect(result.current.preferences).toEqual({
+      columnVisibility: { email: false },
+      sorting: [],
+      density: 'compact',
+      columnOrder: [],
+      columnSizing: {},
+      columnPinning: null,
+    });
+    expect(JSON.parse(window.localStorage.getItem(STORAGE_KEY)!).version).toBe(2);
+  });
+
+  it('should drop malformed entries and entries for removed columns', () => {
+    window.localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify({
+        version: 2,
+        data: {
+          columnVisibility: { email: 'no', removed: false },
+          sorting: [{ id: 'removed', desc: true }, { id: 'name', desc: false }, 'email'],
+          density: 'huge',
+          columnOrder: ['email', 3, 'name'],
+          columnSizing: { name: 240, email: -5 },
+          columnPinning: { left: ['removed'], right: [] },
+        },
+      })
+    );
+    const { result } = renderHook(() => useTablePreferences('test-table', columns));
+
+    expect(result.current.preferences).toEqual({
+      columnVisibility: {},
+      sorting: [{ id: 'name', desc: false }],
+      density: 'comfortable',
+      columnOrder: ['email', 'name'],
+      columnSizing: { name: 240 },
+      columnPinning: { left: [], right: [] },
+    });
+  });
+
+  it('should report preferences that cannot be restored and use the defaults', () => {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: 2, data: ['name'] }));
+    const { result } = renderHook(() => useTablePreferences('test-table', columns));
+
+    expect(result.current.storageError).toBe('Stored value is invalid: expected an object');
+    expect(result.current.preferences.density).toBe('comfortable');
+  });
+});
+
+describe('useLocalStorage sync', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should keep instances with the same key in sync within a tab', async () => {
+    const first = renderHook(() => useLocalStorage('sync-key', 'comfortable'));
+    const second = renderHook(() => useLocalStorage('sync-key', 'comfortable'));
+
+    act(() => first.result.current[1]('compact'));
+    await act(async () => {});
+
+    expect(second.result.current[0]).toBe('compact');
+    expect(window.localStorage.getItem('sync-key')).toBe('"compact"');
+  });
+
+  it('should apply the latest stored value on storage events without writing it back', () => {
+    const { result } = renderHook(() => useLocalStorage('sync-key', 'comfortable'));
+    const setItem = vi.spyOn(Storage.prototype, 'setItem');
+
+    // Another tab wrote twice; its events can arrive after both writes
+    window.localStorage.setItem('sync-key', '"compact"');
+    window.localStorage.setItem('sync-key', '"spacious"');
+    setItem.mockClear();
+    act(() => {
+      window.dispatchEvent(
+        new StorageEvent('storage', {
+          key: 'sync-key',
+          newValue: '"compact"',
+          storageArea: window.localStorage,
+        })
+      );
+    });
+
+    expect(result.current[0]).toBe('spacious');
+    expect(setItem).not.toHaveBeenCalled();
+  });
+});
@@ -1,37 +1,143 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { ColumnMetadata } from '@/types';
+import { readVersionedValue, wrapVersionedValue, type StorageSchema } from '@/utils';
+
+// Parse a raw stored value, falling back to the initial value when it is
+// missing or can't be migrated to the schema's version
+function parseStoredValue<T>(
+  key: string,
+  raw: string | null,
+  initialValue: T,
+  schema?: StorageSchema<T>
+): { value: T; error: string | null } {
+  try {
+    if (raw === null) return { value: initialValue, error: null };
+    if (!schema) return { value: JSON.parse(raw), error: null };
+
+    const result = readVersionedValue(raw, schema);
+    if (result.ok) return { value: result.value, error: null };
+    console.warn(`Discarding localStorage key "${key}": ${result.error}`);
+    return { value: initialValue, error: result.error };
+  } catch (error) {
+    console.warn(`Error reading localStorage key "${key}":`, error);
+    return { value: initialValue, error: null };
+  }
+}
+
+function readStoredValue<T>(key: string, initialValue: T, schema?: StorageSchema<T>) {
+  let raw: string | null = null;
+  try {
+    raw = window.localStorage.getItem(key);
+  } catch (error) {
+    console.warn(`Error reading localStorage key "${key}":`, error);
+  }
+  return parseStoredValue(key, raw, initialValue, schema);
+}
+
+/**
+ * Same-tab change notifications
+ *
+ * `storage` events only reach other tabs, so hook instances in this tab
+ * are told about writes directly. Writes in the same tick are flushed
+ * together, once per key.
+ */
+const storageListeners = new Map<string, Set<() => void>>();
+const pendingKeys = new Set<string>();
+
+const flushStorageListeners = () => {
+  const keys = [...pendingKeys];
+  pendingKeys.clear();
+  keys.forEach((key) => storageListeners.get(key)?.forEach((listener) => listener()));
+};
+
+const notifyStorageListeners = (key: string) => {
+  if (pendingKeys.size === 0) queueMicrotask(flushStorageListeners);
+  pendingKeys.add(key);
+};
+
+const subscribeToKey = (key: string, listener: () => void) => {
+  const listeners = storageListeners.get(key) ?? new Set();
+  listeners.add(listener);
+  storageListeners.set(key, listeners);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) storageListeners.delete(key);
+  };
+};
 
 /**
  * Custom hook to persist state in localStorage
  *
  * Features:
  * - Automatically syncs state with localStorage
+ * - Keeps every instance with the same key in sync, in this tab and in
+ *   other tabs; the last write to storage wins
  * - Type-safe with generics
  * - Handles JSON serialization/deserialization
+ * - Optional versioned schema: stored values are migrated and validated on
+ *   read, and a value that can't be restored is reported (4th element)
+ *   and replaced by the initial value
  * - Graceful error handling for storage failures
  */
 export function useLocalStorage<T>(
   key: string,
-  initialValue: T
-): [T, (value: T | ((prev: T) => T)) => void, () => void] {
+  initialValue: T,
+  schema?: StorageSchema<T>
+): [T, (value: T | ((prev: T) => T)) => void, () => void, string | null] {
   // Get initial value from localStorage or use provided initial value
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : initialValue;
-    } catch (error) {
-      console.warn(`Error reading localStorage key "${key}":`, error);
-      return initialValue;
-    }
-  });
+  const [initialRead] = useState(() => readStoredValue(key, initialValue, schema));
+  const [storedValue, setStoredValue] = useState<T>(initialRead.value);
+  const [readError, setReadError] = useState<string | null>(initialRead.error);
+  const version = schema?.version;
+  // Raw value this instance last wrote or applied, to ignore its own echoes
+  const lastRawRef = useRef<string | null>(null);
 
-  // Update localStorage when state changes
+  // Update localStorage when state changes. Values received from another
+  // instance already match storage, so they aren't written back.
   useEffect(() => {
     try {
-      window.localStorage.setItem(key, JSON.stringify(storedValue));
+      const value = version === undefined ? storedValue : wrapVersionedValue(storedValue, version);
+      const raw = JSON.stringify(value);
+      lastRawRef.current = raw;
+      if (raw === window.localStorage.getItem(key)) return;
+      window.localStorage.setItem(key, raw);
+      notifyStorageListeners(key);
     } catch (error) {
       console.warn(`Error setting localStorage key "${key}":`, error);
     }
-  }, [key, storedValue]);
+  }, [key, storedValue, version]);
+
+  // Apply writes made by other instances, here or in other tabs. The
+  // current stored value is read rather than the event's, so the latest
+  // write wins even when events arrive out of order.
+  useEffect(() => {
+    const sync = () => {
+      let raw: string | null;
+      try {
+        raw = window.localStorage.getItem(key);
+      } catch {
+        return;
+      }
+      if (raw === lastRawRef.current) return;
+      lastRawRef.current = raw;
+
+      const { value, error } = parseStoredValue(key, raw, initialValue, schema);
+      if (!error) setStoredValue(value);
+    };
+    const handleStorage = (event: StorageEvent) => {
+      // A null key means storage was cleared
+      if (event.storageArea === window.localStorage && (event.key === key || event.key === null)) {
+        sync();
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    const unsubscribe = subscribeToKey(key, sync);
+    return () => {
+      window.removeEventListener('storage', handleStorage);
+      unsubscribe();
+    };
+  }, [key, initialValue, schema]);
 
   // Setter function that handles both direct values and updater functions
   const setValue = useCallback((value: T | ((prev: T) => T)) => {
@@ -45,34 +151,155 @@ export function useLocalStorage<T>(
   const removeValue = useCallback(() => {
     try {
       window.localStorage.removeItem(key);
+      notifyStorageListeners(key);
       setStoredValue(initialValue);
+      setReadError(null);
     } catch (error) {
       console.warn(`Error removing localStorage key "${key}":`, error);
     }
   }, [key, initialValue]);
 
-  return [storedValue, setValue, removeValue];
+  return [storedValue, setValue, removeValue, readError];
 }
 
 /**
- * Hook specifically for table preferences
+ * A table's persisted preferences
  */
 export interface TablePreferences {
   columnVisibility: Record<string, boolean>;
   sorting: { id: string; desc: boolean }[];
   density: 'comfortable' | 'compact' | 'spacious';
+  columnOrder: string[]; // Column keys; empty = metadata order
+  columnSizing: Record<string, number>; // Pixel widths overriding metadata `width`
+  columnPinning: { left: string[]; right: string[] } | null; // null = metadata `pinned`
 }
 
 const defaultTablePreferences: TablePreferences = {
   columnVisibility: {},
   sorting: [],
   density: 'comfortable',
+  columnOrder: [],
+  columnSizing: {},
+  columnPinning: null,
 };
 
-export function useTablePreferences(tableId: string) {
-  const [preferences, setPreferences, resetPreferences] = useLocalStorage<TablePreferences>(
-    `table-preferences-${tableId}`,
-    defaultTablePreferences
+const DENSITIES: TablePreferences['density'][] = ['comfortable', 'compact', 'spacious'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const isSortEntry = (value: unknown): value is TablePreferences['sorting'][number] =>
+  isRecord(value) && typeof value.id === 'string' && typeof value.desc === 'boolean';
+
+// Entries of a stored record whose values pass the check
+const pickEntries = <V>(value: unknown, check: (entry: unknown) => entry is V): Record<string, V> =>
+  isRecord(value)
+    ? Object.fromEntries(
+        Object.entries(value).filter((entry): entry is [string, V] => check(entry[1]))
+      )
+    : {};
+
+// Stored preferences with malformed fields reset and malformed entries dropped
+const parseTablePreferences = (data: unknown): TablePreferences => {
+  if (!isRecord(data)) throw new Error('expected an object');
+  const { columnVisibility, sorting, density, columnOrder, columnSizing, columnPinning } = data;
+  return {
+    columnVisibility: pickEntries(columnVisibility, (v): v is boolean => typeof v === 'boolean'),
+    sorting: Array.isArray(sorting)
+      ? sorting.filter(isSortEntry).map(({ id, desc }) => ({ id, desc }))
+      : [],
+    density: DENSITIES.includes(density as TablePreferences['density'])
+      ? (density as TablePreferences['density'])
+      : defaultTablePreferences.density,
+    columnOrder: toStringList(columnOrder),
+    columnSizing: pickEntries(columnSizing, (v): v is number => typeof v === 'number' && v > 0),
+    columnPinning: isRecord(columnPinning)
+      ? { left: toStringList(columnPinning.left), right: toStringList(columnPinning.right) }
+      : null,
+  };
+};
+
+/**
+ * Storage schema for table preferences
+ *
+ * Bump `version` and register a migration whenever TablePreferences
+ * changes shape.
+ * - v1: column visibility, sorting and density
+ * - v2: column order, sizing and pinning
+ */
+export const tablePreferencesSchema: StorageSchema<TablePreferences> = {
+  version: 2,
+  migrations: {
+    2: (data) => {
+      if (!isRecord(data)) throw new Error('expected an object');
+      return { ...data, columnOrder: [], columnSizing: {}, columnPinning: null };
+    },
+  },
+  parse: parseTablePreferences,
+};
+
+/**
+ * Drop saved entries for columns that are no longer in the metadata
+ * (e.g. sorting by a removed column)
+ */
+export function pruneTablePreferences<T>(
+  preferences: TablePreferences,
+  columns: ColumnMetadata<T>[]
+): TablePreferences {
+  const keys = new Set<string>(columns.map((col) => col.key));
+  const isKnown = (key: string) => keys.has(key);
+  const pickKnown = <V>(record: Record<string, V>) =>
+    Object.fromEntries(Object.entries(record).filter(([key]) => isKnown(key)));
+
+  return {
+    ...preferences,
+    columnVisibility: pickKnown(preferences.columnVisibility),
+    sorting: preferences.sorting.filter((sort) => isKnown(sort.id)),
+    columnOrder: preferences.columnOrder.filter(isKnown),
+    columnSizing: pickKnown(preferences.columnSizing),
+    columnPinning: preferences.columnPinning && {
+      left: preferences.columnPinning.left.filter(isKnown),
+      right: preferences.columnPinning.right.filter(isKnown),
+    },
+  };
+}
+
+const getTablePreferencesKey = (tableId: string) => `table-preferences-${tableId}`;
+
+/**
+ * Read a table's saved preferences outside of React state
+ */
+export function readTablePreferences(tableId: string): TablePreferences {
+  return readStoredValue(
+    getTablePreferencesKey(tableId),
+    defaultTablePreferences,
+    tablePreferencesSchema
+  ).value;
+}
+
+/**
+ * Hook for a table's persisted preferences
+ *
+ * When `columns` is given, entries for columns that no longer exist are
+ * left out. They stay in storage until the next change rewrites that
+ * preference, so a column missing only from the fallback metadata keeps
+ * its settings. `storageError` is set when the stored preferences could
+ * not be restored and the defaults were used instead.
+ */
+export function useTablePreferences<T>(tableId: string, columns?: ColumnMetadata<T>[]) {
+  const [storedPreferences, setPreferences, resetPreferences, storageError] =
+    useLocalStorage<TablePreferences>(
+      getTablePreferencesKey(tableId),
+      defaultTablePreferences,
+      tablePreferencesSchema
+    );
+
+  const preferences = useMemo(
+    () => (columns ? pruneTablePreferences(storedPreferences, columns) : storedPreferences),
+    [storedPreferences, columns]
   );
 
   const updateColumnVisibility = useCallback(
@@ -96,11 +323,39 @@ export function useTablePreferences(tableId: string) {
     [setPreferences]
   );
 
+  const updateColumnOrder = useCallback(
+    (columnOrder: string[]) => {
+      setPreferences((prev) => ({ ...prev, columnOrder }));
+    },
+    [setPreferences]
+  );
+
+  const updateColumnSizing = useCallback(
+    (columnSizing: Record<string, number>) => {
+      setPreferences((prev) => ({ ...prev, columnSizing }));
+    },
+    [setPreferences]
+  );
+
+  const updateColumnPinning = useCallback(
+    (columnPinning: { left: string[]; right: string[] }) => {
+      setPreferences((prev) => ({ ...prev, columnPinning }));
+    },
+    [setPreferences]
+  );
+
   return {
     preferences,
     updateColumnVisibility,
     updateSorting,
     updateDensity,
+    updateColumnOrder,
+    updateColumnSizing,
+    updateColumnPinning,
     resetPreferences,
+    storageError,
   };
 }
+
+// A table's preferences with their updaters, as shared with DynamicGrid
+export type TablePreferencesState = ReturnType<typeof useTablePreferences>;
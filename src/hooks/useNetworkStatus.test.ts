@@ -0,0 +1,119 @@
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+type NetworkStatusModule = typeof import('./useNetworkStatus');
+
+const healthyResponse = () =>
+  new Response(JSON.stringify({ success: true, data: { status: 'ok' } }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+// Let the pending heartbeat run and its fetch settle
+const runHeartbeat = (ms = 0) =>
+  act(async () => {
+    await vi.advanceTimersByTimeAsync(ms);
+  });
+
+describe('useNetworkStatus', () => {
+  let networkStatus: NetworkStatusModule;
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('fetch', fetchMock);
+    fetchMock.mockReset();
+    // Fresh heartbeat state for every test
+    vi.resetModules();
+    networkStatus = await import('./useNetworkStatus');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should report online with latency after a successful health check', async () => {
+    fetchMock.mockResolvedValue(healthyResponse());
+    const { result } = renderHook(() => networkStatus.useNetworkStatus());
+
+    await runHeartbeat();
+
+    expect(fetchMock).toHaveBeenCalledWith('/api/health', expect.anything());
+    expect(result.current.status).toBe('online');
+    expect(result.current.latencyMs).toBe(0);
+    expect(result.current.lastSuccessAt).toBe(Date.now());
+  });
+
+  it('should go degraded, then offline, while the API is unreachable', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+    const { result } = renderHook(() => networkStatus.useNetworkStatus());
+
+    await runHeartbeat();
+    expect(result.current.status).toBe('degraded');
+    expect(result.current.isOnline).toBe(true);
+
+    // Retried after the first backoff step
+    await runHeartbeat(2_000);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(result.current.status).toBe('offline');
+    expect(result.current.isBrowserOffline).toBe(false);
+
+    fetchMock.mockResolvedValue(healthyResponse());
+    await runHeartbeat(3_999);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await runHeartbeat(1);
+    expect(result.current.status).toBe('online');
+  });
+
+  it('should stay degraded while the API answers with errors', async () => {
+    fetchMock.mockImplementation(async () =>
+      new Response(JSON.stringify({ success: false, error: 'Unavailable' }), { status: 503 })
+    );
+    const { result } = renderHook(() => networkStatus.useNetworkStatus());
+
+    await runHeartbeat();
+    await runHeartbeat(2_000);
+    await runHeartbeat(4_000);
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(result.current.status).toBe('degraded');
+    expect(result.current.lastSuccessAt).toBeNull();
+  });
+
+  it('should treat a captive portal page as unreachable', async () => {
+    fetchMock.mockImplementation(async () => new Response('<html>Sign in</html>', { status: 200 }));
+    const { result } = renderHook(() => networkStatus.useNetworkStatus());
+
+    await runHeartbeat();
+    await runHeartbeat(2_000);
+
+    expect(result.current.status).toBe('offline');
+  });
+
+  it('should report offline without probing when the browser is offline', async () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    const { result } = renderHook(() => networkStatus.useNetworkStatus());
+
+    await runHeartbeat();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(result.current.isOffline).toBe(true);
+    expect(result.current.isBrowserOffline).toBe(true);
+  });
+});
+
+describe('isNetworkError', () => {
+  it('should classify errors by type rather than message', async () => {
+    // Same module instances as the hook tests, which reset modules
+    const { NetworkRequestError } = await import('@/api');
+    const { isNetworkError } = await import('./useNetworkStatus');
+
+    expect(isNetworkError(new NetworkRequestError('Unable to reach the server'))).toBe(true);
+    expect(isNetworkError(new DOMException('Timed out', 'TimeoutError'))).toBe(true);
+    expect(isNetworkError(new Error('Connection limit reached for this network'))).toBe(false);
+    expect(isNetworkError(new DOMException('Aborted', 'AbortError'))).toBe(false);
+    expect(isNetworkError(null)).toBe(false);
+  });
+});
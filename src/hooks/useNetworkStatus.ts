@@ -1,54 +1,188 @@
-import { useState, useEffect } from 'react';
+import { useSyncExternalStore } from 'react';
+import { checkHealth, NetworkRequestError } from '@/api';
 
 /**
- * Hook to detect online/offline network status
+ * Connectivity as seen by the app
  *
- * Returns:
- * - isOnline: boolean indicating current network status
- * - isOffline: boolean indicating if user is offline
+ * - online: the API answered the last health check quickly
+ * - degraded: the API is slow, answering with errors, or just missed a check
+ * - offline: the browser has no network, or the API can't be reached
  */
-export function useNetworkStatus() {
-  const [isOnline, setIsOnline] = useState(() => {
-    // Check if navigator.onLine is available (it may not be in SSR)
-    return typeof navigator !== 'undefined' ? navigator.onLine : true;
-  });
+export type ConnectivityStatus = 'online' | 'degraded' | 'offline';
+
+export interface NetworkStatus {
+  status: ConnectivityStatus;
+  browserOnline: boolean; // navigator.onLine; false means no network at all
+  latencyMs: number | null; // Round trip of the last successful check
+  lastSuccessAt: number | null; // When the API last answered a check
+  lastCheckedAt: number | null;
+}
+
+const HEARTBEAT_INTERVAL_MS = 30_000;
+const BACKOFF_BASE_MS = 2_000;
+const BACKOFF_MAX_MS = 60_000;
+const SLOW_LATENCY_MS = 1_500;
+// One missed check is a blip; after this many the API counts as unreachable
+const OFFLINE_AFTER_FAILURES = 2;
+
+const isBrowserOnline = () => (typeof navigator !== 'undefined' ? navigator.onLine : true);
+
+/**
+ * Shared heartbeat
+ *
+ * A single probe loop runs while at least one component is subscribed.
+ * Checks repeat every HEARTBEAT_INTERVAL_MS while the API is healthy and
+ * back off exponentially while it isn't. The browser's online/offline
+ * events trigger an immediate check (or stop checking while offline).
+ */
+let snapshot: NetworkStatus = {
+  status: isBrowserOnline() ? 'online' : 'offline',
+  browserOnline: isBrowserOnline(),
+  latencyMs: null,
+  lastSuccessAt: null,
+  lastCheckedAt: null,
+};
+let failures = 0;
+let timer: ReturnType<typeof setTimeout> | null = null;
+let inFlight = false;
+const listeners = new Set<() => void>();
+
+const setSnapshot = (changes: Partial<NetworkStatus>) => {
+  snapshot = { ...snapshot, ...changes };
+  listeners.forEach((listener) => listener());
+};
+
+const schedule = (delayMs: number) => {
+  if (timer) clearTimeout(timer);
+  timer = listeners.size > 0 ? setTimeout(probe, delayMs) : null;
+};
+
+const probe = async () => {
+  timer = null;
+  if (inFlight) return;
+  if (!isBrowserOnline()) {
+    setSnapshot({ status: 'offline', browserOnline: false });
+    return; // Resumed by the `online` event
+  }
+
+  inFlight = true;
+  const startedAt = Date.now();
+  try {
+    await checkHealth();
+    const now = Date.now();
+    const latencyMs = now - startedAt;
+    failures = 0;
+    setSnapshot({
+      status: latencyMs > SLOW_LATENCY_MS ? 'degraded' : 'online',
+      latencyMs,
+      lastSuccessAt: now,
+      lastCheckedAt: now,
+    });
+  } catch (error) {
+    failures += 1;
+    const unreachable = isNetworkError(error);
+    setSnapshot({
+      status: unreachable && failures >= OFFLINE_AFTER_FAILURES ? 'offline' : 'degraded',
+      lastCheckedAt: Date.now(),
+    });
+  } finally {
+    inFlight = false;
+  }
+
+  schedule(
+    failures === 0
+      ? HEARTBEAT_INTERVAL_MS
+      : Math.min(BACKOFF_BASE_MS * 2 ** (failures - 1), BACKOFF_MAX_MS)
+  );
+};
 
-  useEffect(() => {
-    const handleOnline = () => setIsOnline(true);
-    const handleOffline = () => setIsOnline(false);
+const handleOnline = () => {
+  failures = 0;
+  setSnapshot({ browserOnline: true });
+  schedule(0);
+};
 
+const handleOffline = () => {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  setSnapshot({ status: 'offline', browserOnline: false });
+};
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  if (listeners.size === 1) {
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
+    schedule(0);
+  }
 
-    return () => {
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
-    };
-  }, []);
+      if (timer) clearTimeout(timer);
+      timer = null;
+    }
+  };
+};
+
+// Follow navigator.onLine between events (the browser knowing it's
+// offline needs no check to confirm)
+const getSnapshot = () => {
+  if (snapshot.browserOnline !== isBrowserOnline()) {
+    snapshot = isBrowserOnline()
+      ? { ...snapshot, browserOnline: true }
+      : { ...snapshot, status: 'offline', browserOnline: false };
+  }
+  return snapshot;
+};
+
+/**
+ * Check the API now instead of waiting for the next heartbeat
+ */
+export const checkConnectivity = (): void => {
+  failures = 0;
+  schedule(0);
+};
+
+/**
+ * Hook to detect online/offline network status
+ *
+ * Backed by an active heartbeat against /api/health, since
+ * `navigator.onLine` reports "online" behind captive portals and while
+ * the API host is down.
+ *
+ * Returns:
+ * - status: 'online' | 'degraded' | 'offline'
+ * - isOnline / isOffline: whether the API is reachable at all
+ * - isDegraded: reachable, but slow or failing
+ * - isBrowserOffline: offline because there is no network at all (as
+ *   opposed to the API being unreachable)
+ * - latencyMs, lastSuccessAt, lastCheckedAt: heartbeat details
+ */
+export function useNetworkStatus() {
+  const current = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
 
   return {
-    isOnline,
-    isOffline: !isOnline,
+    ...current,
+    isOnline: current.status !== 'offline',
+    isOffline: current.status === 'offline',
+    isDegraded: current.status === 'degraded',
+    isBrowserOffline: !current.browserOnline,
+    checkNow: checkConnectivity,
   };
 }
 
 /**
  * Helper function to check if an error is a network error
+ *
+ * Only failures to get a response count (see `NetworkRequestError`);
+ * error responses from the API never do, whatever their message says.
  */
 export function isNetworkError(error: unknown): boolean {
-  if (!error) return false;
-
-  const errorMessage = error instanceof Error ? error.message.toLowerCase() : String(error).toLowerCase();
-
   return (
-    errorMessage.includes('network') ||
-    errorMessage.includes('failed to fetch') ||
-    errorMessage.includes('fetch failed') ||
-    errorMessage.includes('networkerror') ||
-    errorMessage.includes('net::') ||
-    errorMessage.includes('timeout') ||
-    errorMessage.includes('aborted') ||
-    errorMessage.includes('connection') ||
-    !navigator.onLine
+    error instanceof NetworkRequestError ||
+    (error instanceof DOMException && error.name === 'TimeoutError')
   );
 }
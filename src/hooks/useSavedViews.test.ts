@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { getUniqueViewName, isViewNameTaken } from './useSavedViews';
+
+const views = [{ name: 'Admins' }, { name: 'admins (shared)' }];
+
+describe('saved view names', () => {
+  it('should compare names ignoring case and surrounding spaces', () => {
+    expect(isViewNameTaken(views, ' ADMINS ')).toBe(true);
+    expect(isViewNameTaken(views, 'Managers')).toBe(false);
+  });
+
+  it('should pick a free name for a view that clashes', () => {
+    expect(getUniqueViewName(views, 'Managers', 'shared')).toBe('Managers');
+    expect(getUniqueViewName(views, 'ADMINS', 'shared')).toBe('ADMINS (shared 2)');
+  });
+});
@@ -0,0 +1,109 @@
+import { useCallback } from 'react';
+import { useLocalStorage } from './useLocalStorage';
+
+/**
+ * A named snapshot of a table's state (filters, sort, columns, density).
+ * The shape of `state` is up to the page that owns the table.
+ */
+export interface SavedView<S> {
+  viewId: string;
+  name: string;
+  state: S;
+}
+
+interface SavedViewsStore<S> {
+  views: SavedView<S>[];
+  defaultViewId: string | null;
+}
+
+const emptyStore: SavedViewsStore<never> = { views: [], defaultViewId: null };
+
+const createViewId = () =>
+  `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Whether a view name is in use; names are unique per table, ignoring
+ * case and surrounding spaces
+ */
+export const isViewNameTaken = (views: { name: string }[], name: string): boolean => {
+  const normalized = name.trim().toLowerCase();
+  return views.some((view) => view.name.trim().toLowerCase() === normalized);
+};
+
+/**
+ * A free name based on `name`: the name itself, else "name (label)",
+ * "name (label 2)" and so on
+ */
+export const getUniqueViewName = (
+  views: { name: string }[],
+  name: string,
+  label: string
+): string => {
+  if (!isViewNameTaken(views, name)) return name.trim();
+  let candidate = `${name.trim()} (${label})`;
+  for (let n = 2; isViewNameTaken(views, candidate); n++) {
+    candidate = `${name.trim()} (${label} ${n})`;
+  }
+  return candidate;
+};
+
+/**
+ * Hook for a table's saved views, persisted in localStorage per tableId
+ *
+ * One view may be marked as the default, which the page applies when it
+ * is opened without any state of its own in the URL.
+ */
+export function useSavedViews<S>(tableId: string) {
+  const [store, setStore] = useLocalStorage<SavedViewsStore<S>>(
+    `saved-views-${tableId}`,
+    emptyStore
+  );
+
+  // Save the state as a new view; returns it so the caller can select it
+  const saveView = useCallback(
+    (name: string, state: S): SavedView<S> => {
+      const view = { viewId: createViewId(), name: name.trim(), state };
+      setStore((prev) => ({ ...prev, views: [...prev.views, view] }));
+      return view;
+    },
+    [setStore]
+  );
+
+  // Replace a view's state (e.g. after adjusting its filters)
+  const updateView = useCallback(
+    (viewId: string, state: S) => {
+      setStore((prev) => ({
+        ...prev,
+        views: prev.views.map((view) => (view.viewId === viewId ? { ...view, state } : view)),
+      }));
+    },
+    [setStore]
+  );
+
+  const deleteView = useCallback(
+    (viewId: string) => {
+      setStore((prev) => ({
+        views: prev.views.filter((view) => view.viewId !== viewId),
+        defaultViewId: prev.defaultViewId === viewId ? null : prev.defaultViewId,
+      }));
+    },
+    [setStore]
+  );
+
+  // Mark a view as the default (null clears it)
+  const setDefaultView = useCallback(
+    (viewId: string | null) => {
+      setStore((prev) => ({ ...prev, defaultViewId: viewId }));
+    },
+    [setStore]
+  );
+
+  return {
+    views: store.views,
+    defaultView: store.views.find((view) => view.viewId === store.defaultViewId) ?? null,
+    saveView,
+    updateView,
+    deleteView,
+    setDefaultView,
+  };
+}
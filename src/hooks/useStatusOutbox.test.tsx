@@ -0,0 +1,111 @@
+import React from 'react';
+import { renderHook, act } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import type { User } from '@/types';
+import { CurrentUserContext, type CurrentUserContextValue } from './useCurrentUser';
+import { useStatusOutbox } from './useStatusOutbox';
+
+const signedInAs = (userId: string): CurrentUserContextValue => ({
+  currentUser: { userId, name: 'Admin', email: `${userId}@example.com` } as User,
+  privilegeLevel: 'admin',
+  isLoading: false,
+  isAuthenticated: true,
+  signIn: () => Promise.reject(new Error('not used')),
+  signOut: () => Promise.resolve(),
+});
+
+let session = signedInAs('admin-1');
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <QueryClientProvider client={new QueryClient()}>
+    <CurrentUserContext.Provider value={session}>{children}</CurrentUserContext.Provider>
+  </QueryClientProvider>
+);
+
+const user = { userId: 'user-1', name: 'Ada Lovelace', status: 'active' as const };
+
+describe('useStatusOutbox', () => {
+  beforeEach(() => {
+    session = signedInAs('admin-1');
+    window.localStorage.clear();
+    // Offline, so nothing is replayed during the test
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should queue changes in order and persist them', () => {
+    const { result } = renderHook(() => useStatusOutbox(), { wrapper });
+
+    act(() => result.current.enqueue(user, 'inactive'));
+    act(() => result.current.enqueue({ ...user, userId: 'user-2' }, 'inactive'));
+
+    expect(result.current.entries.map((entry) => entry.userId)).toEqual(['user-1', 'user-2']);
+    expect(result.current.entries[0]).toMatchObject({
+      ownerId: 'admin-1',
+      status: 'inactive',
+      expectedStatus: 'active',
+      state: 'pending',
+    });
+    expect(JSON.parse(window.localStorage.getItem('user-status-outbox')!).data).toHaveLength(2);
+  });
+
+  it('should drop a queued change when the user is changed back', () => {
+    const { result } = renderHook(() => useStatusOutbox(), { wrapper });
+
+    act(() => result.current.enqueue(user, 'inactive'));
+    act(() => result.current.enqueue({ ...user, status: 'inactive' }, 'active'));
+
+    expect(result.current.entries).toEqual([]);
+  });
+
+  it('should retry failed changes without the stale status check', () => {
+    window.localStorage.setItem(
+      'user-status-outbox',
+      JSON.stringify({
+        version: 1,
+        data: [
+          {
+            entryId: 'outbox-1',
+            ownerId: 'admin-1',
+            userId: 'user-1',
+            userName: 'Ada Lovelace',
+            status: 'inactive',
+            expectedStatus: 'active',
+            queuedAt: '2024-01-01T00:00:00.000Z',
+            state: 'failed',
+            error: 'Ada Lovelace was changed to inactive by someone else',
+          },
+        ],
+      })
+    );
+    const { result } = renderHook(() => useStatusOutbox(), { wrapper });
+
+    act(() => result.current.retry('outbox-1'));
+    expect(result.current.entries[0]).toMatchObject({
+      state: 'pending',
+      expectedStatus: null,
+      error: undefined,
+    });
+
+    act(() => result.current.discard('outbox-1'));
+    expect(result.current.entries).toEqual([]);
+  });
+
+  it('should keep changes queued by another account out of this session', () => {
+    const { result, rerender } = renderHook(() => useStatusOutbox(), { wrapper });
+    act(() => result.current.enqueue(user, 'inactive'));
+
+    session = signedInAs('admin-2');
+    rerender();
+
+    expect(result.current.entries).toEqual([]);
+    act(() => result.current.enqueue({ ...user, userId: 'user-2' }, 'inactive'));
+    expect(result.current.entries.map((entry) => entry.userId)).toEqual(['user-2']);
+    // The first account's change is kept for when they sign in again
+    expect(JSON.parse(window.localStorage.getItem('user-status-outbox')!).data).toHaveLength(2);
+  });
+});
@@ -0,0 +1,216 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { updateUserStatus } from '@/api';
+import type { StorageSchema } from '@/utils';
+import { useCurrentUser } from './useCurrentUser';
+import { useLocalStorage } from './useLocalStorage';
+import { useNetworkStatus, isNetworkError } from './useNetworkStatus';
+import { invalidateUserQueries, replaceUserInCache } from './useUsers';
+
+type UserStatus = 'active' | 'inactive';
+
+/**
+ * A status change waiting to be sent to the server
+ *
+ * `failed` entries were rejected by the server (e.g. the user was changed
+ * by someone else) and stay until they are retried or discarded.
+ */
+export interface StatusOutboxEntry {
+  entryId: string;
+  ownerId: string; // Signed-in user who made the change; only their session sends it
+  userId: string;
+  userName: string;
+  status: UserStatus;
+  expectedStatus: UserStatus | null; // Status the change was made from; null = overwrite
+  queuedAt: string; // When the user was first changed offline; sent as the precondition
+  state: 'pending' | 'syncing' | 'failed';
+  error?: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStatus = (value: unknown): value is UserStatus =>
+  value === 'active' || value === 'inactive';
+
+const isOutboxEntry = (value: unknown): value is StatusOutboxEntry =>
+  isRecord(value) &&
+  typeof value.entryId === 'string' &&
+  typeof value.ownerId === 'string' &&
+  typeof value.userId === 'string' &&
+  typeof value.userName === 'string' &&
+  isStatus(value.status) &&
+  (value.expectedStatus === null || isStatus(value.expectedStatus)) &&
+  typeof value.queuedAt === 'string' &&
+  (value.state === 'pending' || value.state === 'syncing' || value.state === 'failed');
+
+// A freshly loaded page isn't sending anything, so entries left `syncing`
+// by a closed tab are sent again
+const outboxSchema: StorageSchema<StatusOutboxEntry[]> = {
+  version: 1,
+  parse: (data) => {
+    if (!Array.isArray(data)) throw new Error('expected a list');
+    return data
+      .filter(isOutboxEntry)
+      .map((entry) => (entry.state === 'syncing' ? { ...entry, state: 'pending' } : entry));
+  },
+};
+
+const emptyOutbox: StatusOutboxEntry[] = [];
+
+const createEntryId = () =>
+  `outbox-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Hook for user status changes made while offline
+ *
+ * Changes are kept in a persistent outbox (localStorage) and replayed in
+ * the order they were made once the browser is back online. Each change
+ * carries the time it was made, so the server can reject it if someone
+ * else changed the user's status since; rejected changes are reported
+ * per entry and can be retried (overwriting the server) or discarded.
+ *
+ * Entries belong to the signed-in user who queued them. Other accounts
+ * signing in on the same browser neither see nor send them, so a change
+ * is never replayed with someone else's token.
+ */
+export function useStatusOutbox() {
+  const queryClient = useQueryClient();
+  const { isOnline } = useNetworkStatus();
+  const { currentUser } = useCurrentUser();
+  const ownerId = currentUser?.userId ?? null;
+  const [storedEntries, setEntries] = useLocalStorage<StatusOutboxEntry[]>(
+    'user-status-outbox',
+    emptyOutbox,
+    outboxSchema
+  );
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const entries = useMemo(
+    () => storedEntries.filter((entry) => entry.ownerId === ownerId),
+    [storedEntries, ownerId]
+  );
+
+  // Latest entries for the replay loop, which outlives a single render
+  const entriesRef = useRef(entries);
+  entriesRef.current = entries;
+
+  const updateEntry = useCallback(
+    (entryId: string, changes: Partial<StatusOutboxEntry>) => {
+      setEntries((prev) =>
+        prev.map((entry) => (entry.entryId === entryId ? { ...entry, ...changes } : entry))
+      );
+    },
+    [setEntries]
+  );
+
+  // Queue a change. A later change for the same user replaces the earlier
+  // one, and changing a user back to where it started drops it.
+  const enqueue = useCallback(
+    (user: { userId: string; name: string; status: UserStatus }, status: UserStatus) => {
+      if (!ownerId) return;
+      setEntries((prev) => {
+        const existing = prev.find(
+          (entry) =>
+            entry.ownerId === ownerId && entry.userId === user.userId && entry.state !== 'syncing'
+        );
+        const expectedStatus = existing ? existing.expectedStatus : user.status;
+        const others = prev.filter((entry) => entry !== existing);
+        if (status === expectedStatus) return others;
+
+        return [
+          ...others,
+          {
+            entryId: createEntryId(),
+            ownerId,
+            userId: user.userId,
+            userName: user.name,
+            status,
+            expectedStatus,
+            queuedAt: existing ? existing.queuedAt : new Date().toISOString(),
+            state: 'pending',
+          },
+        ];
+      });
+    },
+    [ownerId, setEntries]
+  );
+
+  // Send pending entries one at a time, oldest first, including any queued
+  // during the replay. A network error stops the replay and leaves the
+  // rest queued for the next attempt.
+  const isSyncingRef = useRef(false);
+  const replay = useCallback(async () => {
+    if (isSyncingRef.current) return;
+    isSyncingRef.current = true;
+    setIsSyncing(true);
+
+    const attempted = new Set<string>();
+    try {
+      for (;;) {
+        const entry = entriesRef.current.find(
+          (e) => e.state === 'pending' && !attempted.has(e.entryId)
+        );
+        if (!entry) break;
+        attempted.add(entry.entryId);
+
+        updateEntry(entry.entryId, { state: 'syncing' });
+        try {
+          const response = await updateUserStatus(
+            entry.userId,
+            entry.status,
+            entry.expectedStatus === null ? undefined : entry.queuedAt
+          );
+          replaceUserInCache(queryClient, response.data);
+          setEntries((prev) => prev.filter((e) => e.entryId !== entry.entryId));
+        } catch (error) {
+          if (isNetworkError(error)) {
+            updateEntry(entry.entryId, { state: 'pending' });
+            break;
+          }
+          updateEntry(entry.entryId, {
+            state: 'failed',
+            error: error instanceof Error ? error.message : 'Failed to update user status',
+          });
+        }
+      }
+    } finally {
+      isSyncingRef.current = false;
+      setIsSyncing(false);
+      invalidateUserQueries(queryClient);
+    }
+  }, [updateEntry, setEntries, queryClient]);
+
+  // Retry a rejected change, this time over whatever the server has
+  const retry = useCallback(
+    (entryId: string) => {
+      updateEntry(entryId, { state: 'pending', expectedStatus: null, error: undefined });
+    },
+    [updateEntry]
+  );
+
+  const discard = useCallback(
+    (entryId: string) => {
+      setEntries((prev) => prev.filter((entry) => entry.entryId !== entryId));
+    },
+    [setEntries]
+  );
+
+  // Replay when the connection comes back, when changes are queued while
+  // online (e.g. after a failed request) and on load
+  const hasPending = entries.some((entry) => entry.state === 'pending');
+  useEffect(() => {
+    if (isOnline && hasPending) {
+      replay();
+    }
+  }, [isOnline, hasPending, replay]);
+
+  return {
+    entries,
+    isSyncing,
+    enqueue,
+    replay,
+    retry,
+    discard,
+  };
+}
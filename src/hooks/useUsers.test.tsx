@@ -0,0 +1,84 @@
+import React from 'react';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { QueryClient, QueryClientProvider, type InfiniteData } from '@tanstack/react-query';
+import type { User, UsersApiResponse } from '@/types';
+import { useDeleteUser, useUpdateUserStatus, userQueryKeys } from './useUsers';
+
+const makeUser = (userId: string): User => ({
+  userId,
+  name: `User ${userId}`,
+  email: `${userId}@example.com`,
+  status: 'active',
+  createdAt: '2024-01-15T09:00:00.000Z',
+  groups: [],
+});
+
+const page = (users: User[]): UsersApiResponse => ({ data: { totalCount: 4, users } });
+
+const infiniteKey = userQueryKeys.infinite({ pageSize: 2 });
+
+describe('useUsers cache updates', () => {
+  let queryClient: QueryClient;
+  const fetchMock = vi.fn<typeof fetch>();
+
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+
+  const infinitePages = () =>
+    queryClient.getQueryData<InfiniteData<UsersApiResponse, number>>(infiniteKey)!.pages;
+
+  beforeEach(() => {
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    queryClient.setQueryData<InfiniteData<UsersApiResponse, number>>(infiniteKey, {
+      pages: [page([makeUser('u1'), makeUser('u2')]), page([makeUser('u3'), makeUser('u4')])],
+      pageParams: [1, 2],
+    });
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should update a status on an infinite page without refetching the pages', async () => {
+    fetchMock.mockResolvedValue(
+      new Response(
+        JSON.stringify({ success: true, data: { ...makeUser('u3'), status: 'inactive' } }),
+        { status: 200, headers: { 'Content-Type': 'application/json' } }
+      )
+    );
+    const { result } = renderHook(() => useUpdateUserStatus(), { wrapper });
+
+    act(() => result.current.mutate({ userId: 'u3', status: 'inactive' }));
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(infinitePages()[1].data.users.map((user) => user.status)).toEqual([
+      'inactive',
+      'active',
+    ]);
+    expect(queryClient.getQueryState(infiniteKey)?.isInvalidated).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should remove a deleted user from infinite pages', async () => {
+    fetchMock.mockResolvedValue(
+      new Response(JSON.stringify({ success: true, data: null }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    );
+    const { result } = renderHook(() => useDeleteUser(), { wrapper });
+
+    act(() => result.current.mutate('u1'));
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(infinitePages().map((p) => p.data.users.map((user) => user.userId))).toEqual([
+      ['u2'],
+      ['u3', 'u4'],
+    ]);
+    expect(infinitePages().map((p) => p.data.totalCount)).toEqual([3, 3]);
+  });
+});
@@ -1,20 +1,271 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { fetchUsers, updateUserStatus } from '@/api';
-import type { PaginationParams, UsersApiResponse } from '@/types';
+import { useEffect, useRef } from 'react';
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+} from '@tanstack/react-query';
+import {
+  fetchUsers,
+  fetchUserById,
+  createUser,
+  importUsers,
+  updateUser,
+  deleteUser,
+  updateUserStatus,
+  bulkUpdateUsers,
+} from '@/api';
+import type {
+  ApiResponse,
+  BulkUserUpdate,
+  Group,
+  PaginationParams,
+  User,
+  UserInput,
+  UserImportRow,
+  UsersApiResponse,
+} from '@/types';
+import { groupQueryKeys } from './useGroups';
+import { useNetworkStatus } from './useNetworkStatus';
 
 // Query keys
 export const userQueryKeys = {
   all: ['users'] as const,
+  lists: () => ['users', 'list'] as const,
   list: (params: PaginationParams) => ['users', 'list', params] as const,
+  infiniteLists: () => ['users', 'list', 'infinite'] as const,
+  infinite: (params: Omit<PaginationParams, 'page'>) =>
+    ['users', 'list', 'infinite', params] as const,
+  detail: (userId: string) => ['users', 'detail', userId] as const,
+};
+
+// A cached users list: one page (useUsers) or every page loaded so far
+// (useInfiniteUsers). Other user queries (details) pass through untouched.
+type UsersCacheEntry = UsersApiResponse | InfiniteData<UsersApiResponse, number>;
+
+const isInfiniteEntry = (
+  entry: UsersCacheEntry
+): entry is InfiniteData<UsersApiResponse, number> => 'pages' in entry;
+
+// Users held by a cached list, in order
+const usersInCache = (entry: UsersCacheEntry | undefined): User[] => {
+  if (!entry) return [];
+  if (isInfiniteEntry(entry)) return entry.pages.flatMap((page) => page.data?.users ?? []);
+  return entry.data?.users ?? [];
+};
+
+// Apply `update` to the users of a cached list, in either shape. Users it
+// removes are taken off `totalCount` (on every page of an infinite list).
+const mapUsersInCache = (
+  entry: UsersCacheEntry | undefined,
+  update: (users: User[]) => User[]
+): UsersCacheEntry | undefined => {
+  if (!entry) return entry;
+
+  const pages = isInfiniteEntry(entry) ? entry.pages : [entry];
+  if (!pages.some((page) => page.data?.users)) return entry;
+
+  let removed = 0;
+  const updatedUsers = pages.map((page) => {
+    if (!page.data?.users) return page.data?.users;
+    const users = update(page.data.users);
+    removed += page.data.users.length - users.length;
+    return users;
+  });
+  const updatedPages = pages.map((page, index) => {
+    const users = updatedUsers[index];
+    if (!page.data || !users) return page;
+    return { ...page, data: { totalCount: page.data.totalCount - removed, users } };
+  });
+
+  return isInfiniteEntry(entry) ? { ...entry, pages: updatedPages } : updatedPages[0];
+};
+
+// Put the server's copy of a user into every cached list that holds it
+export const replaceUserInCache = (queryClient: QueryClient, updated: User) => {
+  queryClient.setQueriesData<UsersCacheEntry>({ queryKey: userQueryKeys.lists() }, (old) =>
+    mapUsersInCache(old, (users) =>
+      users.map((user) => (user.userId === updated.userId ? updated : user))
+    )
+  );
+};
+
+// Refetch user queries after a change. Infinite lists are only marked
+// stale: refetching one reloads every page it holds, one after another,
+// so they keep the cache update until they are next viewed.
+export const invalidateUserQueries = (queryClient: QueryClient) => {
+  queryClient.invalidateQueries({
+    queryKey: userQueryKeys.all,
+    predicate: (query) => query.queryKey[2] !== 'infinite',
+  });
+  queryClient.invalidateQueries({ queryKey: userQueryKeys.infiniteLists(), refetchType: 'none' });
 };
 
 /**
  * Hook to fetch users with pagination and filters
  */
-export const useUsers = (params: PaginationParams) => {
+export const useUsers = (params: PaginationParams, options: { enabled?: boolean } = {}) => {
   return useQuery({
     queryKey: userQueryKeys.list(params),
-    queryFn: () => fetchUsers(params),
+    queryFn: ({ signal }) => fetchUsers(params, signal),
+    enabled: options.enabled,
+  });
+};
+
+/**
+ * Hook to fetch users a page at a time for infinite scrolling
+ *
+ * Pages are loaded with the same filters and sort as useUsers and kept
+ * under the list keys, so mutations that refetch lists refresh them too.
+ */
+export const useInfiniteUsers = (
+  params: Omit<PaginationParams, 'page'>,
+  options: { enabled?: boolean } = {}
+) => {
+  return useInfiniteQuery({
+    queryKey: userQueryKeys.infinite(params),
+    queryFn: ({ pageParam, signal }) => fetchUsers({ ...params, page: pageParam }, signal),
+    initialPageParam: 1,
+    // Stop at the last page, or at an empty page if users were removed
+    // meanwhile (quarantined users count as received)
+    getNextPageParam: (lastPage, allPages) => {
+      const receivedCount = (page: UsersApiResponse) =>
+        (page.data?.users.length ?? 0) + (page.quarantined?.length ?? 0);
+      if (!lastPage.data || receivedCount(lastPage) === 0) return undefined;
+      const loadedCount = allPages.reduce((count, page) => count + receivedCount(page), 0);
+      return loadedCount < lastPage.data.totalCount ? allPages.length + 1 : undefined;
+    },
+    enabled: options.enabled,
+  });
+};
+
+/**
+ * Hook to fetch a single user
+ *
+ * Seeded from any cached list page containing the user, so the detail
+ * view renders instantly when navigating from the table and then
+ * refetches once that list data is stale.
+ */
+export const useUser = (userId: string) => {
+  const queryClient = useQueryClient();
+
+  const findInLists = () => {
+    const lists = queryClient.getQueriesData<UsersCacheEntry>({
+      queryKey: userQueryKeys.lists(),
+    });
+    for (const [queryKey, list] of lists) {
+      const user = usersInCache(list).find((u) => u.userId === userId);
+      if (user) {
+        return { user, updatedAt: queryClient.getQueryState(queryKey)?.dataUpdatedAt };
+      }
+    }
+    return undefined;
+  };
+
+  return useQuery({
+    queryKey: userQueryKeys.detail(userId),
+    queryFn: ({ signal }) => fetchUserById(userId, signal),
+    select: (response) => response.data,
+    initialData: (): ApiResponse<User> | undefined => {
+      const cached = findInLists();
+      return cached ? { success: true, data: cached.user } : undefined;
+    },
+    initialDataUpdatedAt: () => findInLists()?.updatedAt,
+  });
+};
+
+/**
+ * Hook to create a user
+ *
+ * The new user's position depends on server-side sorting and filters,
+ * so list pages are refetched rather than patched.
+ */
+export const useCreateUser = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UserInput) => createUser(input),
+
+    onSuccess: (response) => {
+      if (response.data) {
+        queryClient.setQueryData(userQueryKeys.detail(response.data.userId), response);
+      }
+      queryClient.invalidateQueries({ queryKey: userQueryKeys.lists() });
+    },
+  });
+};
+
+/**
+ * Hook to validate (dryRun) or run a user import
+ *
+ * Only a committed import changes data, so only then are lists refetched.
+ */
+export const useImportUsers = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ rows, dryRun }: { rows: UserImportRow[]; dryRun: boolean }) =>
+      importUsers(rows, dryRun),
+
+    onSuccess: (response) => {
+      if (!response.data?.dryRun) {
+        queryClient.invalidateQueries({ queryKey: userQueryKeys.lists() });
+      }
+    },
+  });
+};
+
+/**
+ * Hook to edit a user
+ *
+ * Replaces the user in every cached page and the detail cache as soon as
+ * the server confirms, then refetches in case sort/filter order changed.
+ */
+export const useUpdateUser = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, input }: { userId: string; input: UserInput }) =>
+      updateUser(userId, input),
+
+    onSuccess: (response) => {
+      const updated = response.data;
+      if (!updated) return;
+
+      replaceUserInCache(queryClient, updated);
+      queryClient.setQueryData(userQueryKeys.detail(updated.userId), response);
+    },
+
+    onSettled: () => {
+      invalidateUserQueries(queryClient);
+    },
+  });
+};
+
+/**
+ * Hook to delete a user
+ *
+ * Removes the user from cached pages once the server confirms and
+ * drops the detail cache entry.
+ */
+export const useDeleteUser = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (userId: string) => deleteUser(userId),
+
+    onSuccess: (_response, userId) => {
+      queryClient.setQueriesData<UsersCacheEntry>({ queryKey: userQueryKeys.lists() }, (old) =>
+        mapUsersInCache(old, (users) => users.filter((user) => user.userId !== userId))
+      );
+      queryClient.removeQueries({ queryKey: userQueryKeys.detail(userId) });
+    },
+
+    onSettled: () => {
+      invalidateUserQueries(queryClient);
+    },
   });
 };
 
@@ -37,25 +288,15 @@ export const useUpdateUserStatus = () => {
       await queryClient.cancelQueries({ queryKey: userQueryKeys.all });
 
       // Snapshot the previous value for all user queries
-      const previousQueries = queryClient.getQueriesData<UsersApiResponse>({
+      const previousQueries = queryClient.getQueriesData<UsersCacheEntry>({
         queryKey: userQueryKeys.all
       });
 
       // Optimistically update all matching queries
-      queryClient.setQueriesData<UsersApiResponse>(
-        { queryKey: userQueryKeys.all },
-        (old) => {
-          if (!old?.data?.users) return old;
-          return {
-            ...old,
-            data: {
-              ...old.data,
-              users: old.data.users.map((user) =>
-                user.userId === userId ? { ...user, status } : user
-              ),
-            },
-          };
-        }
+      queryClient.setQueriesData<UsersCacheEntry>({ queryKey: userQueryKeys.all }, (old) =>
+        mapUsersInCache(old, (users) =>
+          users.map((user) => (user.userId === userId ? { ...user, status } : user))
+        )
       );
 
       // Return context with previous value for rollback
@@ -73,19 +314,127 @@ export const useUpdateUserStatus = () => {
 
     // Always refetch after error or success to ensure sync with server
     onSettled: () => {
-      queryClient.invalidateQueries({ queryKey: userQueryKeys.all });
+      invalidateUserQueries(queryClient);
+    },
+  });
+};
+
+/**
+ * Hook to bulk update status and/or group membership
+ *
+ * Applies the change optimistically to every cached page, like
+ * useUpdateUserStatus. The server reports per-user results, so on a
+ * partial failure only the users that failed are rolled back.
+ */
+export const useBulkUpdateUsers = () => {
+  const queryClient = useQueryClient();
+
+  // Apply a bulk change to a single user
+  const applyUpdate = (user: User, update: BulkUserUpdate, groupToAdd?: Group): User => {
+    let groups = user.groups;
+    if (groupToAdd && !groups.some((group) => group.groupId === groupToAdd.groupId)) {
+      groups = [...groups, groupToAdd];
+    }
+    if (update.removeGroupId) {
+      groups = groups.filter((group) => group.groupId !== update.removeGroupId);
+    }
+    return { ...user, status: update.status ?? user.status, groups };
+  };
+
+  return useMutation({
+    mutationFn: (update: BulkUserUpdate) => bulkUpdateUsers(update),
+
+    onMutate: async (update) => {
+      await queryClient.cancelQueries({ queryKey: userQueryKeys.all });
+
+      const previousQueries = queryClient.getQueriesData<UsersCacheEntry>({
+        queryKey: userQueryKeys.all,
+      });
+
+      // Resolve the group being added from the groups cache (if loaded)
+      const groupToAdd = update.addGroupId
+        ? queryClient
+            .getQueryData<ApiResponse<Group[]>>(groupQueryKeys.list())
+            ?.data?.find((group) => group.groupId === update.addGroupId)
+        : undefined;
+
+      queryClient.setQueriesData<UsersCacheEntry>({ queryKey: userQueryKeys.all }, (old) =>
+        mapUsersInCache(old, (users) =>
+          users.map((user) =>
+            update.userIds.includes(user.userId) ? applyUpdate(user, update, groupToAdd) : user
+          )
+        )
+      );
+
+      return { previousQueries };
+    },
+
+    // Roll back only the users the server could not update
+    onSuccess: (response, _update, context) => {
+      const failedIds = (response.data ?? [])
+        .filter((result) => !result.success)
+        .map((result) => result.userId);
+
+      if (failedIds.length === 0 || !context?.previousQueries) return;
+
+      context.previousQueries.forEach(([queryKey, previous]) => {
+        const previousUsers = usersInCache(previous);
+        if (previousUsers.length === 0) return;
+        queryClient.setQueryData<UsersCacheEntry>(queryKey, (current) =>
+          mapUsersInCache(current, (users) =>
+            users.map((user) =>
+              failedIds.includes(user.userId)
+                ? previousUsers.find((prev) => prev.userId === user.userId) ?? user
+                : user
+            )
+          )
+        );
+      });
+    },
+
+    // If the whole request fails, rollback everything
+    onError: (_error, _update, context) => {
+      if (context?.previousQueries) {
+        context.previousQueries.forEach(([queryKey, data]) => {
+          queryClient.setQueryData(queryKey, data);
+        });
+      }
+    },
+
+    onSettled: () => {
+      invalidateUserQueries(queryClient);
     },
   });
 };
 
 /**
  * Hook to manually invalidate users cache
+ *
+ * Infinite lists are only marked stale, like after mutations.
  */
 export const useInvalidateUsersCache = () => {
   const queryClient = useQueryClient();
 
   return {
-    invalidateAll: () =>
-      queryClient.invalidateQueries({ queryKey: userQueryKeys.all }),
+    invalidateAll: () => invalidateUserQueries(queryClient),
   };
 };
+
+/**
+ * Hook to refetch stale user lists once the connection comes back
+ *
+ * Pages shown offline may come from the saved cache and be hours old;
+ * inactive ones refetch when next viewed, as usual.
+ */
+export const useRefreshUsersOnReconnect = () => {
+  const queryClient = useQueryClient();
+  const { isOnline } = useNetworkStatus();
+  const wasOnline = useRef(isOnline);
+
+  useEffect(() => {
+    if (isOnline && !wasOnline.current) {
+      queryClient.refetchQueries({ queryKey: userQueryKeys.all, stale: true, type: 'active' });
+    }
+    wasOnline.current = isOnline;
+  }, [isOnline, queryClient]);
+};
@@ -1,13 +1,26 @@
 import React from 'react';
-import { Outlet } from 'react-router-dom';
+import { NavLink, Outlet } from 'react-router-dom';
 import {
   AppBar,
   Box,
   Toolbar,
   Typography,
   Container,
+  Chip,
+  Button,
 } from '@mui/material';
 import AdminPanelSettingsIcon from '@mui/icons-material/AdminPanelSettings';
+import LogoutIcon from '@mui/icons-material/Logout';
+import { useCurrentUser } from '@/hooks';
+import { canManageUsers } from '@/utils';
+
+// Top-level sections shown in the app bar (the audit log needs user management access)
+const navItems = [
+  { to: '/users', label: 'Users' },
+  { to: '/groups', label: 'Groups' },
+  { to: '/roles', label: 'Roles' },
+  { to: '/audit', label: 'Audit Log', requiresUserManagement: true },
+];
 
 /**
  * Main Layout Component
@@ -15,17 +28,54 @@ import AdminPanelSettingsIcon from '@mui/icons-material/AdminPanelSettings';
  * Wraps all pages with common header and footer.
  */
 export const MainLayout: React.FC = () => {
+  // Signing out clears the session; RequireAuth then redirects to /login
+  const { currentUser, privilegeLevel, signOut } = useCurrentUser();
+  const canManage = !!privilegeLevel && canManageUsers(privilegeLevel);
+
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', minHeight: '100vh' }}>
       <AppBar position="static" elevation={1}>
         <Toolbar>
           <AdminPanelSettingsIcon sx={{ mr: 2 }} />
-          <Typography variant="h6" component="div" sx={{ flexGrow: 1 }}>
+          <Typography variant="h6" component="div" sx={{ mr: 3 }}>
             Admin Dashboard
           </Typography>
+          <Box component="nav" sx={{ display: 'flex', gap: 1, flexGrow: 1 }}>
+            {navItems
+              .filter((item) => !item.requiresUserManagement || canManage)
+              .map((item) => (
+                <Button
+                  key={item.to}
+                  component={NavLink}
+                  to={item.to}
+                  color="inherit"
+                  size="small"
+                  sx={{ '&.active': { backgroundColor: 'rgba(255, 255, 255, 0.15)' } }}
+                >
+                  {item.label}
+                </Button>
+              ))}
+          </Box>
           <Typography variant="body2" sx={{ opacity: 0.8 }}>
             Internship Assignment (Bhagya)
           </Typography>
+          {currentUser && (
+            <Chip
+              label={`${currentUser.name} · ${privilegeLevel}`}
+              size="small"
+              sx={{ ml: 2, color: 'inherit', borderColor: 'rgba(255, 255, 255, 0.5)' }}
+              variant="outlined"
+            />
+          )}
+          <Button
+            color="inherit"
+            size="small"
+            startIcon={<LogoutIcon />}
+            onClick={signOut}
+            sx={{ ml: 1 }}
+          >
+            Sign Out
+          </Button>
         </Toolbar>
       </AppBar>
 
@@ -0,0 +1,408 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  getUsers,
+  getUserById,
+  getStatusChangedAt,
+  bulkUpdateUsers,
+  validateUserInput,
+  createUser,
+  deleteUser,
+  login,
+  logout,
+  getSessionUser,
+  MOCK_PASSWORD,
+  resetMockData,
+  getGroupSummaries,
+  validateGroupInput,
+  createGroup,
+  updateGroup,
+  deleteGroup,
+  validateRoleInput,
+  createRole,
+  updateRole,
+  updateUserStatus,
+  recordUserAudit,
+  recordGroupAudit,
+  getAuditLog,
+  validateImportRows,
+  importUsers,
+} from './data';
+import { getPrivilegeLevel } from '@/utils/roleUtils';
+
+describe('mock data layer', () => {
+  beforeEach(() => {
+    resetMockData();
+  });
+
+  describe('getUsers sorting', () => {
+    it('should sort by name ascending across the full set', () => {
+      const { users } = getUsers({ page: 1, pageSize: 100, sortBy: ['name'], sortDir: ['asc'] });
+      const names = users.map((user) => user.name);
+      const expected = [...names].sort((a, b) =>
+        a.localeCompare(b, undefined, { sensitivity: 'base' })
+      );
+
+      expect(names).toEqual(expected);
+    });
+
+    it('should sort before paginating', () => {
+      const { users: allUsers } = getUsers({ page: 1, pageSize: 100, sortBy: ['email'], sortDir: ['desc'] });
+      const { users: secondPage } = getUsers({ page: 2, pageSize: 10, sortBy: ['email'], sortDir: ['desc'] });
+
+      expect(secondPage).toEqual(allUsers.slice(10, 20));
+    });
+
+    it('should use later sort keys to break ties', () => {
+      const { users } = getUsers({
+        page: 1,
+        pageSize: 100,
+        sortBy: ['status', 'email'],
+        sortDir: ['asc', 'desc'],
+      });
+
+      for (let i = 1; i < users.length; i++) {
+        const prev = users[i - 1];
+        const current = users[i];
+        if (prev.status === current.status) {
+          expect(prev.email.localeCompare(current.email, undefined, { sensitivity: 'base' }))
+            .toBeGreaterThanOrEqual(0);
+        } else {
+          expect(prev.status).toBe('active');
+        }
+      }
+    });
+
+    it('should default direction to ascending when sortDir is missing', () => {
+      const { users } = getUsers({ page: 1, pageSize: 100, sortBy: ['name'] });
+      const names = users.map((user) => user.name);
+      const expected = [...names].sort((a, b) =>
+        a.localeCompare(b, undefined, { sensitivity: 'base' })
+      );
+
+      expect(names).toEqual(expected);
+    });
+  });
+
+  describe('getUsers large datasets', () => {
+    it('should generate and page through tens of thousands of users', () => {
+      resetMockData(20000);
+      // Generated users plus the three seed accounts
+      expect(getUsers({ page: 1, pageSize: 100 }).totalCount).toBe(20003);
+      expect(getUsers({ page: 200, pageSize: 100 }).users).toHaveLength(100);
+      expect(getUsers({ page: 201, pageSize: 100 }).users).toHaveLength(3);
+    });
+  });
+
+  describe('getUsers column filters', () => {
+    it('should keep only users in any of the selected groups', () => {
+      const { users } = getUsers({ page: 1, pageSize: 100, groupIds: ['grp-1', 'grp-4'] });
+
+      expect(users.length).toBeGreaterThan(0);
+      users.forEach((user) => {
+        expect(
+          user.groups.some((group) => ['grp-1', 'grp-4'].includes(group.groupId))
+        ).toBe(true);
+      });
+    });
+
+    it('should keep only users holding a selected role', () => {
+      const { users } = getUsers({ page: 1, pageSize: 100, roleIds: ['role-4'] });
+
+      users.forEach((user) => {
+        expect(
+          user.groups.some((group) => group.roles.some((role) => role.roleId === 'role-4'))
+        ).toBe(true);
+      });
+    });
+
+    it('should apply an inclusive created date range', () => {
+      const { users } = getUsers({
+        page: 1,
+        pageSize: 100,
+        createdFrom: '2024-01-01',
+        createdTo: '2024-12-31',
+      });
+
+      users.forEach((user) => {
+        expect(user.createdAt.slice(0, 10) >= '2024-01-01').toBe(true);
+        expect(user.createdAt.slice(0, 10) <= '2024-12-31').toBe(true);
+      });
+    });
+
+    it('should filter by derived privilege level', () => {
+      const { users, totalCount } = getUsers({ page: 1, pageSize: 100, privilegeLevel: 'readonly' });
+
+      expect(users.length).toBe(totalCount);
+      users.forEach((user) => {
+        expect(getPrivilegeLevel(user)).toBe('readonly');
+      });
+    });
+  });
+
+  describe('bulkUpdateUsers', () => {
+    it('should update status for every listed user', () => {
+      const results = bulkUpdateUsers({ userIds: ['user-1', 'user-2'], status: 'inactive' });
+
+      expect(results.every((result) => result.success)).toBe(true);
+      expect(getUserById('user-1')?.status).toBe('inactive');
+      expect(getUserById('user-2')?.status).toBe('inactive');
+    });
+
+    it('should report unknown users without failing the others', () => {
+      const results = bulkUpdateUsers({ userIds: ['user-1', 'user-missing'], addGroupId: 'grp-4' });
+
+      expect(results).toHaveLength(2);
+      expect(results[0].success).toBe(true);
+      expect(results[1]).toEqual({ userId: 'user-missing', success: false, error: 'User not found' });
+      expect(getUserById('user-1')?.groups.some((group) => group.groupId === 'grp-4')).toBe(true);
+    });
+
+    it('should refuse to remove a user\'s last group', () => {
+      bulkUpdateUsers({ userIds: ['user-1'], addGroupId: 'grp-3' });
+      const groupIds = getUserById('user-1')!.groups.map((group) => group.groupId);
+      groupIds
+        .filter((groupId) => groupId !== 'grp-3')
+        .forEach((groupId) => bulkUpdateUsers({ userIds: ['user-1'], removeGroupId: groupId }));
+
+      const [result] = bulkUpdateUsers({ userIds: ['user-1'], removeGroupId: 'grp-3' });
+
+      expect(result.success).toBe(false);
+      expect(getUserById('user-1')?.groups.map((group) => group.groupId)).toEqual(['grp-3']);
+    });
+
+    it('should record when a status actually changes', () => {
+      const status = getUserById('user-1')!.status;
+      bulkUpdateUsers({ userIds: ['user-1'], status });
+      expect(getStatusChangedAt('user-1')).toBeNull();
+
+      bulkUpdateUsers({ userIds: ['user-1'], status: status === 'active' ? 'inactive' : 'active' });
+      expect(getStatusChangedAt('user-1')).toBeTypeOf('number');
+    });
+  });
+
+  describe('user validation and CRUD', () => {
+    const validInput = {
+      name: 'Ada Lovelace',
+      email: 'ada@example.org',
+      status: 'active' as const,
+      groupIds: ['grp-3'],
+    };
+
+    it('should accept valid input', () => {
+      expect(validateUserInput(validInput)).toBeNull();
+    });
+
+    it('should reject a missing name, bad email and unknown group with 400', () => {
+      const result = validateUserInput({ ...validInput, name: ' ', email: 'nope', groupIds: ['grp-x'] });
+
+      expect(result?.status).toBe(400);
+      expect(Object.keys(result?.fieldErrors ?? {})).toEqual(['name', 'email', 'groupIds']);
+    });
+
+    it('should reject a duplicate email with 409 unless it belongs to the edited user', () => {
+      const existing = getUserById('user-1')!;
+
+      expect(validateUserInput({ ...validInput, email: existing.email.toUpperCase() })?.status).toBe(409);
+      expect(validateUserInput({ ...validInput, email: existing.email }, 'user-1')).toBeNull();
+    });
+
+    it('should create and delete users', () => {
+      const user = createUser(validInput);
+
+      expect(getUserById(user.userId)?.groups.map((group) => group.groupId)).toEqual(['grp-3']);
+      expect(deleteUser(user.userId)).toBe(true);
+      expect(getUserById(user.userId)).toBeNull();
+      expect(deleteUser(user.userId)).toBe(false);
+    });
+  });
+
+  describe('mock sessions', () => {
+    it('should issue a token that resolves to the signed-in user', () => {
+      const result = login('Manager@Example.com', MOCK_PASSWORD);
+
+      expect('token' in result).toBe(true);
+      if ('token' in result) {
+        expect(getSessionUser(result.token)?.userId).toBe('user-manager');
+      }
+    });
+
+    it('should reject bad credentials and deactivated accounts', () => {
+      expect(login('manager@example.com', 'wrong')).toEqual({ error: 'Invalid email or password', status: 401 });
+
+      bulkUpdateUsers({ userIds: ['user-viewer'], status: 'inactive' });
+      expect(login('viewer@example.com', MOCK_PASSWORD)).toMatchObject({ status: 403 });
+    });
+
+    it('should stop resolving a token after logout', () => {
+      const result = login('admin@example.com', MOCK_PASSWORD);
+      if (!('token' in result)) throw new Error('login failed');
+
+      logout(result.token);
+
+      expect(getSessionUser(result.token)).toBeNull();
+      expect(getSessionUser('garbage')).toBeNull();
+    });
+  });
+
+  describe('group and role management', () => {
+    it('should reject duplicate group names and unknown roles', () => {
+      expect(validateGroupInput({ groupName: 'read only', roleIds: [] })?.status).toBe(409);
+      expect(validateGroupInput({ groupName: 'Auditors', roleIds: ['role-999'] })?.status).toBe(400);
+      expect(validateGroupInput({ groupName: 'Read Only', roleIds: [] }, 'grp-4')).toBeNull();
+    });
+
+    it('should not let renames change privilege levels', () => {
+      expect(validateGroupInput({ groupName: 'Everyone', roleIds: [] }, 'grp-1')?.status).toBe(400);
+      expect(validateGroupInput({ groupName: 'Leads', roleIds: [] }, 'grp-2')?.status).toBe(400);
+      expect(validateGroupInput({ groupName: 'Admins', roleIds: [] }, 'grp-3')?.status).toBe(400);
+      expect(validateGroupInput({ groupName: 'managers', roleIds: [] })?.status).toBe(400);
+      expect(validateGroupInput({ groupName: 'Viewers', roleIds: [] }, 'grp-4')?.status).toBe(400);
+      expect(validateGroupInput({ groupName: 'read only ', roleIds: [] }, 'grp-4')).toBeNull();
+      // Even once the original is gone, no other group can take its name
+      expect(deleteGroup('grp-4', 'grp-3')).toBeNull();
+      expect(validateGroupInput({ groupName: 'Read Only', roleIds: [] }, 'grp-5')?.status).toBe(400);
+      // Roles of privileged groups can still change
+      expect(validateGroupInput({ groupName: 'Administrators', roleIds: [] }, 'grp-1')).toBeNull();
+    });
+
+    it('should propagate group and role edits to members', () => {
+      const role = createRole({ roleName: 'Auditor' });
+      const group = createGroup({ groupName: 'Auditors', roleIds: [role.roleId] });
+      expect(group.roles).toEqual([role]);
+
+      updateGroup('grp-4', { groupName: 'Viewers', roleIds: ['role-4', role.roleId] });
+      updateRole(role.roleId, { roleName: 'Compliance Auditor' });
+
+      const viewerGroup = getUserById('user-viewer')?.groups.find((g) => g.groupId === 'grp-4');
+      expect(viewerGroup?.groupName).toBe('Viewers');
+      expect(viewerGroup?.roles.map((r) => r.roleName)).toContain('Compliance Auditor');
+      expect(validateRoleInput({ roleName: 'compliance auditor' })?.status).toBe(409);
+    });
+
+    it('should block deleting a group with members unless they are reassigned', () => {
+      const memberCount = getGroupSummaries().find((g) => g.groupId === 'grp-4')!.memberCount;
+      expect(memberCount).toBeGreaterThan(0);
+      expect(deleteGroup('grp-4')?.status).toBe(409);
+      expect(deleteGroup('grp-4', 'grp-4')?.status).toBe(400);
+
+      expect(deleteGroup('grp-4', 'grp-3')).toBeNull();
+      expect(getGroupSummaries().some((g) => g.groupId === 'grp-4')).toBe(false);
+      expect(getUserById('user-viewer')?.groups.map((g) => g.groupId)).toEqual(['grp-3']);
+      expect(getUsers({ page: 1, pageSize: 1, groupIds: ['grp-4'] }).totalCount).toBe(0);
+    });
+
+    it('should delete an empty group without reassignment', () => {
+      const group = createGroup({ groupName: 'Empty', roleIds: [] });
+      expect(deleteGroup(group.groupId)).toBeNull();
+      expect(deleteGroup(group.groupId)?.status).toBe(404);
+    });
+  });
+
+  describe('audit log', () => {
+    it('should derive the action and diff from the before/after user', () => {
+      const admin = getUserById('user-admin')!;
+      const before = getUserById('user-viewer')!;
+      const after = updateUserStatus('user-viewer', 'inactive')!;
+
+      const entry = recordUserAudit(admin, before, after);
+
+      expect(entry).toMatchObject({
+        actorId: 'user-admin',
+        actorName: 'Alex Admin',
+        action: 'user.deactivated',
+        targetType: 'user',
+        targetId: 'user-viewer',
+        changes: [{ field: 'status', before: 'active', after: 'inactive' }],
+      });
+      expect(recordUserAudit(admin, after, after)).toBeNull();
+      expect(recordUserAudit(admin, after, null)?.action).toBe('user.deleted');
+    });
+
+    it('should filter by actor, target, action and date, newest first', () => {
+      const admin = getUserById('user-admin')!;
+      const manager = getUserById('user-manager')!;
+      const viewer = getUserById('user-viewer')!;
+
+      recordUserAudit(admin, viewer, updateUserStatus('user-viewer', 'inactive'));
+      recordUserAudit(manager, null, viewer);
+      recordGroupAudit(admin, null, { groupId: 'grp-9', groupName: 'Auditors', roles: [] });
+
+      expect(getAuditLog({ page: 1, pageSize: 10 }).entries.map((e) => e.action)).toEqual([
+        'group.created',
+        'user.created',
+        'user.deactivated',
+      ]);
+      expect(getAuditLog({ page: 1, pageSize: 10, actor: 'alex' }).totalCount).toBe(2);
+      expect(getAuditLog({ page: 1, pageSize: 10, actor: 'manager@example.com' }).totalCount).toBe(1);
+      expect(getAuditLog({ page: 1, pageSize: 10, target: 'user-viewer' }).totalCount).toBe(2);
+      expect(getAuditLog({ page: 1, pageSize: 10, action: 'group.created' }).totalCount).toBe(1);
+
+      const today = new Date().toISOString().slice(0, 10);
+      expect(getAuditLog({ page: 1, pageSize: 10, from: today, to: today }).totalCount).toBe(3);
+      expect(getAuditLog({ page: 1, pageSize: 10, to: '2000-01-01' }).totalCount).toBe(0);
+
+      const secondPage = getAuditLog({ page: 2, pageSize: 2 });
+      expect(secondPage.entries.map((e) => e.action)).toEqual(['user.deactivated']);
+    });
+  });
+
+  describe('user import', () => {
+    const row = (rowNumber: number, overrides = {}) => ({
+      rowNumber,
+      name: 'New Hire',
+      email: `hire${rowNumber}@example.com`,
+      status: '',
+      groups: ['standard users'],
+      ...overrides,
+    });
+
+    it('should resolve group names and default the status', () => {
+      const [result] = validateImportRows([row(2)]);
+      expect(result.errors).toEqual([]);
+      expect(result.input).toEqual({
+        name: 'New Hire',
+        email: 'hire2@example.com',
+        status: 'active',
+        groupIds: ['grp-3'],
+      });
+    });
+
+    it('should report duplicate emails, unknown groups and invalid statuses per row', () => {
+      const results = validateImportRows([
+        row(2, { email: 'admin@example.com' }),
+        row(3, { groups: ['Standard Users', 'Ghosts'] }),
+        row(4, { status: 'suspended' }),
+        row(5, { email: 'same@example.com' }),
+        row(6, { email: 'SAME@example.com' }),
+      ]);
+
+      expect(results.map((result) => result.errors)).toEqual([
+        ['Email already belongs to an existing user'],
+        ['Unknown group: Ghosts'],
+        ['Invalid status "suspended" (expected active or inactive)'],
+        [],
+        ['Duplicate email (also on row 5)'],
+      ]);
+      expect(results.map((result) => result.input !== null)).toEqual([
+        false,
+        false,
+        false,
+        true,
+        false,
+      ]);
+    });
+
+    it('should create all valid rows in file order', () => {
+      const inputs = validateImportRows([row(2), row(3)]).map((result) => result.input!);
+      const totalBefore = getUsers({ page: 1, pageSize: 1 }).totalCount;
+
+      const created = importUsers(inputs);
+
+      expect(created.map((user) => user.email)).toEqual(['hire2@example.com', 'hire3@example.com']);
+      expect(getUsers({ page: 1, pageSize: 1 }).totalCount).toBe(totalBefore + 2);
+      expect(validateImportRows([row(2)])[0].errors).toEqual([
+        'Email already belongs to an existing user',
+      ]);
+    });
+  });
+});
@@ -1,7 +1,27 @@
-import type { User, Group, Role } from '@/types';
+import type {
+  User,
+  Group,
+  Role,
+  SortDirection,
+  BulkUserUpdate,
+  BulkUserResult,
+  UserInput,
+  GroupSummary,
+  RoleSummary,
+  GroupInput,
+  RoleInput,
+  AuditAction,
+  AuditChange,
+  AuditEntry,
+  AuditQueryParams,
+  UserImportRow,
+  ColumnMetadata,
+} from '@/types';
+import { getPrivilegeLevel, isAccessLevelGroupName, type PrivilegeLevel } from '@/utils/roleUtils';
+import { userColumnMetadata } from '@/utils/columnConfig';
 
 // Predefined roles
-const roles: Role[] = [
+const defaultRoles: Role[] = [
   { roleId: 'role-1', roleName: 'Admin' },
   { roleId: 'role-2', roleName: 'Manager' },
   { roleId: 'role-3', roleName: 'Standard User' },
@@ -10,14 +30,18 @@ const roles: Role[] = [
 ];
 
 // Predefined groups
-const groups: Group[] = [
-  { groupId: 'grp-1', groupName: 'Administrators', roles: [roles[0]] },
-  { groupId: 'grp-2', groupName: 'Management Team', roles: [roles[1], roles[4]] },
-  { groupId: 'grp-3', groupName: 'Standard Users', roles: [roles[2]] },
-  { groupId: 'grp-4', groupName: 'Read Only', roles: [roles[3]] },
-  { groupId: 'grp-5', groupName: 'Content Team', roles: [roles[4], roles[2]] },
+const defaultGroups: Group[] = [
+  { groupId: 'grp-1', groupName: 'Administrators', roles: [defaultRoles[0]] },
+  { groupId: 'grp-2', groupName: 'Management Team', roles: [defaultRoles[1], defaultRoles[4]] },
+  { groupId: 'grp-3', groupName: 'Standard Users', roles: [defaultRoles[2]] },
+  { groupId: 'grp-4', groupName: 'Read Only', roles: [defaultRoles[3]] },
+  { groupId: 'grp-5', groupName: 'Content Team', roles: [defaultRoles[4], defaultRoles[2]] },
 ];
 
+// Roles and groups are editable at runtime (see group/role management below)
+let roles: Role[] = [...defaultRoles];
+let groups: Group[] = [...defaultGroups];
+
 // First names and last names for random generation
 const firstNames = [
   'James', 'Mary', 'John', 'Patricia', 'Robert', 'Jennifer', 'Michael', 'Linda',
@@ -51,11 +75,15 @@ const generateRandomGroups = (): Group[] => {
   return shuffled.slice(0, numGroups);
 };
 
-// Generate 100 mock users
-export const generateMockUsers = (): User[] => {
+// Number of generated users; set VITE_MOCK_USER_COUNT (e.g. 50000) to try
+// the users table against a large tenant
+const DEFAULT_MOCK_USER_COUNT = Number(import.meta.env.VITE_MOCK_USER_COUNT) || 100;
+
+// Generate mock users (100 unless configured)
+export const generateMockUsers = (count: number = DEFAULT_MOCK_USER_COUNT): User[] => {
   const users: User[] = [];
 
-  for (let i = 1; i <= 100; i++) {
+  for (let i = 1; i <= count; i++) {
     const firstName = firstNames[Math.floor(Math.random() * firstNames.length)];
     const lastName = lastNames[Math.floor(Math.random() * lastNames.length)];
     const name = `${firstName} ${lastName}`;
@@ -74,15 +102,99 @@ export const generateMockUsers = (): User[] => {
   return users;
 };
 
+// Fixed accounts with known privilege levels (used as session users)
+const createSeedAccounts = (): User[] => [
+  {
+    userId: 'user-admin',
+    name: 'Alex Admin',
+    email: 'admin@example.com',
+    status: 'active',
+    createdAt: new Date(2023, 0, 2).toISOString(),
+    groups: [groups[0]],
+  },
+  {
+    userId: 'user-manager',
+    name: 'Morgan Manager',
+    email: 'manager@example.com',
+    status: 'active',
+    createdAt: new Date(2023, 0, 3).toISOString(),
+    groups: [groups[1]],
+  },
+  {
+    userId: 'user-viewer',
+    name: 'Riley Viewer',
+    email: 'viewer@example.com',
+    status: 'active',
+    createdAt: new Date(2023, 0, 4).toISOString(),
+    groups: [groups[3]],
+  },
+];
+
 // Store users in memory (simulates database)
-let mockUsers: User[] = generateMockUsers();
+const generatedUsers = generateMockUsers();
+let mockUsers: User[] = [...createSeedAccounts(), ...generatedUsers];
+let nextUserId = generatedUsers.length + 1;
+
+// When each user's status last changed (ms since epoch), for conditional
+// status updates; users missing here haven't changed since seeding
+const statusChangedAt = new Map<string, number>();
+
+const trackStatusChange = (before: User, after: User) => {
+  if (before.status !== after.status) statusChangedAt.set(after.userId, Date.now());
+};
+
+export const getStatusChangedAt = (userId: string): number | null =>
+  statusChangedAt.get(userId) ?? null;
+
+// Every mock account shares this password
+export const MOCK_PASSWORD = 'password';
+
+// Tokens that were logged out (tokens themselves are stateless, see createSessionToken)
+const revokedTokens = new Set<string>();
+
+// Get a comparable value for a user field
+const getSortValue = (user: User, key: string): string => {
+  if (key === 'groups') {
+    return user.groups.map((group) => group.groupName).join(', ');
+  }
+  const value = user[key as keyof User];
+  return typeof value === 'string' ? value : '';
+};
+
+// Sort users by one or more columns (first key has highest priority)
+const sortUsers = (
+  users: User[],
+  sortBy: string[],
+  sortDir: SortDirection[]
+): User[] => {
+  return [...users].sort((a, b) => {
+    for (let i = 0; i < sortBy.length; i++) {
+      const result = getSortValue(a, sortBy[i]).localeCompare(
+        getSortValue(b, sortBy[i]),
+        undefined,
+        { sensitivity: 'base' }
+      );
+      if (result !== 0) {
+        return sortDir[i] === 'desc' ? -result : result;
+      }
+    }
+    return 0;
+  });
+};
 
-// Get all users (with filtering and pagination)
+// Get all users (with filtering, sorting and pagination)
 export const getUsers = (params: {
   page?: number;
   pageSize?: number;
   query?: string;
   status?: string;
+  sortBy?: string[];
+  sortDir?: SortDirection[];
+  groupIds?: string[];
+  roleIds?: string[];
+  createdFrom?: string;
+  createdTo?: string;
+  privilegeLevel?: PrivilegeLevel;
 }): { users: User[]; totalCount: number } => {
   let filtered = [...mockUsers];
 
@@ -101,6 +213,46 @@ export const getUsers = (params: {
     filtered = filtered.filter((user) => user.status === params.status);
   }
 
+  // Filter by group membership (any of the selected groups)
+  if (params.groupIds && params.groupIds.length > 0) {
+    const groupIds = params.groupIds;
+    filtered = filtered.filter((user) =>
+      user.groups.some((group) => groupIds.includes(group.groupId))
+    );
+  }
+
+  // Filter by role (any of the selected roles, through any group)
+  if (params.roleIds && params.roleIds.length > 0) {
+    const roleIds = params.roleIds;
+    filtered = filtered.filter((user) =>
+      user.groups.some((group) =>
+        group.roles.some((role) => roleIds.includes(role.roleId))
+      )
+    );
+  }
+
+  // Filter by created date range (inclusive, compared by calendar date)
+  if (params.createdFrom) {
+    const from = params.createdFrom;
+    filtered = filtered.filter((user) => user.createdAt.slice(0, 10) >= from);
+  }
+  if (params.createdTo) {
+    const to = params.createdTo;
+    filtered = filtered.filter((user) => user.createdAt.slice(0, 10) <= to);
+  }
+
+  // Filter by derived privilege level
+  if (params.privilegeLevel) {
+    filtered = filtered.filter(
+      (user) => getPrivilegeLevel(user) === params.privilegeLevel
+    );
+  }
+
+  // Sort before paginating so order is consistent across pages
+  if (params.sortBy && params.sortBy.length > 0) {
+    filtered = sortUsers(filtered, params.sortBy, params.sortDir || []);
+  }
+
   const totalCount = filtered.length;
 
   // Pagination
@@ -123,20 +275,670 @@ export const updateUserStatus = (
   const userIndex = mockUsers.findIndex((u) => u.userId === userId);
   if (userIndex === -1) return null;
 
+  const before = mockUsers[userIndex];
   mockUsers[userIndex] = {
-    ...mockUsers[userIndex],
+    ...before,
     status,
   };
+  trackStatusChange(before, mockUsers[userIndex]);
 
   return mockUsers[userIndex];
 };
 
+// Apply the same change to many users, reporting the outcome per user
+export const bulkUpdateUsers = (update: BulkUserUpdate): BulkUserResult[] => {
+  const groupToAdd = update.addGroupId
+    ? groups.find((group) => group.groupId === update.addGroupId)
+    : undefined;
+
+  return update.userIds.map((userId) => {
+    const userIndex = mockUsers.findIndex((u) => u.userId === userId);
+    if (userIndex === -1) {
+      return { userId, success: false, error: 'User not found' };
+    }
+
+    const user = mockUsers[userIndex];
+    let userGroups = user.groups;
+
+    if (groupToAdd && !userGroups.some((group) => group.groupId === groupToAdd.groupId)) {
+      userGroups = [...userGroups, groupToAdd];
+    }
+
+    if (update.removeGroupId) {
+      userGroups = userGroups.filter((group) => group.groupId !== update.removeGroupId);
+      if (userGroups.length === 0) {
+        return { userId, success: false, error: 'User must belong to at least one group' };
+      }
+    }
+
+    mockUsers[userIndex] = {
+      ...user,
+      status: update.status ?? user.status,
+      groups: userGroups,
+    };
+    trackStatusChange(user, mockUsers[userIndex]);
+
+    return { userId, success: true, data: mockUsers[userIndex] };
+  });
+};
+
+// Validation failure for create/update
+export interface UserValidationError {
+  status: 400 | 409;
+  error: string;
+  fieldErrors: Record<string, string>;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Validate user input; excludeUserId skips the user being edited in the uniqueness check
+export const validateUserInput = (
+  input: Partial<UserInput>,
+  excludeUserId?: string
+): UserValidationError | null => {
+  const fieldErrors: Record<string, string> = {};
+
+  if (!input.name?.trim()) {
+    fieldErrors.name = 'Name is required';
+  }
+
+  if (!input.email?.trim()) {
+    fieldErrors.email = 'Email is required';
+  } else if (!EMAIL_PATTERN.test(input.email.trim())) {
+    fieldErrors.email = 'Email format is invalid';
+  }
+
+  if (input.status !== 'active' && input.status !== 'inactive') {
+    fieldErrors.status = 'Status must be active or inactive';
+  }
+
+  if (!Array.isArray(input.groupIds) || input.groupIds.length === 0) {
+    fieldErrors.groupIds = 'Select at least one group';
+  } else {
+    const unknown = input.groupIds.filter(
+      (groupId) => !groups.some((group) => group.groupId === groupId)
+    );
+    if (unknown.length > 0) {
+      fieldErrors.groupIds = `Unknown group: ${unknown.join(', ')}`;
+    }
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    return { status: 400, error: 'Validation failed', fieldErrors };
+  }
+
+  // Uniqueness is a conflict rather than a malformed request
+  const email = input.email!.trim().toLowerCase();
+  const duplicate = mockUsers.find(
+    (user) => user.email.toLowerCase() === email && user.userId !== excludeUserId
+  );
+  if (duplicate) {
+    return {
+      status: 409,
+      error: 'Email already in use',
+      fieldErrors: { email: 'A user with this email already exists' },
+    };
+  }
+
+  return null;
+};
+
+// Resolve group IDs to group objects (input must already be validated)
+const resolveGroups = (groupIds: string[]): Group[] =>
+  groups.filter((group) => groupIds.includes(group.groupId));
+
+// Create a user (input must already be validated)
+export const createUser = (input: UserInput): User => {
+  const user: User = {
+    userId: `user-${nextUserId++}`,
+    name: input.name.trim(),
+    email: input.email.trim(),
+    status: input.status,
+    createdAt: new Date().toISOString(),
+    groups: resolveGroups(input.groupIds),
+  };
+
+  mockUsers = [user, ...mockUsers];
+  return user;
+};
+
+// Validated import row: its errors, plus the resolved input when it has none
+export interface ImportRowValidation {
+  rowNumber: number;
+  errors: string[];
+  input: UserInput | null;
+}
+
+// Validate import rows against the store and each other (nothing is written).
+// Group names resolve case-insensitively; an empty status means active.
+export const validateImportRows = (rows: UserImportRow[]): ImportRowValidation[] => {
+  const seenEmails = new Map<string, number>();
+
+  return rows.map((row) => {
+    const errors: string[] = [];
+
+    const status = (row.status ?? '').trim().toLowerCase() || 'active';
+    const statusIsValid = status === 'active' || status === 'inactive';
+    if (!statusIsValid) {
+      errors.push(`Invalid status "${row.status}" (expected active or inactive)`);
+    }
+
+    const groupNames = (row.groups ?? []).map((name) => name.trim()).filter(Boolean);
+    const resolvedGroups = groupNames.map((name) =>
+      groups.find((group) => group.groupName.toLowerCase() === name.toLowerCase())
+    );
+    const unknownGroups = groupNames.filter((_, index) => !resolvedGroups[index]);
+    if (unknownGroups.length > 0) {
+      errors.push(`Unknown group: ${unknownGroups.join(', ')}`);
+    }
+
+    const input: UserInput = {
+      name: (row.name ?? '').trim(),
+      email: (row.email ?? '').trim(),
+      status: statusIsValid ? (status as UserInput['status']) : 'active',
+      groupIds: resolvedGroups
+        .filter((group): group is Group => !!group)
+        .map((group) => group.groupId),
+    };
+
+    const validationError = validateUserInput(input);
+    if (validationError?.status === 409) {
+      errors.push('Email already belongs to an existing user');
+    } else if (validationError) {
+      Object.entries(validationError.fieldErrors)
+        // Unknown group names were already reported above
+        .filter(([field]) => !(field === 'groupIds' && unknownGroups.length > 0))
+        .forEach(([, message]) => errors.push(message));
+    }
+
+    const emailKey = input.email.toLowerCase();
+    if (emailKey) {
+      const firstRow = seenEmails.get(emailKey);
+      if (firstRow !== undefined) {
+        errors.push(`Duplicate email (also on row ${firstRow})`);
+      } else {
+        seenEmails.set(emailKey, row.rowNumber);
+      }
+    }
+
+    return { rowNumber: row.rowNumber, errors, input: errors.length === 0 ? input : null };
+  });
+};
+
+// Create all validated import inputs in one step (in file order)
+export const importUsers = (inputs: UserInput[]): User[] => {
+  const created = inputs.map((input): User => ({
+    userId: `user-${nextUserId++}`,
+    name: input.name.trim(),
+    email: input.email.trim(),
+    status: input.status,
+    createdAt: new Date().toISOString(),
+    groups: resolveGroups(input.groupIds),
+  }));
+
+  mockUsers = [...[...created].reverse(), ...mockUsers];
+  return created;
+};
+
+// Replace a user's editable fields (input must already be validated)
+export const updateUser = (userId: string, input: UserInput): User | null => {
+  const userIndex = mockUsers.findIndex((u) => u.userId === userId);
+  if (userIndex === -1) return null;
+
+  const before = mockUsers[userIndex];
+  mockUsers[userIndex] = {
+    ...before,
+    name: input.name.trim(),
+    email: input.email.trim(),
+    status: input.status,
+    groups: resolveGroups(input.groupIds),
+  };
+  trackStatusChange(before, mockUsers[userIndex]);
+
+  return mockUsers[userIndex];
+};
+
+// Delete a user
+export const deleteUser = (userId: string): boolean => {
+  const lengthBefore = mockUsers.length;
+  mockUsers = mockUsers.filter((u) => u.userId !== userId);
+  return mockUsers.length < lengthBefore;
+};
+
+// Get all groups
+export const getGroups = (): Group[] => {
+  return [...groups];
+};
+
+// Get all roles
+export const getRoles = (): Role[] => {
+  return [...roles];
+};
+
+// Get all groups with their member counts
+export const getGroupSummaries = (): GroupSummary[] => {
+  return groups.map((group) => ({
+    ...group,
+    memberCount: mockUsers.filter((user) =>
+      user.groups.some((g) => g.groupId === group.groupId)
+    ).length,
+  }));
+};
+
+// Get all roles with the number of groups granting them
+export const getRoleSummaries = (): RoleSummary[] => {
+  return roles.map((role) => ({
+    ...role,
+    groupCount: groups.filter((group) => group.roles.some((r) => r.roleId === role.roleId)).length,
+  }));
+};
+
+// Users embed copies of their groups (and groups of their roles), so refresh
+// those copies after a group or role changes
+const syncEmbeddedCopies = (): void => {
+  groups = groups.map((group) => ({
+    ...group,
+    roles: roles.filter((role) => group.roles.some((r) => r.roleId === role.roleId)),
+  }));
+  mockUsers = mockUsers.map((user) => ({
+    ...user,
+    groups: user.groups
+      .map((g) => groups.find((group) => group.groupId === g.groupId))
+      .filter((group): group is Group => !!group),
+  }));
+};
+
+// Validation failure for group/role create/update/delete
+export interface ManagementError {
+  status: 400 | 404 | 409;
+  error: string;
+}
+
+// Validate group input; excludeGroupId skips the group being edited in the uniqueness check
+export const validateGroupInput = (
+  input: Partial<GroupInput>,
+  excludeGroupId?: string
+): ManagementError | null => {
+  const groupName = input.groupName?.trim();
+  if (!groupName) {
+    return { status: 400, error: 'Group name is required' };
+  }
+  if (!Array.isArray(input.roleIds)) {
+    return { status: 400, error: 'roleIds must be an array' };
+  }
+  const unknown = input.roleIds.filter((roleId) => !roles.some((role) => role.roleId === roleId));
+  if (unknown.length > 0) {
+    return { status: 400, error: `Unknown role: ${unknown.join(', ')}` };
+  }
+  const duplicate = groups.find(
+    (group) =>
+      group.groupName.toLowerCase() === groupName.toLowerCase() && group.groupId !== excludeGroupId
+  );
+  if (duplicate) {
+    return { status: 409, error: `A group named "${duplicate.groupName}" already exists` };
+  }
+  // Privilege levels are derived from group names, so renames must not change them
+  const existing = groups.find((group) => group.groupId === excludeGroupId);
+  if (existing?.groupName.toLowerCase() !== groupName.toLowerCase()) {
+    if (existing && isAccessLevelGroupName(existing.groupName)) {
+      return {
+        status: 400,
+        error: `${existing.groupName} sets its members' access level and can't be renamed`,
+      };
+    }
+    if (isAccessLevelGroupName(groupName)) {
+      return { status: 400, error: `"${groupName}" is reserved for a built-in access group` };
+    }
+  }
+  return null;
+};
+
+// Create a group (input must already be validated)
+export const createGroup = (input: GroupInput): Group => {
+  const nextId = Math.max(0, ...groups.map((group) => parseInt(group.groupId.replace('grp-', '')) || 0)) + 1;
+  const group: Group = {
+    groupId: `grp-${nextId}`,
+    groupName: input.groupName.trim(),
+    roles: roles.filter((role) => input.roleIds.includes(role.roleId)),
+  };
+  groups = [...groups, group];
+  return group;
+};
+
+// Rename a group and/or replace its roles (input must already be validated)
+export const updateGroup = (groupId: string, input: GroupInput): Group | null => {
+  if (!groups.some((group) => group.groupId === groupId)) return null;
+
+  groups = groups.map((group) =>
+    group.groupId === groupId
+      ? {
+          ...group,
+          groupName: input.groupName.trim(),
+          roles: roles.filter((role) => input.roleIds.includes(role.roleId)),
+        }
+      : group
+  );
+  syncEmbeddedCopies();
+  return groups.find((group) => group.groupId === groupId) ?? null;
+};
+
+// Delete a group; members must be reassigned to another group if there are any
+export const deleteGroup = (
+  groupId: string,
+  reassignToGroupId?: string
+): ManagementError | null => {
+  const summary = getGroupSummaries().find((group) => group.groupId === groupId);
+  if (!summary) {
+    return { status: 404, error: 'Group not found' };
+  }
+
+  const target = reassignToGroupId
+    ? groups.find((group) => group.groupId === reassignToGroupId)
+    : undefined;
+
+  if (reassignToGroupId && (!target || reassignToGroupId === groupId)) {
+    return { status: 400, error: 'Reassignment group must be a different, existing group' };
+  }
+
+  if (summary.memberCount > 0 && !target) {
+    return {
+      status: 409,
+      error: `Group has ${summary.memberCount} members. Reassign them to another group to delete it.`,
+    };
+  }
+
+  mockUsers = mockUsers.map((user) => {
+    if (!user.groups.some((group) => group.groupId === groupId)) return user;
+    const remaining = user.groups.filter((group) => group.groupId !== groupId);
+    const alreadyInTarget = remaining.some((group) => group.groupId === target!.groupId);
+    return { ...user, groups: alreadyInTarget ? remaining : [...remaining, target!] };
+  });
+  groups = groups.filter((group) => group.groupId !== groupId);
+  return null;
+};
+
+// Validate role input; excludeRoleId skips the role being renamed in the uniqueness check
+export const validateRoleInput = (
+  input: Partial<RoleInput>,
+  excludeRoleId?: string
+): ManagementError | null => {
+  const roleName = input.roleName?.trim();
+  if (!roleName) {
+    return { status: 400, error: 'Role name is required' };
+  }
+  const duplicate = roles.find(
+    (role) => role.roleName.toLowerCase() === roleName.toLowerCase() && role.roleId !== excludeRoleId
+  );
+  if (duplicate) {
+    return { status: 409, error: `A role named "${duplicate.roleName}" already exists` };
+  }
+  return null;
+};
+
+// Create a role (input must already be validated)
+export const createRole = (input: RoleInput): Role => {
+  const nextId = Math.max(0, ...roles.map((role) => parseInt(role.roleId.replace('role-', '')) || 0)) + 1;
+  const role: Role = { roleId: `role-${nextId}`, roleName: input.roleName.trim() };
+  roles = [...roles, role];
+  return role;
+};
+
+// Rename a role (input must already be validated)
+export const updateRole = (roleId: string, input: RoleInput): Role | null => {
+  if (!roles.some((role) => role.roleId === roleId)) return null;
+
+  roles = roles.map((role) =>
+    role.roleId === roleId ? { ...role, roleName: input.roleName.trim() } : role
+  );
+  syncEmbeddedCopies();
+  return roles.find((role) => role.roleId === roleId) ?? null;
+};
+
 // Get user by ID
 export const getUserById = (userId: string): User | null => {
   return mockUsers.find((u) => u.userId === userId) || null;
 };
 
-// Reset mock data (for testing)
-export const resetMockData = (): void => {
-  mockUsers = generateMockUsers();
+// Users currently in a group
+export const getGroupMembers = (groupId: string): User[] => {
+  return mockUsers.filter((user) => user.groups.some((group) => group.groupId === groupId));
+};
+
+// Audit log (in-memory, oldest first)
+let auditLog: AuditEntry[] = [];
+let nextAuditId = 1;
+
+// Flat field snapshots used to diff an entity before/after a mutation
+type AuditSnapshot = Record<string, string>;
+
+const snapshotUser = (user: User): AuditSnapshot => ({
+  name: user.name,
+  email: user.email,
+  status: user.status,
+  groups: user.groups.map((group) => group.groupName).join(', '),
+});
+
+const snapshotGroup = (group: Group): AuditSnapshot => ({
+  groupName: group.groupName,
+  roles: group.roles.map((role) => role.roleName).join(', '),
+});
+
+const snapshotRole = (role: Role): AuditSnapshot => ({
+  roleName: role.roleName,
+});
+
+// Fields whose value differs between two snapshots (either may be missing)
+const diffSnapshots = (
+  before: AuditSnapshot | null,
+  after: AuditSnapshot | null
+): AuditChange[] => {
+  const fields = Object.keys({ ...before, ...after });
+  return fields
+    .map((field) => ({
+      field,
+      before: before?.[field] ?? null,
+      after: after?.[field] ?? null,
+    }))
+    .filter((change) => change.before !== change.after);
+};
+
+const appendAuditEntry = (
+  actor: User,
+  action: AuditAction,
+  target: Pick<AuditEntry, 'targetType' | 'targetId' | 'targetName'>,
+  changes: AuditChange[]
+): AuditEntry => {
+  const entry: AuditEntry = {
+    auditId: `audit-${nextAuditId++}`,
+    timestamp: new Date().toISOString(),
+    actorId: actor.userId,
+    actorName: actor.name,
+    action,
+    ...target,
+    changes,
+  };
+  auditLog = [...auditLog, entry];
+  return entry;
+};
+
+// Record a user mutation; the action is derived from what changed.
+// Updates that changed nothing are not recorded.
+export const recordUserAudit = (
+  actor: User,
+  before: User | null,
+  after: User | null
+): AuditEntry | null => {
+  const target = after ?? before;
+  if (!target) return null;
+
+  const changes = diffSnapshots(before && snapshotUser(before), after && snapshotUser(after));
+  if (before && after && changes.length === 0) return null;
+
+  let action: AuditAction = 'user.updated';
+  if (!before) action = 'user.created';
+  else if (!after) action = 'user.deleted';
+  else if (changes.length === 1 && changes[0].field === 'status') {
+    action = after.status === 'active' ? 'user.activated' : 'user.deactivated';
+  }
+
+  return appendAuditEntry(
+    actor,
+    action,
+    { targetType: 'user', targetId: target.userId, targetName: target.name },
+    changes
+  );
+};
+
+// Record a group mutation (before is null for creates, after is null for deletes)
+export const recordGroupAudit = (
+  actor: User,
+  before: Group | null,
+  after: Group | null
+): AuditEntry | null => {
+  const target = after ?? before;
+  if (!target) return null;
+
+  const changes = diffSnapshots(before && snapshotGroup(before), after && snapshotGroup(after));
+  if (before && after && changes.length === 0) return null;
+
+  const action: AuditAction = !before ? 'group.created' : !after ? 'group.deleted' : 'group.updated';
+  return appendAuditEntry(
+    actor,
+    action,
+    { targetType: 'group', targetId: target.groupId, targetName: target.groupName },
+    changes
+  );
+};
+
+// Record a role mutation (before is null for creates)
+export const recordRoleAudit = (
+  actor: User,
+  before: Role | null,
+  after: Role
+): AuditEntry | null => {
+  const changes = diffSnapshots(before && snapshotRole(before), snapshotRole(after));
+  if (before && changes.length === 0) return null;
+
+  return appendAuditEntry(
+    actor,
+    before ? 'role.updated' : 'role.created',
+    { targetType: 'role', targetId: after.roleId, targetName: after.roleName },
+    changes
+  );
+};
+
+// Does an ID/name filter match? IDs match exactly, names/emails by substring
+const matchesParty = (filter: string, id: string, ...names: string[]): boolean => {
+  const term = filter.trim().toLowerCase();
+  return id.toLowerCase() === term || names.some((name) => name.toLowerCase().includes(term));
+};
+
+// Get audit entries (newest first, with filtering and pagination)
+export const getAuditLog = (
+  params: AuditQueryParams
+): { entries: AuditEntry[]; totalCount: number } => {
+  let filtered = [...auditLog].reverse();
+
+  if (params.actor) {
+    const actor = params.actor;
+    filtered = filtered.filter((entry) => {
+      const actorEmail = getUserById(entry.actorId)?.email ?? '';
+      return matchesParty(actor, entry.actorId, entry.actorName, actorEmail);
+    });
+  }
+
+  if (params.target) {
+    const target = params.target;
+    filtered = filtered.filter((entry) => matchesParty(target, entry.targetId, entry.targetName));
+  }
+
+  if (params.action) {
+    filtered = filtered.filter((entry) => entry.action === params.action);
+  }
+
+  if (params.from) {
+    const from = params.from;
+    filtered = filtered.filter((entry) => entry.timestamp.slice(0, 10) >= from);
+  }
+
+  if (params.to) {
+    const to = params.to;
+    filtered = filtered.filter((entry) => entry.timestamp.slice(0, 10) <= to);
+  }
+
+  const start = (params.page - 1) * params.pageSize;
+  return {
+    entries: filtered.slice(start, start + params.pageSize),
+    totalCount: filtered.length,
+  };
+};
+
+// Issue a session token; it encodes the user ID so sessions survive a page reload
+// (the in-memory store is rebuilt on reload, but seed account IDs are stable)
+const createSessionToken = (userId: string): string => {
+  return `mock.${btoa(userId)}.${Date.now().toString(36)}`;
+};
+
+// Check credentials and start a session
+export const login = (
+  email: string,
+  password: string
+): { token: string; user: User } | { error: string; status: 401 | 403 } => {
+  const user = mockUsers.find((u) => u.email.toLowerCase() === email.trim().toLowerCase());
+
+  if (!user || password !== MOCK_PASSWORD) {
+    return { error: 'Invalid email or password', status: 401 };
+  }
+
+  if (user.status !== 'active') {
+    return { error: 'This account has been deactivated', status: 403 };
+  }
+
+  return { token: createSessionToken(user.userId), user };
+};
+
+// End a session
+export const logout = (token: string): void => {
+  revokedTokens.add(token);
+};
+
+// Resolve the signed-in user from a session token (null if invalid, revoked or deactivated)
+export const getSessionUser = (token: string): User | null => {
+  if (revokedTokens.has(token)) return null;
+
+  const [prefix, encodedUserId] = token.split('.');
+  if (prefix !== 'mock' || !encodedUserId) return null;
+
+  try {
+    const user = getUserById(atob(encodedUserId));
+    return user?.status === 'active' ? user : null;
+  } catch {
+    return null;
+  }
+};
+
+// Column metadata served per entity. The server knows the bundled user
+// columns plus fields added since (the client picks these up without a release).
+const columnMetadata: Record<string, ColumnMetadata[]> = {
+  users: [
+    ...userColumnMetadata,
+    { key: 'userId', header: 'User ID', type: 'string', width: 160 },
+  ],
+};
+
+// Get the column metadata for an entity (null when unknown)
+export const getColumnMetadata = (entity: string): ColumnMetadata[] | null =>
+  columnMetadata[entity] ?? null;
+
+// Reset mock data (for testing), optionally with a different number of users
+export const resetMockData = (userCount?: number): void => {
+  roles = [...defaultRoles];
+  groups = [...defaultGroups];
+  const users = generateMockUsers(userCount);
+  mockUsers = [...createSeedAccounts(), ...users];
+  nextUserId = users.length + 1;
+  statusChangedAt.clear();
+  revokedTokens.clear();
+  auditLog = [];
+  nextAuditId = 1;
 };
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getResponse } from 'msw';
+import { handlers } from './handlers';
+import { getUserById, getUsers, login, MOCK_PASSWORD, resetMockData } from './data';
+
+// Send a request through the mock handlers as the given account
+const send = async (email: string, path: string, init: RequestInit) => {
+  const session = login(email, MOCK_PASSWORD);
+  if (!('token' in session)) throw new Error(session.error);
+
+  const request = new Request(new URL(path, window.location.origin), {
+    ...init,
+    headers: { Authorization: `Bearer ${session.token}`, 'Content-Type': 'application/json' },
+  });
+  const response = await getResponse(handlers, request);
+  if (!response) throw new Error(`No handler for ${init.method} ${path}`);
+  return response;
+};
+
+describe('mock API handlers', () => {
+  beforeEach(() => {
+    resetMockData();
+  });
+
+  describe('PATCH /api/users/:id', () => {
+    it('should reject an unknown status', async () => {
+      const response = await send('admin@example.com', '/api/users/user-viewer', {
+        method: 'PATCH',
+        body: JSON.stringify({ status: 'banned' }),
+      });
+
+      expect(response.status).toBe(400);
+      expect(getUserById('user-viewer')?.status).toBe('active');
+    });
+  });
+
+  describe('PATCH /api/users', () => {
+    it('should reject an unknown status', async () => {
+      const response = await send('admin@example.com', '/api/users', {
+        method: 'PATCH',
+        body: JSON.stringify({ userIds: ['user-viewer'], status: 'banned' }),
+      });
+
+      expect(response.status).toBe(400);
+      expect(getUserById('user-viewer')?.status).toBe('active');
+    });
+
+    it('should not let managers add users to a privileged group', async () => {
+      const [standardUser] = getUsers({ page: 1, pageSize: 1, privilegeLevel: 'standard' }).users;
+
+      const response = await send('manager@example.com', '/api/users', {
+        method: 'PATCH',
+        body: JSON.stringify({ userIds: [standardUser.userId, 'user-manager'], addGroupId: 'grp-1' }),
+      });
+      const body = await response.json();
+
+      expect(body.success).toBe(false);
+      expect(body.data).toEqual([
+        {
+          userId: standardUser.userId,
+          success: false,
+          error: 'Only administrators can edit an administrator',
+        },
+        {
+          userId: 'user-manager',
+          success: false,
+          error: 'Only administrators can edit an administrator',
+        },
+      ]);
+      expect(getUserById('user-manager')?.groups.map((group) => group.groupId)).toEqual(['grp-2']);
+    });
+  });
+});
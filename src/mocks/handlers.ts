@@ -1,19 +1,232 @@
 import { http, HttpResponse, delay } from 'msw';
-import { getUsers, updateUserStatus } from './data';
+import {
+  getStatusChangedAt,
+  getUsers,
+  getUserById,
+  updateUserStatus,
+  bulkUpdateUsers,
+  validateUserInput,
+  createUser,
+  updateUser,
+  deleteUser,
+  getGroups,
+  getGroupSummaries,
+  getRoles,
+  getRoleSummaries,
+  validateGroupInput,
+  createGroup,
+  updateGroup,
+  deleteGroup,
+  validateRoleInput,
+  createRole,
+  updateRole,
+  getGroupMembers,
+  recordUserAudit,
+  recordGroupAudit,
+  recordRoleAudit,
+  getAuditLog,
+  validateImportRows,
+  importUsers,
+  login,
+  logout,
+  getSessionUser,
+  getColumnMetadata,
+} from './data';
+import type {
+  SortDirection,
+  BulkUserUpdate,
+  BulkUserResult,
+  User,
+  UserInput,
+  GroupInput,
+  RoleInput,
+  AuditAction,
+  UserImportRequest,
+  UserImportRowResult,
+} from '@/types';
+import {
+  canManageGroups,
+  canManageUsers,
+  getActionDeniedReason,
+  getPrivilegeLevel,
+  type PrivilegeLevel,
+  type UserAction,
+} from '@/utils/roleUtils';
+
+// Read the bearer token from the Authorization header
+const getBearerToken = (request: Request): string | null => {
+  const header = request.headers.get('Authorization');
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+};
+
+// Resolve the signed-in user for a request (null when the token is missing or invalid)
+const getRequestUser = (request: Request): User | null => {
+  const token = getBearerToken(request);
+  return token ? getSessionUser(token) : null;
+};
+
+// 401 response in the ApiResponse shape
+const unauthorizedResponse = () =>
+  HttpResponse.json(
+    { success: false, error: 'Unauthorized', message: 'Please sign in to continue' },
+    { status: 401 }
+  );
+
+// Why the signed-in user may not perform an action on the target (null when allowed)
+const getDeniedReason = (currentUser: User, target: User, action: UserAction): string | null => {
+  return getActionDeniedReason(getPrivilegeLevel(currentUser), target, action);
+};
+
+// 403 response in the ApiResponse shape
+const forbiddenResponse = (message: string) =>
+  HttpResponse.json(
+    { success: false, error: 'Forbidden', message },
+    { status: 403 }
+  );
+
+// Resolve the signed-in user for a group/role mutation, or the 401/403 response to return
+const requireGroupManager = (request: Request): { response: Response } | { user: User } => {
+  const currentUser = getRequestUser(request);
+  if (!currentUser) {
+    return { response: unauthorizedResponse() };
+  }
+  if (!canManageGroups(getPrivilegeLevel(currentUser))) {
+    return { response: forbiddenResponse('Only administrators can manage groups and roles') };
+  }
+  return { user: currentUser };
+};
+
+// Check a requested status against the statuses users can have
+const isUserStatus = (value: unknown): value is User['status'] =>
+  value === 'active' || value === 'inactive';
+
+// The user as it would look after applying input (for permission checks)
+const applyInput = (input: UserInput, user?: User): User => ({
+  userId: user?.userId ?? 'new-user',
+  createdAt: user?.createdAt ?? new Date().toISOString(),
+  name: input.name,
+  email: input.email,
+  status: input.status,
+  groups: getGroups().filter((group) => input.groupIds.includes(group.groupId)),
+});
+
+// The user as it would look after a bulk group change (for permission checks)
+const applyBulkGroupChange = (update: BulkUserUpdate, user: User): User => ({
+  ...user,
+  groups: [
+    ...user.groups,
+    ...getGroups().filter(
+      (group) =>
+        group.groupId === update.addGroupId && !user.groups.some((g) => g.groupId === group.groupId)
+    ),
+  ].filter((group) => group.groupId !== update.removeGroupId),
+});
 
 export const handlers = [
-  // GET /api/users - Fetch users with pagination and filters
+  // GET /api/health - Connectivity probe (no session needed)
+  http.get('/api/health', async () => {
+    await delay(50);
+
+    return HttpResponse.json({
+      success: true,
+      data: { status: 'ok', time: new Date().toISOString() },
+    });
+  }),
+
+  // POST /api/auth/login - Exchange credentials for a session token
+  http.post('/api/auth/login', async ({ request }) => {
+    await delay(400);
+
+    const body = await request.json() as { email?: string; password?: string };
+
+    if (!body.email || !body.password) {
+      return HttpResponse.json(
+        { success: false, error: 'Email and password are required' },
+        { status: 400 }
+      );
+    }
+
+    const result = login(body.email, body.password);
+
+    if ('error' in result) {
+      return HttpResponse.json(
+        { success: false, error: result.error },
+        { status: result.status }
+      );
+    }
+
+    return HttpResponse.json({
+      success: true,
+      data: result,
+      message: `Signed in as ${result.user.name}`,
+    });
+  }),
+
+  // POST /api/auth/logout - Revoke the current session token
+  http.post('/api/auth/logout', async ({ request }) => {
+    await delay(200);
+
+    const token = getBearerToken(request);
+    if (token) {
+      logout(token);
+    }
+
+    return HttpResponse.json({ success: true, message: 'Signed out' });
+  }),
+
+  // GET /api/me - The signed-in user
+  http.get('/api/me', async ({ request }) => {
+    await delay(200);
+
+    const currentUser = getRequestUser(request);
+
+    if (!currentUser) {
+      return unauthorizedResponse();
+    }
+
+    return HttpResponse.json({
+      success: true,
+      data: currentUser,
+    });
+  }),
+
+  // GET /api/users - Fetch users with pagination, filters and sorting
   http.get('/api/users', async ({ request }) => {
     // Simulate network delay
     await delay(500);
 
+    if (!getRequestUser(request)) {
+      return unauthorizedResponse();
+    }
+
     const url = new URL(request.url);
     const page = parseInt(url.searchParams.get('page') || '1');
     const pageSize = parseInt(url.searchParams.get('pageSize') || '10');
     const query = url.searchParams.get('query') || '';
     const status = url.searchParams.get('status') || 'all';
+    const sortBy = url.searchParams.get('sortBy')?.split(',').filter(Boolean) || [];
+    const sortDir = (url.searchParams.get('sortDir')?.split(',') || []) as SortDirection[];
+    const groupIds = url.searchParams.get('groups')?.split(',').filter(Boolean);
+    const roleIds = url.searchParams.get('roles')?.split(',').filter(Boolean);
+    const createdFrom = url.searchParams.get('createdFrom') || undefined;
+    const createdTo = url.searchParams.get('createdTo') || undefined;
+    const privilegeLevel = (url.searchParams.get('privilegeLevel') || undefined) as
+      | PrivilegeLevel
+      | undefined;
 
-    const result = getUsers({ page, pageSize, query, status });
+    const result = getUsers({
+      page,
+      pageSize,
+      query,
+      status,
+      sortBy,
+      sortDir,
+      groupIds,
+      roleIds,
+      createdFrom,
+      createdTo,
+      privilegeLevel,
+    });
 
     return HttpResponse.json({
       data: {
@@ -23,27 +236,623 @@ export const handlers = [
     });
   }),
 
+  // POST /api/users - Create a user
+  http.post('/api/users', async ({ request }) => {
+    await delay(400);
+
+    const currentUser = getRequestUser(request);
+    if (!currentUser) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json() as UserInput;
+    const validationError = validateUserInput(body);
+
+    if (validationError) {
+      return HttpResponse.json(
+        {
+          success: false,
+          error: validationError.error,
+          message: Object.values(validationError.fieldErrors).join('. '),
+          fieldErrors: validationError.fieldErrors,
+        },
+        { status: validationError.status }
+      );
+    }
+
+    // Creating a user is an edit of a user that doesn't exist yet
+    const deniedReason = getDeniedReason(currentUser, applyInput(body), 'edit');
+    if (deniedReason) {
+      return forbiddenResponse(deniedReason);
+    }
+
+    const user = createUser(body);
+    recordUserAudit(currentUser, null, user);
+
+    return HttpResponse.json(
+      {
+        success: true,
+        data: user,
+        message: `User ${user.name} created`,
+      },
+      { status: 201 }
+    );
+  }),
+
+  // POST /api/users/import - Validate (dryRun) or import rows; invalid rows are skipped
+  http.post('/api/users/import', async ({ request }) => {
+    await delay(600);
+
+    const currentUser = getRequestUser(request);
+    if (!currentUser) {
+      return unauthorizedResponse();
+    }
+
+    if (!canManageUsers(getPrivilegeLevel(currentUser))) {
+      return forbiddenResponse('Your access level does not allow you to import users');
+    }
+
+    const body = await request.json() as UserImportRequest;
+
+    if (!Array.isArray(body.rows) || body.rows.length === 0) {
+      return HttpResponse.json(
+        { success: false, error: 'rows must be a non-empty array' },
+        { status: 400 }
+      );
+    }
+
+    // Rows the signed-in user may not create fail with the reason
+    const validations = validateImportRows(body.rows).map((validation) => {
+      const deniedReason = validation.input
+        ? getDeniedReason(currentUser, applyInput(validation.input), 'edit')
+        : null;
+      return deniedReason
+        ? { ...validation, errors: [deniedReason], input: null }
+        : validation;
+    });
+
+    const rows: UserImportRowResult[] = validations.map((validation) => ({
+      rowNumber: validation.rowNumber,
+      valid: validation.errors.length === 0,
+      errors: validation.errors,
+    }));
+    const validInputs = validations.flatMap((validation) =>
+      validation.input ? [validation.input] : []
+    );
+
+    // Every valid row is created in one step, so a commit never half-applies
+    const created = body.dryRun ? [] : importUsers(validInputs);
+    created.forEach((user) => recordUserAudit(currentUser, null, user));
+
+    const skippedCount = rows.length - validInputs.length;
+
+    return HttpResponse.json({
+      success: true,
+      data: {
+        dryRun: !!body.dryRun,
+        rows,
+        createdCount: created.length,
+        skippedCount,
+      },
+      message: body.dryRun
+        ? `${validInputs.length} rows ready to import, ${skippedCount} with errors`
+        : `Imported ${created.length} users, skipped ${skippedCount}`,
+    });
+  }),
+
+  // GET /api/users/:id - Fetch a single user
+  http.get('/api/users/:id', async ({ params, request }) => {
+    await delay(300);
+
+    if (!getRequestUser(request)) {
+      return unauthorizedResponse();
+    }
+
+    const user = getUserById(params.id as string);
+
+    if (!user) {
+      return HttpResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return HttpResponse.json({
+      success: true,
+      data: user,
+    });
+  }),
+
   // PATCH /api/users/:id - Update user status
   http.patch('/api/users/:id', async ({ params, request }) => {
     // Simulate network delay
     await delay(300);
 
+    const currentUser = getRequestUser(request);
+    if (!currentUser) {
+      return unauthorizedResponse();
+    }
+
     const { id } = params;
-    const body = await request.json() as { status: 'active' | 'inactive' };
+    const body = await request.json() as {
+      status: 'active' | 'inactive';
+      unmodifiedSince?: string;
+    };
 
-    const updatedUser = updateUserStatus(id as string, body.status);
+    if (!isUserStatus(body.status)) {
+      return HttpResponse.json(
+        { success: false, error: 'status must be active or inactive' },
+        { status: 400 }
+      );
+    }
 
-    if (!updatedUser) {
+    const existingUser = getUserById(id as string);
+
+    if (!existingUser) {
       return HttpResponse.json(
         { error: 'User not found' },
         { status: 404 }
       );
     }
 
+    // A change made before the status last changed (e.g. queued offline)
+    // conflicts with whoever changed it since, unless they already made the
+    // same change
+    const changedAt = getStatusChangedAt(existingUser.userId);
+    if (
+      body.unmodifiedSince &&
+      changedAt !== null &&
+      changedAt > Date.parse(body.unmodifiedSince) &&
+      existingUser.status !== body.status
+    ) {
+      return HttpResponse.json(
+        {
+          success: false,
+          error: `${existingUser.name} was changed to ${existingUser.status} by someone else`,
+        },
+        { status: 409 }
+      );
+    }
+
+    // Reject transitions the signed-in user isn't allowed to make
+    const deniedReason = getDeniedReason(
+      currentUser,
+      existingUser,
+      body.status === 'active' ? 'activate' : 'deactivate'
+    );
+    if (deniedReason) {
+      return forbiddenResponse(deniedReason);
+    }
+
+    const updatedUser = updateUserStatus(id as string, body.status);
+    recordUserAudit(currentUser, existingUser, updatedUser);
+
     return HttpResponse.json({
       success: true,
       data: updatedUser,
       message: `User status updated to ${body.status}`,
     });
   }),
+
+  // PUT /api/users/:id - Replace a user's editable fields
+  http.put('/api/users/:id', async ({ params, request }) => {
+    await delay(400);
+
+    const currentUser = getRequestUser(request);
+    if (!currentUser) {
+      return unauthorizedResponse();
+    }
+
+    const { id } = params;
+    const existingUser = getUserById(id as string);
+
+    if (!existingUser) {
+      return HttpResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json() as UserInput;
+    const validationError = validateUserInput(body, id as string);
+
+    if (validationError) {
+      return HttpResponse.json(
+        {
+          success: false,
+          error: validationError.error,
+          message: Object.values(validationError.fieldErrors).join('. '),
+          fieldErrors: validationError.fieldErrors,
+        },
+        { status: validationError.status }
+      );
+    }
+
+    // Check both the current and the resulting user, so nobody can promote past their own level
+    const deniedReason =
+      getDeniedReason(currentUser, existingUser, 'edit') ??
+      getDeniedReason(currentUser, applyInput(body, existingUser), 'edit');
+    if (deniedReason) {
+      return forbiddenResponse(deniedReason);
+    }
+
+    const user = updateUser(id as string, body);
+    recordUserAudit(currentUser, existingUser, user);
+
+    return HttpResponse.json({
+      success: true,
+      data: user,
+      message: `User ${user?.name} updated`,
+    });
+  }),
+
+  // DELETE /api/users/:id - Delete a user
+  http.delete('/api/users/:id', async ({ params, request }) => {
+    await delay(300);
+
+    const currentUser = getRequestUser(request);
+    if (!currentUser) {
+      return unauthorizedResponse();
+    }
+
+    const { id } = params;
+    const user = getUserById(id as string);
+
+    if (!user) {
+      return HttpResponse.json(
+        { success: false, error: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const deniedReason = getDeniedReason(currentUser, user, 'delete');
+    if (deniedReason) {
+      return forbiddenResponse(deniedReason);
+    }
+
+    deleteUser(id as string);
+    recordUserAudit(currentUser, user, null);
+
+    return HttpResponse.json({
+      success: true,
+      message: `User ${user.name} deleted`,
+    });
+  }),
+
+  // PATCH /api/users - Bulk update status and/or group membership
+  http.patch('/api/users', async ({ request }) => {
+    await delay(500);
+
+    const currentUser = getRequestUser(request);
+    if (!currentUser) {
+      return unauthorizedResponse();
+    }
+
+    const body = await request.json() as BulkUserUpdate;
+
+    if (!Array.isArray(body.userIds) || body.userIds.length === 0) {
+      return HttpResponse.json(
+        { success: false, error: 'userIds must be a non-empty array' },
+        { status: 400 }
+      );
+    }
+
+    if (!body.status && !body.addGroupId && !body.removeGroupId) {
+      return HttpResponse.json(
+        { success: false, error: 'No changes requested' },
+        { status: 400 }
+      );
+    }
+
+    if (body.status !== undefined && !isUserStatus(body.status)) {
+      return HttpResponse.json(
+        { success: false, error: 'status must be active or inactive' },
+        { status: 400 }
+      );
+    }
+
+    const knownGroupIds = getGroups().map((group) => group.groupId);
+    const unknownGroupId = [body.addGroupId, body.removeGroupId].find(
+      (groupId) => groupId && !knownGroupIds.includes(groupId)
+    );
+    if (unknownGroupId) {
+      return HttpResponse.json(
+        { success: false, error: `Group ${unknownGroupId} does not exist` },
+        { status: 400 }
+      );
+    }
+
+    // Users the signed-in user may not change fail individually with the reason
+    const changesGroups = !!(body.addGroupId || body.removeGroupId);
+    const actions: UserAction[] = [];
+    if (body.status) actions.push(body.status === 'active' ? 'activate' : 'deactivate');
+    if (changesGroups) actions.push('edit');
+
+    const denied = new Map<string, string>();
+    const usersBefore = new Map<string, User>();
+    const getUserBefore = (userId: string) => usersBefore.get(userId) ?? null;
+    body.userIds.forEach((userId) => {
+      const user = getUserById(userId);
+      if (user) usersBefore.set(userId, user);
+      // Check both the current and the resulting user, as for single edits
+      const reason = user
+        ? actions.map((action) => getDeniedReason(currentUser, user, action)).find(Boolean) ??
+          (changesGroups
+            ? getDeniedReason(currentUser, applyBulkGroupChange(body, user), 'edit')
+            : null)
+        : null;
+      if (reason) denied.set(userId, reason);
+    });
+
+    const allowedResults = bulkUpdateUsers({
+      ...body,
+      userIds: body.userIds.filter((userId) => !denied.has(userId)),
+    });
+    allowedResults.forEach((result) => {
+      if (result.success && result.data) {
+        recordUserAudit(currentUser, getUserBefore(result.userId), result.data);
+      }
+    });
+    const results: BulkUserResult[] = body.userIds.map(
+      (userId) =>
+        allowedResults.find((result) => result.userId === userId) ?? {
+          userId,
+          success: false,
+          error: denied.get(userId),
+        }
+    );
+    const successCount = results.filter((result) => result.success).length;
+
+    return HttpResponse.json({
+      success: successCount === results.length,
+      data: results,
+      message: `Updated ${successCount} of ${results.length} users`,
+    });
+  }),
+
+  // GET /api/metadata/:entity - Column metadata for an entity's table
+  http.get('/api/metadata/:entity', async ({ request, params }) => {
+    await delay(150);
+
+    if (!getRequestUser(request)) {
+      return unauthorizedResponse();
+    }
+
+    const columns = getColumnMetadata(params.entity as string);
+    if (!columns) {
+      return HttpResponse.json(
+        { success: false, error: `No metadata for "${params.entity}"` },
+        { status: 404 }
+      );
+    }
+
+    return HttpResponse.json({
+      success: true,
+      data: columns,
+    });
+  }),
+
+  // GET /api/groups - Fetch all groups with their roles and member counts
+  http.get('/api/groups', async ({ request }) => {
+    await delay(200);
+
+    if (!getRequestUser(request)) {
+      return unauthorizedResponse();
+    }
+
+    return HttpResponse.json({
+      success: true,
+      data: getGroupSummaries(),
+    });
+  }),
+
+  // POST /api/groups - Create a group
+  http.post('/api/groups', async ({ request }) => {
+    await delay(400);
+
+    const auth = requireGroupManager(request);
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const body = await request.json() as GroupInput;
+    const validationError = validateGroupInput(body);
+    if (validationError) {
+      return HttpResponse.json(
+        { success: false, error: validationError.error },
+        { status: validationError.status }
+      );
+    }
+
+    const group = createGroup(body);
+    recordGroupAudit(auth.user, null, group);
+
+    return HttpResponse.json(
+      { success: true, data: group, message: `Group ${group.groupName} created` },
+      { status: 201 }
+    );
+  }),
+
+  // PUT /api/groups/:id - Rename a group and/or replace its roles
+  http.put('/api/groups/:id', async ({ params, request }) => {
+    await delay(400);
+
+    const auth = requireGroupManager(request);
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const { id } = params;
+    const existingGroup = getGroups().find((group) => group.groupId === id);
+    if (!existingGroup) {
+      return HttpResponse.json(
+        { success: false, error: 'Group not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json() as GroupInput;
+    const validationError = validateGroupInput(body, id as string);
+    if (validationError) {
+      return HttpResponse.json(
+        { success: false, error: validationError.error },
+        { status: validationError.status }
+      );
+    }
+
+    const group = updateGroup(id as string, body);
+    recordGroupAudit(auth.user, existingGroup, group);
+
+    return HttpResponse.json({
+      success: true,
+      data: group,
+      message: `Group ${group?.groupName} updated`,
+    });
+  }),
+
+  // DELETE /api/groups/:id?reassignTo= - Delete a group, moving its members to another group
+  http.delete('/api/groups/:id', async ({ params, request }) => {
+    await delay(400);
+
+    const auth = requireGroupManager(request);
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const { id } = params;
+    const reassignTo = new URL(request.url).searchParams.get('reassignTo') || undefined;
+    const existingGroup = getGroups().find((group) => group.groupId === id) ?? null;
+    const membersBefore = getGroupMembers(id as string);
+    const deleteError = deleteGroup(id as string, reassignTo);
+    if (deleteError) {
+      return HttpResponse.json(
+        { success: false, error: deleteError.error },
+        { status: deleteError.status }
+      );
+    }
+
+    // Reassigned members changed groups, so each gets their own entry
+    recordGroupAudit(auth.user, existingGroup, null);
+    membersBefore.forEach((member) => {
+      recordUserAudit(auth.user, member, getUserById(member.userId));
+    });
+
+    return HttpResponse.json({
+      success: true,
+      message: 'Group deleted',
+    });
+  }),
+
+  // GET /api/roles - Fetch all roles with the number of groups granting them
+  http.get('/api/roles', async ({ request }) => {
+    await delay(200);
+
+    if (!getRequestUser(request)) {
+      return unauthorizedResponse();
+    }
+
+    return HttpResponse.json({
+      success: true,
+      data: getRoleSummaries(),
+    });
+  }),
+
+  // POST /api/roles - Create a role
+  http.post('/api/roles', async ({ request }) => {
+    await delay(400);
+
+    const auth = requireGroupManager(request);
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const body = await request.json() as RoleInput;
+    const validationError = validateRoleInput(body);
+    if (validationError) {
+      return HttpResponse.json(
+        { success: false, error: validationError.error },
+        { status: validationError.status }
+      );
+    }
+
+    const role = createRole(body);
+    recordRoleAudit(auth.user, null, role);
+
+    return HttpResponse.json(
+      { success: true, data: role, message: `Role ${role.roleName} created` },
+      { status: 201 }
+    );
+  }),
+
+  // PUT /api/roles/:id - Rename a role
+  http.put('/api/roles/:id', async ({ params, request }) => {
+    await delay(400);
+
+    const auth = requireGroupManager(request);
+    if ('response' in auth) {
+      return auth.response;
+    }
+
+    const { id } = params;
+    const existingRole = getRoles().find((role) => role.roleId === id);
+    if (!existingRole) {
+      return HttpResponse.json(
+        { success: false, error: 'Role not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json() as RoleInput;
+    const validationError = validateRoleInput(body, id as string);
+    if (validationError) {
+      return HttpResponse.json(
+        { success: false, error: validationError.error },
+        { status: validationError.status }
+      );
+    }
+
+    const role = updateRole(id as string, body);
+    if (role) recordRoleAudit(auth.user, existingRole, role);
+
+    return HttpResponse.json({
+      success: true,
+      data: role,
+      message: `Role ${role?.roleName} renamed`,
+    });
+  }),
+
+  // GET /api/audit - Fetch audit entries (newest first) with filtering and pagination
+  http.get('/api/audit', async ({ request }) => {
+    await delay(300);
+
+    const currentUser = getRequestUser(request);
+    if (!currentUser) {
+      return unauthorizedResponse();
+    }
+
+    if (!canManageUsers(getPrivilegeLevel(currentUser))) {
+      return forbiddenResponse('Your access level does not allow you to view the audit log');
+    }
+
+    const url = new URL(request.url);
+    const page = parseInt(url.searchParams.get('page') || '1');
+    const pageSize = parseInt(url.searchParams.get('pageSize') || '10');
+
+    const result = getAuditLog({
+      page,
+      pageSize,
+      actor: url.searchParams.get('actor') || undefined,
+      target: url.searchParams.get('target') || undefined,
+      action: (url.searchParams.get('action') as AuditAction | null) || undefined,
+      from: url.searchParams.get('from') || undefined,
+      to: url.searchParams.get('to') || undefined,
+    });
+
+    return HttpResponse.json({
+      data: {
+        totalCount: result.totalCount,
+        entries: result.entries,
+      },
+    });
+  }),
 ];
@@ -0,0 +1,200 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  Box,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import dayjs from 'dayjs';
+import type { MRT_PaginationState } from 'material-react-table';
+import { DynamicGrid, ErrorAlert, OfflineBanner, OfflinePage } from '@/components';
+import { useAuditLog, useDebounce, useNetworkStatus, isNetworkError } from '@/hooks';
+import { auditColumnMetadata, auditActionLabels, formatAuditChanges } from '@/utils';
+import type { AuditAction, AuditEntry, AuditRow } from '@/types';
+
+const DATE_FORMAT = 'YYYY-MM-DD';
+
+const auditActions = Object.keys(auditActionLabels) as AuditAction[];
+
+/**
+ * Audit Log Page Component
+ *
+ * Lists every recorded mutation, newest first, filterable by actor,
+ * target, action and date range. Filters and page live in the URL so a
+ * filtered view (e.g. a user's history) can be linked to.
+ */
+export const AuditPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { isOffline, isDegraded, isBrowserOffline, checkNow } = useNetworkStatus();
+
+  // Initialize state from URL params (read once on mount)
+  const [actor, setActor] = useState(() => searchParams.get('actor') || '');
+  const [target, setTarget] = useState(() => searchParams.get('target') || '');
+  const [action, setAction] = useState<AuditAction | ''>(
+    () => (searchParams.get('action') as AuditAction | null) || ''
+  );
+  const [from, setFrom] = useState(() => searchParams.get('from') || '');
+  const [to, setTo] = useState(() => searchParams.get('to') || '');
+  const [pagination, setPagination] = useState<MRT_PaginationState>(() => {
+    const page = searchParams.get('page');
+    return { pageIndex: page ? parseInt(page) - 1 : 0, pageSize: 20 };
+  });
+
+  const debouncedActor = useDebounce(actor, 300);
+  const debouncedTarget = useDebounce(target, 300);
+
+  // Sync state changes to URL
+  useEffect(() => {
+    const params = new URLSearchParams();
+    params.set('page', String(pagination.pageIndex + 1));
+    if (actor) params.set('actor', actor);
+    if (target) params.set('target', target);
+    if (action) params.set('action', action);
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    setSearchParams(params, { replace: true });
+  }, [pagination.pageIndex, actor, target, action, from, to, setSearchParams]);
+
+  // Any filter change goes back to the first page
+  const resetPage = () => setPagination((prev) => ({ ...prev, pageIndex: 0 }));
+
+  const { data, isLoading, isFetching, error, refetch } = useAuditLog({
+    page: pagination.pageIndex + 1,
+    pageSize: pagination.pageSize,
+    actor: debouncedActor,
+    target: debouncedTarget,
+    action: action || undefined,
+    from: from || undefined,
+    to: to || undefined,
+  });
+
+  const rows: AuditRow[] = (data?.data?.entries ?? []).map((entry: AuditEntry) => ({
+    ...entry,
+    actionLabel: auditActionLabels[entry.action] ?? entry.action,
+    changeSummary: formatAuditChanges(entry.changes),
+  }));
+
+  if (error) {
+    return (
+      <Box>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Audit Log
+        </Typography>
+        {isNetworkError(error) || isOffline ? (
+          <OfflinePage
+            onRetry={() => {
+              checkNow();
+              refetch();
+            }}
+            message="Unable to load the audit log."
+            reason={isBrowserOffline ? 'offline' : 'unreachable'}
+          />
+        ) : (
+          <ErrorAlert
+            title="Failed to Load Audit Log"
+            message={`Something went wrong while loading the audit log: ${error.message}`}
+            error={error}
+            onRetry={() => refetch()}
+            showRetry={true}
+          />
+        )}
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <OfflineBanner
+        isOffline={isOffline}
+        isDegraded={isDegraded}
+        reason={isBrowserOffline ? 'offline' : 'unreachable'}
+      />
+
+      <Typography variant="h4" component="h1" gutterBottom>
+        Audit Log
+      </Typography>
+
+      {/* Filters */}
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+          <TextField
+            label="Actor"
+            placeholder="Name, email or ID"
+            value={actor}
+            onChange={(e) => {
+              setActor(e.target.value);
+              resetPage();
+            }}
+            size="small"
+          />
+          <TextField
+            label="Target"
+            placeholder="Name or ID"
+            value={target}
+            onChange={(e) => {
+              setTarget(e.target.value);
+              resetPage();
+            }}
+            size="small"
+          />
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>Action</InputLabel>
+            <Select
+              value={action}
+              label="Action"
+              onChange={(e) => {
+                setAction(e.target.value as AuditAction | '');
+                resetPage();
+              }}
+            >
+              <MenuItem value="">All Actions</MenuItem>
+              {auditActions.map((value) => (
+                <MenuItem key={value} value={value}>
+                  {auditActionLabels[value]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <DatePicker
+            label="From"
+            value={from ? dayjs(from) : null}
+            onChange={(value) => {
+              setFrom(value?.isValid() ? value.format(DATE_FORMAT) : '');
+              resetPage();
+            }}
+            slotProps={{ textField: { size: 'small' }, field: { clearable: true } }}
+          />
+          <DatePicker
+            label="To"
+            value={to ? dayjs(to) : null}
+            onChange={(value) => {
+              setTo(value?.isValid() ? value.format(DATE_FORMAT) : '');
+              resetPage();
+            }}
+            slotProps={{ textField: { size: 'small' }, field: { clearable: true } }}
+          />
+        </Box>
+      </Paper>
+
+      <Paper>
+        <DynamicGrid
+          data={rows}
+          columns={auditColumnMetadata}
+          isLoading={isLoading}
+          isFetching={isFetching}
+          totalCount={data?.data?.totalCount || 0}
+          pagination={pagination}
+          onPaginationChange={setPagination}
+          getRowId={(entry) => entry.auditId}
+          tableId="audit-table"
+        />
+      </Paper>
+    </Box>
+  );
+};
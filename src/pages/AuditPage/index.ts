@@ -0,0 +1 @@
+export { AuditPage } from './AuditPage';
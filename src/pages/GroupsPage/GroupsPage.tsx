@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { Box, Button, Paper, Typography } from '@mui/material';
+import GroupAddIcon from '@mui/icons-material/GroupAdd';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useSnackbar } from 'notistack';
+import type { MRT_PaginationState, MRT_SortingState } from 'material-react-table';
+import {
+  DynamicGrid,
+  GroupFormDialog,
+  DeleteGroupDialog,
+  ErrorAlert,
+  OfflineBanner,
+  OfflinePage,
+  sortRows,
+} from '@/components';
+import type { RowAction } from '@/components';
+import {
+  useGroups,
+  useRoles,
+  useCreateGroup,
+  useUpdateGroup,
+  useDeleteGroup,
+  useCurrentUser,
+  useNetworkStatus,
+  isNetworkError,
+  readTablePreferences,
+} from '@/hooks';
+import { canManageGroups } from '@/utils';
+import type { ColumnMetadata, GroupInput, GroupSummary } from '@/types';
+
+// Group with the display fields shown in the grid
+type GroupRow = GroupSummary & {
+  roleNames: string;
+};
+
+const groupColumns: ColumnMetadata<GroupRow>[] = [
+  { key: 'groupName', header: 'Group', type: 'string', sorting: true, width: 220 },
+  { key: 'roleNames', header: 'Roles', type: 'string', width: 320 },
+  { key: 'memberCount', header: 'Members', type: 'number', sorting: true, width: 120 },
+];
+
+/**
+ * Groups Page Component
+ *
+ * Lists groups with their roles and member counts. Administrators can
+ * create, rename and delete groups and change the roles each grants.
+ */
+export const GroupsPage: React.FC = () => {
+  const { enqueueSnackbar } = useSnackbar();
+  const { isOffline, isDegraded, isBrowserOffline, checkNow } = useNetworkStatus();
+  const { privilegeLevel } = useCurrentUser();
+  const canManage = !!privilegeLevel && canManageGroups(privilegeLevel);
+
+  const { data: groups = [], isLoading, isFetching, error, refetch } = useGroups();
+  const { data: roles = [] } = useRoles();
+  const createGroupMutation = useCreateGroup();
+  const updateGroupMutation = useUpdateGroup();
+  const deleteGroupMutation = useDeleteGroup();
+
+  const [pagination, setPagination] = useState<MRT_PaginationState>({ pageIndex: 0, pageSize: 10 });
+  const [sorting, setSorting] = useState<MRT_SortingState>(
+    () => readTablePreferences('groups-table').sorting
+  );
+  const [formState, setFormState] = useState<{ group?: GroupSummary } | null>(null);
+  const [groupToDelete, setGroupToDelete] = useState<GroupSummary | null>(null);
+  const formMutation = formState?.group ? updateGroupMutation : createGroupMutation;
+
+  const handleSortingChange = (newSorting: MRT_SortingState) => {
+    setSorting(newSorting);
+    setPagination((prev) => ({ ...prev, pageIndex: 0 }));
+  };
+
+  const handleOpenForm = (group?: GroupSummary) => {
+    createGroupMutation.reset();
+    updateGroupMutation.reset();
+    setFormState({ group });
+  };
+
+  const handleFormSubmit = (input: GroupInput) => {
+    const options = {
+      onSuccess: (response: { message?: string }) => {
+        enqueueSnackbar(response.message ?? 'Group saved', { variant: 'success' });
+        setFormState(null);
+      },
+    };
+
+    if (formState?.group) {
+      updateGroupMutation.mutate({ groupId: formState.group.groupId, input }, options);
+    } else {
+      createGroupMutation.mutate(input, options);
+    }
+  };
+
+  const handleOpenDelete = (group: GroupSummary) => {
+    deleteGroupMutation.reset();
+    setGroupToDelete(group);
+  };
+
+  const handleConfirmDelete = (reassignToGroupId?: string) => {
+    if (!groupToDelete) return;
+
+    deleteGroupMutation.mutate(
+      { groupId: groupToDelete.groupId, reassignToGroupId },
+      {
+        onSuccess: () => {
+          enqueueSnackbar(`Group ${groupToDelete.groupName} deleted`, { variant: 'success' });
+          setGroupToDelete(null);
+        },
+      }
+    );
+  };
+
+  const groupRowActions: RowAction<GroupRow>[] = [
+    {
+      id: 'edit',
+      label: 'Edit group',
+      icon: <EditIcon fontSize="small" />,
+      onAction: handleOpenForm,
+    },
+    {
+      id: 'delete',
+      label: 'Delete group',
+      icon: <DeleteIcon fontSize="small" />,
+      color: 'error',
+      onAction: handleOpenDelete, // Confirmed (with reassignment) by DeleteGroupDialog
+    },
+  ];
+
+  // Groups are few, so the list is sorted and paged client-side
+  const rows: GroupRow[] = groups.map((group) => ({
+    ...group,
+    roleNames: group.roles.map((role) => role.roleName).join(', '),
+  }));
+  const pageRows = sortRows(rows, sorting, groupColumns).slice(
+    pagination.pageIndex * pagination.pageSize,
+    (pagination.pageIndex + 1) * pagination.pageSize
+  );
+
+  if (error) {
+    return (
+      <Box>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Groups
+        </Typography>
+        {isNetworkError(error) || isOffline ? (
+          <OfflinePage
+            onRetry={() => {
+              checkNow();
+              refetch();
+            }}
+            message="Unable to load groups."
+            reason={isBrowserOffline ? 'offline' : 'unreachable'}
+          />
+        ) : (
+          <ErrorAlert
+            title="Failed to Load Groups"
+            message={`Something went wrong while loading groups: ${error.message}`}
+            error={error}
+            onRetry={() => refetch()}
+            showRetry={true}
+          />
+        )}
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <OfflineBanner
+        isOffline={isOffline}
+        isDegraded={isDegraded}
+        reason={isBrowserOffline ? 'offline' : 'unreachable'}
+      />
+
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Groups
+        </Typography>
+        {canManage && (
+          <Button variant="contained" startIcon={<GroupAddIcon />} onClick={() => handleOpenForm()}>
+            Add Group
+          </Button>
+        )}
+      </Box>
+
+      <Paper>
+        <DynamicGrid
+          data={pageRows}
+          columns={groupColumns}
+          isLoading={isLoading}
+          isFetching={isFetching}
+          totalCount={groups.length}
+          pagination={pagination}
+          onPaginationChange={setPagination}
+          sorting={sorting}
+          onSortingChange={handleSortingChange}
+          getRowId={(group) => group.groupId}
+          rowActions={canManage ? groupRowActions : undefined}
+          enableRowContextMenu
+          tableId="groups-table"
+        />
+      </Paper>
+
+      <GroupFormDialog
+        open={!!formState}
+        group={formState?.group}
+        roles={roles}
+        onClose={() => setFormState(null)}
+        onSubmit={handleFormSubmit}
+        isSubmitting={formMutation.isPending}
+        submitError={formMutation.error?.message}
+      />
+
+      <DeleteGroupDialog
+        open={!!groupToDelete}
+        group={groupToDelete}
+        groups={groups}
+        onClose={() => setGroupToDelete(null)}
+        onConfirm={handleConfirmDelete}
+        isDeleting={deleteGroupMutation.isPending}
+        submitError={deleteGroupMutation.error?.message}
+      />
+    </Box>
+  );
+};
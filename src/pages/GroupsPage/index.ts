@@ -0,0 +1 @@
+export { GroupsPage } from './GroupsPage';
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Navigate, useLocation, useNavigate, type Location } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Paper,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+import AdminPanelSettingsIcon from '@mui/icons-material/AdminPanelSettings';
+import { useCurrentUser } from '@/hooks';
+
+// Demo accounts seeded by the mock API (password: "password")
+const demoAccounts = [
+  { email: 'admin@example.com', label: 'Administrator' },
+  { email: 'manager@example.com', label: 'Manager' },
+  { email: 'viewer@example.com', label: 'Read only' },
+];
+
+/**
+ * Login Page Component
+ *
+ * Signs in against the mock API and returns to the page the user was
+ * sent here from (including its search params), or the users list.
+ */
+export const LoginPage: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { isAuthenticated, signIn } = useCurrentUser();
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const from = (location.state as { from?: Location } | null)?.from;
+  const redirectTo = from ? `${from.pathname}${from.search}` : '/users';
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      await signIn(email, password);
+      navigate(redirectTo, { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+      setIsSubmitting(false);
+    }
+  };
+
+  // Already signed in (e.g. navigating back to /login)
+  if (isAuthenticated && !isSubmitting) {
+    return <Navigate to={redirectTo} replace />;
+  }
+
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'center',
+        minHeight: '100vh',
+        p: 3,
+        backgroundColor: 'background.default',
+      }}
+    >
+      <Paper elevation={3} sx={{ p: 4, width: '100%', maxWidth: 400 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 3 }}>
+          <AdminPanelSettingsIcon color="primary" />
+          <Typography variant="h5" component="h1">
+            Sign in to Admin Dashboard
+          </Typography>
+        </Box>
+
+        <form onSubmit={handleSubmit} noValidate>
+          <Stack spacing={2}>
+            {error && <Alert severity="error">{error}</Alert>}
+            <TextField
+              label="Email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              autoComplete="username"
+              required
+              autoFocus
+              fullWidth
+            />
+            <TextField
+              label="Password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+              required
+              fullWidth
+            />
+            <Button
+              type="submit"
+              variant="contained"
+              size="large"
+              disabled={isSubmitting || !email || !password}
+              startIcon={isSubmitting ? <CircularProgress size={16} color="inherit" /> : undefined}
+            >
+              Sign In
+            </Button>
+          </Stack>
+        </form>
+
+        <Alert severity="info" sx={{ mt: 3 }}>
+          Demo accounts (password <strong>password</strong>):
+          <Box component="ul" sx={{ m: 0, pl: 2 }}>
+            {demoAccounts.map((account) => (
+              <li key={account.email}>
+                {account.email} ({account.label})
+              </li>
+            ))}
+          </Box>
+        </Alert>
+      </Paper>
+    </Box>
+  );
+};
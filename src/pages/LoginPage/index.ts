@@ -0,0 +1 @@
+export { LoginPage } from './LoginPage';
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { Box, Button, Paper, Typography } from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import { useSnackbar } from 'notistack';
+import type { MRT_PaginationState, MRT_SortingState } from 'material-react-table';
+import {
+  DynamicGrid,
+  RoleFormDialog,
+  ErrorAlert,
+  OfflineBanner,
+  OfflinePage,
+  sortRows,
+} from '@/components';
+import type { RowAction } from '@/components';
+import {
+  useRoles,
+  useCreateRole,
+  useUpdateRole,
+  useCurrentUser,
+  useNetworkStatus,
+  isNetworkError,
+  readTablePreferences,
+} from '@/hooks';
+import { canManageGroups } from '@/utils';
+import type { ColumnMetadata, RoleInput, RoleSummary } from '@/types';
+
+const roleColumns: ColumnMetadata<RoleSummary>[] = [
+  { key: 'roleName', header: 'Role', type: 'string', sorting: true, width: 240 },
+  { key: 'roleId', header: 'Role ID', type: 'string', width: 160 },
+  { key: 'groupCount', header: 'Granted By (Groups)', type: 'number', sorting: true, width: 180 },
+];
+
+/**
+ * Roles Page Component
+ *
+ * Lists roles with the number of groups granting them. Administrators
+ * can create and rename roles; roles are assigned on the Groups page.
+ */
+export const RolesPage: React.FC = () => {
+  const { enqueueSnackbar } = useSnackbar();
+  const { isOffline, isDegraded, isBrowserOffline, checkNow } = useNetworkStatus();
+  const { privilegeLevel } = useCurrentUser();
+  const canManage = !!privilegeLevel && canManageGroups(privilegeLevel);
+
+  const { data: roles = [], isLoading, isFetching, error, refetch } = useRoles();
+  const createRoleMutation = useCreateRole();
+  const updateRoleMutation = useUpdateRole();
+
+  const [pagination, setPagination] = useState<MRT_PaginationState>({ pageIndex: 0, pageSize: 10 });
+  const [sorting, setSorting] = useState<MRT_SortingState>(
+    () => readTablePreferences('roles-table').sorting
+  );
+  const [formState, setFormState] = useState<{ role?: RoleSummary } | null>(null);
+  const formMutation = formState?.role ? updateRoleMutation : createRoleMutation;
+
+  const handleSortingChange = (newSorting: MRT_SortingState) => {
+    setSorting(newSorting);
+    setPagination((prev) => ({ ...prev, pageIndex: 0 }));
+  };
+
+  const handleOpenForm = (role?: RoleSummary) => {
+    createRoleMutation.reset();
+    updateRoleMutation.reset();
+    setFormState({ role });
+  };
+
+  const handleFormSubmit = (input: RoleInput) => {
+    const options = {
+      onSuccess: (response: { message?: string }) => {
+        enqueueSnackbar(response.message ?? 'Role saved', { variant: 'success' });
+        setFormState(null);
+      },
+    };
+
+    if (formState?.role) {
+      updateRoleMutation.mutate({ roleId: formState.role.roleId, input }, options);
+    } else {
+      createRoleMutation.mutate(input, options);
+    }
+  };
+
+  const roleRowActions: RowAction<RoleSummary>[] = [
+    {
+      id: 'rename',
+      label: 'Rename role',
+      icon: <EditIcon fontSize="small" />,
+      onAction: handleOpenForm,
+    },
+  ];
+
+  // Roles are few, so the list is sorted and paged client-side
+  const pageRows = sortRows(roles, sorting, roleColumns).slice(
+    pagination.pageIndex * pagination.pageSize,
+    (pagination.pageIndex + 1) * pagination.pageSize
+  );
+
+  if (error) {
+    return (
+      <Box>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Roles
+        </Typography>
+        {isNetworkError(error) || isOffline ? (
+          <OfflinePage
+            onRetry={() => {
+              checkNow();
+              refetch();
+            }}
+            message="Unable to load roles."
+            reason={isBrowserOffline ? 'offline' : 'unreachable'}
+          />
+        ) : (
+          <ErrorAlert
+            title="Failed to Load Roles"
+            message={`Something went wrong while loading roles: ${error.message}`}
+            error={error}
+            onRetry={() => refetch()}
+            showRetry={true}
+          />
+        )}
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <OfflineBanner
+        isOffline={isOffline}
+        isDegraded={isDegraded}
+        reason={isBrowserOffline ? 'offline' : 'unreachable'}
+      />
+
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Roles
+        </Typography>
+        {canManage && (
+          <Button variant="contained" startIcon={<AddIcon />} onClick={() => handleOpenForm()}>
+            Add Role
+          </Button>
+        )}
+      </Box>
+
+      <Paper>
+        <DynamicGrid
+          data={pageRows}
+          columns={roleColumns}
+          isLoading={isLoading}
+          isFetching={isFetching}
+          totalCount={roles.length}
+          pagination={pagination}
+          onPaginationChange={setPagination}
+          sorting={sorting}
+          onSortingChange={handleSortingChange}
+          getRowId={(role) => role.roleId}
+          rowActions={canManage ? roleRowActions : undefined}
+          enableRowContextMenu
+          tableId="roles-table"
+        />
+      </Paper>
+
+      <RoleFormDialog
+        open={!!formState}
+        role={formState?.role}
+        onClose={() => setFormState(null)}
+        onSubmit={handleFormSubmit}
+        isSubmitting={formMutation.isPending}
+        submitError={formMutation.error?.message}
+      />
+    </Box>
+  );
+};
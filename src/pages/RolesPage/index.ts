@@ -0,0 +1 @@
+export { RolesPage } from './RolesPage';
@@ -0,0 +1,290 @@
+import React from 'react';
+import { Link as RouterLink, useNavigate, useParams } from 'react-router-dom';
+import {
+  Box,
+  Breadcrumbs,
+  Button,
+  Chip,
+  Divider,
+  Link,
+  Paper,
+  Skeleton,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import { ApiError } from '@/api';
+import { ErrorAlert, OfflinePage } from '@/components';
+import { useUser, useAuditLog, useCurrentUser, useNetworkStatus, isNetworkError } from '@/hooks';
+import {
+  formatDate,
+  getAllRoles,
+  getPrivilegeLevel,
+  getPrivilegeBadgeColor,
+  canManageUsers,
+  auditActionLabels,
+  formatAuditChanges,
+  formatAuditTimestamp,
+} from '@/utils';
+
+// Human readable privilege labels
+const privilegeLabels = {
+  admin: 'Administrator',
+  management: 'Management',
+  standard: 'Standard',
+  readonly: 'Read Only',
+} as const;
+
+/**
+ * Label/value row for the profile section
+ */
+const ProfileField: React.FC<{ label: string; children: React.ReactNode }> = ({
+  label,
+  children,
+}) => (
+  <Box sx={{ display: 'flex', gap: 2, py: 1 }}>
+    <Typography variant="body2" color="text.secondary" sx={{ width: 140, flexShrink: 0 }}>
+      {label}
+    </Typography>
+    <Box sx={{ typography: 'body2' }}>{children}</Box>
+  </Box>
+);
+
+// Number of history entries shown before linking to the full audit log
+const HISTORY_LIMIT = 10;
+
+/**
+ * The user's most recent audit entries (they are the target)
+ */
+const UserHistory: React.FC<{ userId: string }> = ({ userId }) => {
+  const { data, isLoading, error } = useAuditLog({
+    page: 1,
+    pageSize: HISTORY_LIMIT,
+    target: userId,
+  });
+
+  const entries = data?.data?.entries ?? [];
+  const totalCount = data?.data?.totalCount ?? 0;
+
+  return (
+    <Paper sx={{ p: 3, mt: 3 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="h6" component="h2" gutterBottom>
+          History
+        </Typography>
+        {totalCount > HISTORY_LIMIT && (
+          <Link component={RouterLink} to={`/audit?target=${encodeURIComponent(userId)}`}>
+            View all {totalCount} entries
+          </Link>
+        )}
+      </Box>
+      {isLoading ? (
+        <Skeleton variant="rounded" height={80} />
+      ) : error ? (
+        <Typography variant="body2" color="error">
+          Failed to load history: {error.message}
+        </Typography>
+      ) : entries.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No changes have been recorded for this user.
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Time</TableCell>
+              <TableCell>Action</TableCell>
+              <TableCell>By</TableCell>
+              <TableCell>Changes</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {entries.map((entry) => (
+              <TableRow key={entry.auditId}>
+                <TableCell>{formatAuditTimestamp(entry.timestamp)}</TableCell>
+                <TableCell>{auditActionLabels[entry.action] ?? entry.action}</TableCell>
+                <TableCell>{entry.actorName}</TableCell>
+                <TableCell>{formatAuditChanges(entry.changes)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Paper>
+  );
+};
+
+/**
+ * User Detail Page Component
+ *
+ * Shows a single user's profile, group memberships with the roles each
+ * group grants, the user's effective (deduplicated) roles and their
+ * privilege level. Users who can manage users also see its change history.
+ */
+export const UserDetailPage: React.FC = () => {
+  const { userId = '' } = useParams<{ userId: string }>();
+  const navigate = useNavigate();
+  const { isOffline, isBrowserOffline, checkNow } = useNetworkStatus();
+  const { data: user, isLoading, error, refetch } = useUser(userId);
+  const { privilegeLevel: currentUserLevel } = useCurrentUser();
+  const canViewHistory = !!currentUserLevel && canManageUsers(currentUserLevel);
+
+  // Go back to the list (keeping its page/filter params) when we came from it
+  const handleBack = () => {
+    if (window.history.state?.idx > 0) {
+      navigate(-1);
+    } else {
+      navigate('/users');
+    }
+  };
+
+  const header = (
+    <Box sx={{ mb: 2 }}>
+      <Breadcrumbs sx={{ mb: 1 }}>
+        <Link component="button" underline="hover" color="inherit" onClick={handleBack}>
+          Users
+        </Link>
+        <Typography color="text.primary">{user?.name ?? userId}</Typography>
+      </Breadcrumbs>
+      <Button startIcon={<ArrowBackIcon />} onClick={handleBack} size="small">
+        Back to Users
+      </Button>
+    </Box>
+  );
+
+  if (error) {
+    if (isNetworkError(error) || isOffline) {
+      return (
+        <Box>
+          {header}
+          <OfflinePage
+            onRetry={() => {
+              checkNow();
+              refetch();
+            }}
+            message="Unable to load this user."
+            reason={isBrowserOffline ? 'offline' : 'unreachable'}
+          />
+        </Box>
+      );
+    }
+
+    const isNotFound = error instanceof ApiError && error.status === 404;
+    return (
+      <Box>
+        {header}
+        <ErrorAlert
+          title={isNotFound ? 'User Not Found' : 'Failed to Load User'}
+          message={
+            isNotFound
+              ? `No user exists with ID "${userId}".`
+              : `Something went wrong while loading this user: ${error.message}`
+          }
+          error={error}
+          onRetry={() => refetch()}
+          showRetry={!isNotFound}
+        />
+      </Box>
+    );
+  }
+
+  if (isLoading || !user) {
+    return (
+      <Box>
+        {header}
+        <Paper sx={{ p: 3 }}>
+          <Skeleton variant="text" width={260} height={48} />
+          <Skeleton variant="text" width={200} />
+          <Skeleton variant="text" width={180} />
+          <Skeleton variant="rounded" height={160} sx={{ mt: 2 }} />
+        </Paper>
+      </Box>
+    );
+  }
+
+  const privilegeLevel = getPrivilegeLevel(user);
+  const effectiveRoles = getAllRoles(user);
+
+  return (
+    <Box>
+      {header}
+
+      {/* Profile */}
+      <Paper sx={{ p: 3, mb: 3 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap', mb: 1 }}>
+          <Typography variant="h4" component="h1">
+            {user.name}
+          </Typography>
+          <Chip
+            label={privilegeLabels[privilegeLevel]}
+            color={getPrivilegeBadgeColor(privilegeLevel)}
+            size="small"
+          />
+          <Chip
+            label={user.status}
+            color={user.status === 'active' ? 'success' : 'default'}
+            size="small"
+            sx={{ textTransform: 'capitalize' }}
+          />
+        </Box>
+        <Divider sx={{ my: 2 }} />
+        <ProfileField label="Email">{user.email}</ProfileField>
+        <ProfileField label="User ID">{user.userId}</ProfileField>
+        <ProfileField label="Joined">{formatDate(user.createdAt)}</ProfileField>
+        <ProfileField label="Effective Roles">
+          {effectiveRoles.length > 0 ? (
+            <Stack direction="row" spacing={0.5} useFlexGap flexWrap="wrap">
+              {effectiveRoles.map((role) => (
+                <Chip key={role} label={role} size="small" variant="outlined" />
+              ))}
+            </Stack>
+          ) : (
+            <span style={{ color: '#999' }}>No roles</span>
+          )}
+        </ProfileField>
+      </Paper>
+
+      {/* Group memberships */}
+      <Paper sx={{ p: 3 }}>
+        <Typography variant="h6" component="h2" gutterBottom>
+          Group Memberships
+        </Typography>
+        {user.groups.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            This user does not belong to any groups.
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Group</TableCell>
+                <TableCell>Roles Granted</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {user.groups.map((group) => (
+                <TableRow key={group.groupId}>
+                  <TableCell>{group.groupName}</TableCell>
+                  <TableCell>
+                    <Stack direction="row" spacing={0.5} useFlexGap flexWrap="wrap">
+                      {group.roles.map((role) => (
+                        <Chip key={role.roleId} label={role.roleName} size="small" />
+                      ))}
+                    </Stack>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Paper>
+
+      {canViewHistory && <UserHistory userId={user.userId} />}
+    </Box>
+  );
+};
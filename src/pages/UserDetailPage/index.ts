@@ -0,0 +1 @@
+export { UserDetailPage } from './UserDetailPage';
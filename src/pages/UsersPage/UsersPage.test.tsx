@@ -0,0 +1,89 @@
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MemoryRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { SnackbarProvider } from 'notistack';
+import { getResponse } from 'msw';
+import { setAuthToken } from '@/api';
+import { CurrentUserContext, type CurrentUserContextValue } from '@/hooks';
+import { handlers } from '@/mocks/handlers';
+import { getUserById, login, MOCK_PASSWORD, resetMockData } from '@/mocks/data';
+import { UsersPage } from './UsersPage';
+
+// Requests the page sent, as "METHOD /path"
+let requests: string[] = [];
+
+// Serve the page's requests from the mock API
+const fetchFromMocks = async (input: RequestInfo | URL, init?: RequestInit) => {
+  const url = new URL(String(input), window.location.origin);
+  requests.push(`${init?.method ?? 'GET'} ${url.pathname}`);
+  // jsdom's AbortSignal isn't accepted by Node's Request
+  const request = new Request(url, { ...init, signal: undefined });
+  return (await getResponse(handlers, request)) ?? new Response(null, { status: 404 });
+};
+
+const renderPage = (path: string) => {
+  const session = login('admin@example.com', MOCK_PASSWORD);
+  if (!('token' in session)) throw new Error(session.error);
+  setAuthToken(session.token);
+
+  const currentUser: CurrentUserContextValue = {
+    currentUser: getUserById('user-admin'),
+    privilegeLevel: 'admin',
+    isLoading: false,
+    isAuthenticated: true,
+    signIn: () => Promise.reject(new Error('not used')),
+    signOut: () => Promise.resolve(),
+  };
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <SnackbarProvider>
+        <CurrentUserContext.Provider value={currentUser}>
+          <MemoryRouter initialEntries={[path]}>
+            <UsersPage />
+          </MemoryRouter>
+        </CurrentUserContext.Provider>
+      </SnackbarProvider>
+    </QueryClientProvider>
+  );
+};
+
+describe('UsersPage', () => {
+  beforeEach(() => {
+    resetMockData();
+    window.localStorage.clear();
+    requests = [];
+    vi.stubGlobal('fetch', vi.fn(fetchFromMocks));
+    // Give the virtualized rows a viewport to render into
+    vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue(
+      DOMRect.fromRect({ width: 1200, height: 600 })
+    );
+  });
+
+  afterEach(() => {
+    setAuthToken(null);
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should toggle a status in infinite mode without reloading the pages', async () => {
+    renderPage('/users?mode=infinite');
+
+    // Wait for every page, so no page is still loading when the status changes
+    await screen.findByText(/^Loaded (\d+) of \1$/, {}, { timeout: 5000 });
+    const deactivate = screen.getByRole('button', { name: 'Deactivate user Morgan Manager' });
+    requests = [];
+    fireEvent.click(deactivate);
+    const dialog = await screen.findByRole('dialog');
+    fireEvent.click(within(dialog).getByRole('button', { name: 'Deactivate' }));
+
+    await screen.findByText(/User status updated/, {}, { timeout: 5000 });
+    // Give any refetch time to start
+    await new Promise((resolve) => setTimeout(resolve, 300));
+    expect(requests.filter((request) => request.includes('/api/users'))).toEqual([
+      'PATCH /api/users/user-manager',
+    ]);
+  }, 15000);
+});
@@ -1,5 +1,5 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import {
   Box,
   Typography,
@@ -10,14 +10,64 @@ import {
   MenuItem,
   Paper,
   InputAdornment,
+  Chip,
+  Button,
+  Alert,
+  FormControlLabel,
+  Switch,
+  Tooltip,
 } from '@mui/material';
 import SearchIcon from '@mui/icons-material/Search';
+import PersonAddIcon from '@mui/icons-material/PersonAdd';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import CancelIcon from '@mui/icons-material/Cancel';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import CloudQueueIcon from '@mui/icons-material/CloudQueue';
+import SyncProblemIcon from '@mui/icons-material/SyncProblem';
 import { useSnackbar } from 'notistack';
-import { DynamicGrid, UserActions, ErrorAlert, OfflineBanner, OfflinePage } from '@/components';
-import { useUsers, useUpdateUserStatus, useDebounce, useInvalidateUsersCache, useNetworkStatus, isNetworkError } from '@/hooks';
-import { userColumnMetadata } from '@/utils';
-import type { MRT_PaginationState } from 'material-react-table';
-import type { User, ColumnMetadata } from '@/types';
+import { ApiError } from '@/api';
+import { DynamicGrid, SavedViewsMenu, BulkActionsToolbar, StatusOutboxPanel, ExportButton, UserFormDialog, ImportUsersDialog, ErrorAlert, OfflineBanner, OfflinePage } from '@/components';
+import type { RowAction } from '@/components';
+import { useUsers, useInfiniteUsers, useUpdateUserStatus, useBulkUpdateUsers, useCreateUser, useUpdateUser, useDeleteUser, useDebounce, useRefreshUsersOnReconnect, useNetworkStatus, isNetworkError, useStatusOutbox, useTablePreferences, useGroups, useRoles, useCurrentUser, useExportUsers, useColumnMetadata, useSavedViews, getUniqueViewName } from '@/hooks';
+import { userColumnMetadata, canManageUsers, mergeColumnVisibility, mergeColumnOrder, type PrivilegeLevel, type ExportFormat } from '@/utils';
+import type {
+  MRT_ColumnFiltersState,
+  MRT_PaginationState,
+  MRT_RowSelectionState,
+  MRT_SortingState,
+} from 'material-react-table';
+import type { User, UserInput, ColumnMetadata, BulkUserUpdate, UserImportReport } from '@/types';
+import {
+  parseSortingParams,
+  writeSortingParams,
+  parsePageSize,
+  DEFAULT_PAGE_SIZE,
+  parseFilterParams,
+  writeFilterParams,
+  toColumnFiltersState,
+  fromColumnFiltersState,
+  parseSharedViewParam,
+  encodeSharedView,
+  type UserColumnFilters,
+  type UserViewState,
+  type SharedView,
+} from './urlParams';
+
+// Users loaded per request in infinite scroll mode
+const INFINITE_PAGE_SIZE = 100;
+
+// Compare view states by value (both are built in the same key order)
+const isSameViewState = (a: UserViewState, b: UserViewState) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const privilegeLevelOptions: { value: PrivilegeLevel; label: string }[] = [
+  { value: 'admin', label: 'Admin' },
+  { value: 'management', label: 'Management' },
+  { value: 'standard', label: 'Standard' },
+  { value: 'readonly', label: 'Read Only' },
+];
 
 /**
  * Users Page Component
@@ -45,25 +95,85 @@ import type { User, ColumnMetadata } from '@/types';
  */
 export const UsersPage: React.FC = () => {
   const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
   const { enqueueSnackbar } = useSnackbar();
-  const { isOffline } = useNetworkStatus();
+  const { isOffline, isDegraded, isBrowserOffline, checkNow } = useNetworkStatus();
+  // Columns come from the server; the bundled config covers loading and bad payloads
+  const { columns: serverColumns } = useColumnMetadata('users', userColumnMetadata);
+  // Owned here so saved views and the grid share one copy of the preferences
+  const tablePreferences = useTablePreferences('users-table', serverColumns);
+  const { preferences, updateColumnVisibility, updateSorting, updateDensity, updateColumnOrder } =
+    tablePreferences;
+  const { views, defaultView, saveView, updateView, deleteView, setDefaultView } =
+    useSavedViews<UserViewState>('users-table');
+  const { privilegeLevel, getDeniedReason } = useCurrentUser();
+  const canManage = !!privilegeLevel && canManageUsers(privilegeLevel);
+
+  // Shared view opened from a link (?view=...), offered for saving
+  const [sharedView, setSharedView] = useState<SharedView | null>(() =>
+    parseSharedViewParam(searchParams)
+  );
+  // View applied on mount: the shared view, or the default view when the
+  // page is opened without any params (read once on mount)
+  const [initialView] = useState<{ viewId: string | null; state: UserViewState } | null>(() => {
+    if (sharedView) return { viewId: null, state: sharedView.state };
+    if (defaultView && searchParams.toString() === '') return defaultView;
+    return null;
+  });
+  const [activeViewId, setActiveViewId] = useState<string | null>(
+    () => initialView?.viewId ?? null
+  );
 
-  // Initialize state from URL params (read once on mount)
+  // Initialize state from the initial view or URL params (read once on mount)
   const [searchQuery, setSearchQuery] = useState(() => {
-    return searchParams.get('query') || '';
+    return initialView?.state.query ?? (searchParams.get('query') || '');
   });
   const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'inactive'>(() => {
     const status = searchParams.get('status');
-    return (status as 'all' | 'active' | 'inactive') || 'all';
+    return initialView?.state.status ?? ((status as 'all' | 'active' | 'inactive') || 'all');
   });
   const [pagination, setPagination] = useState<MRT_PaginationState>(() => {
+    if (initialView) return { pageIndex: 0, pageSize: initialView.state.pageSize };
     const page = searchParams.get('page');
     const pageSize = searchParams.get('pageSize');
     return {
       pageIndex: page ? parseInt(page) - 1 : 0,
-      pageSize: pageSize ? parseInt(pageSize) : 10,
+      pageSize: parsePageSize(pageSize),
     };
   });
+  // URL sorting wins; otherwise fall back to the user's persisted sorting
+  const [sorting, setSorting] = useState<MRT_SortingState>(() => {
+    return initialView?.state.sorting ?? parseSortingParams(searchParams) ?? preferences.sorting;
+  });
+  const [columnFilters, setColumnFilters] = useState<UserColumnFilters>(() => {
+    return initialView?.state.filters ?? parseFilterParams(searchParams);
+  });
+  // Infinite scrolling instead of pages (?mode=infinite)
+  const [isInfiniteScroll, setIsInfiniteScroll] = useState(
+    () => searchParams.get('mode') === 'infinite'
+  );
+
+  // The initial view's columns and density live in the table preferences
+  useEffect(() => {
+    if (initialView) {
+      updateColumnVisibility(initialView.state.columnVisibility);
+      updateColumnOrder(initialView.state.columnOrder ?? []);
+      updateDensity(initialView.state.density);
+    }
+  }, [initialView, updateColumnVisibility, updateColumnOrder, updateDensity]);
+
+  // Row selection persists across pages; keep the selected users so the
+  // bulk confirmation can list them even when they're not on this page
+  const [rowSelection, setRowSelection] = useState<MRT_RowSelectionState>({});
+  const [selectedUsers, setSelectedUsers] = useState<Record<string, User>>({});
+
+  // Create/edit dialog: null = closed, undefined user = create mode
+  const [formState, setFormState] = useState<{ user?: User } | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+
+  // Filter option sources
+  const { data: groups = [] } = useGroups();
+  const { data: roles = [] } = useRoles();
 
   // Debounce search query to prevent API calls on every keystroke
   const debouncedSearchQuery = useDebounce(searchQuery, 300);
@@ -77,11 +187,15 @@ export const UsersPage: React.FC = () => {
   useEffect(() => {
     const params = new URLSearchParams();
 
-    // Always include page in URL for clarity (page=1 is default)
-    params.set('page', String(pagination.pageIndex + 1));
+    if (isInfiniteScroll) {
+      params.set('mode', 'infinite');
+    } else {
+      // Always include page in URL for clarity (page=1 is default)
+      params.set('page', String(pagination.pageIndex + 1));
 
-    if (pagination.pageSize !== 10) {
-      params.set('pageSize', String(pagination.pageSize));
+      if (pagination.pageSize !== DEFAULT_PAGE_SIZE) {
+        params.set('pageSize', String(pagination.pageSize));
+      }
     }
     if (statusFilter !== 'all') {
       params.set('status', statusFilter);
@@ -89,9 +203,11 @@ export const UsersPage: React.FC = () => {
     if (searchQuery) { // Sync the immediate search query to URL for persistence
       params.set('query', searchQuery);
     }
+    writeSortingParams(params, sorting);
+    writeFilterParams(params, columnFilters);
 
     setSearchParams(params, { replace: true });
-  }, [pagination.pageIndex, pagination.pageSize, statusFilter, searchQuery, setSearchParams]);
+  }, [pagination.pageIndex, pagination.pageSize, isInfiniteScroll, statusFilter, searchQuery, sorting, columnFilters, setSearchParams]);
 
   // Reset to first page only when search query or status filter CHANGES (not on mount)
   useEffect(() => {
@@ -111,47 +227,214 @@ export const UsersPage: React.FC = () => {
     }
   }, [debouncedSearchQuery, statusFilter]);
 
-  // Fetch users with debounced search query
-  const { data, isLoading, isFetching, error, refetch } = useUsers({
-    page: pagination.pageIndex + 1,
-    pageSize: pagination.pageSize,
+  // Filters and sort shared by the table query and exports
+  const queryParams = {
     query: debouncedSearchQuery,
     status: statusFilter,
-  });
+    sortBy: sorting.map((sort) => sort.id),
+    sortDir: sorting.map((sort): 'asc' | 'desc' => (sort.desc ? 'desc' : 'asc')),
+    ...columnFilters,
+  };
 
-  // Update user status mutation
-  const { mutate: updateStatus, isPending: isUpdating } = useUpdateUserStatus();
+  // Everything a saved view captures, as the table currently stands
+  const currentViewState: UserViewState = {
+    query: searchQuery,
+    status: statusFilter,
+    filters: columnFilters,
+    sorting,
+    pageSize: pagination.pageSize,
+    columnVisibility: mergeColumnVisibility(serverColumns, preferences.columnVisibility),
+    columnOrder: mergeColumnOrder(serverColumns, preferences.columnOrder),
+    density: preferences.density,
+  };
+  const activeView = views.find((view) => view.viewId === activeViewId) ?? null;
+  const isViewModified = !!activeView && !isSameViewState(activeView.state, currentViewState);
 
-  // Handle status toggle
-  const { invalidateAll } = useInvalidateUsersCache();
+  // Apply a view's filters, sort, columns and density
+  const applyViewState = (state: UserViewState) => {
+    setSearchQuery(state.query);
+    setStatusFilter(state.status);
+    setColumnFilters(state.filters);
+    setSorting(state.sorting);
+    updateSorting(state.sorting);
+    setPagination({ pageIndex: 0, pageSize: state.pageSize });
+    updateColumnVisibility(state.columnVisibility);
+    updateColumnOrder(state.columnOrder ?? []);
+    updateDensity(state.density);
+  };
 
-  const handleToggleStatus = (userId: string, newStatus: 'active' | 'inactive') => {
-    // Check if user is offline before attempting the action
-    if (isOffline) {
-      enqueueSnackbar('No internet connection. Please check your network and try again.', {
-        variant: 'warning',
-        autoHideDuration: 4000,
+  const handleSelectView = (viewId: string) => {
+    const view = views.find((v) => v.viewId === viewId);
+    if (!view) return;
+    applyViewState(view.state);
+    setActiveViewId(viewId);
+  };
+
+  const handleSaveView = (name: string) => {
+    const view = saveView(name, currentViewState);
+    setActiveViewId(view.viewId);
+    setSharedView(null);
+    enqueueSnackbar(`View "${view.name}" saved`, { variant: 'success' });
+  };
+
+  const handleUpdateView = (viewId: string) => {
+    updateView(viewId, currentViewState);
+    enqueueSnackbar('View updated', { variant: 'success' });
+  };
+
+  const handleDeleteView = (viewId: string) => {
+    deleteView(viewId);
+    if (viewId === activeViewId) setActiveViewId(null);
+  };
+
+  // Keep a view opened from a link (renamed if the name is already used)
+  const handleSaveSharedView = () => {
+    if (!sharedView) return;
+    handleSaveView(getUniqueViewName(views, sharedView.name, 'shared'));
+  };
+
+  // Copy a link that opens the current state (including columns and density)
+  const handleShareView = () => {
+    const encoded = encodeSharedView({
+      name: activeView?.name ?? 'Shared view',
+      state: currentViewState,
+    });
+    const url = `${window.location.origin}${window.location.pathname}?view=${encoded}`;
+    navigator.clipboard
+      .writeText(url)
+      .then(() => enqueueSnackbar('Link to this view copied', { variant: 'success' }))
+      .catch(() => enqueueSnackbar('Could not copy the link', { variant: 'error' }));
+  };
+
+  // Fetch users with debounced search query: one page at a time, or
+  // page after page as the table scrolls in infinite mode
+  const pagedQuery = useUsers(
+    {
+      page: pagination.pageIndex + 1,
+      pageSize: pagination.pageSize,
+      ...queryParams,
+    },
+    { enabled: !isInfiniteScroll }
+  );
+  const infiniteQuery = useInfiniteUsers(
+    { pageSize: INFINITE_PAGE_SIZE, ...queryParams },
+    { enabled: isInfiniteScroll }
+  );
+  const activeQuery = isInfiniteScroll ? infiniteQuery : pagedQuery;
+  const { isLoading, error, refetch, fetchStatus, dataUpdatedAt } = activeQuery;
+  // Data can be on hand without a connection (e.g. restored from the saved cache)
+  const hasData = activeQuery.data !== undefined;
+  const isNetworkFailure = !!error && isNetworkError(error);
+  useRefreshUsersOnReconnect();
+  const infiniteUsers = useMemo(
+    () => infiniteQuery.data?.pages.flatMap((page) => page.data?.users ?? []) ?? [],
+    [infiniteQuery.data]
+  );
+  const loadedUsers = isInfiniteScroll ? infiniteUsers : (pagedQuery.data?.data?.users ?? []);
+  // Users the server sent in a shape the table can't show (see fetchUsers)
+  const quarantinedCount = isInfiniteScroll
+    ? (infiniteQuery.data?.pages.reduce((count, page) => count + (page.quarantined?.length ?? 0), 0) ?? 0)
+    : (pagedQuery.data?.quarantined?.length ?? 0);
+
+  // Status changes waiting in the outbox are shown as already made; ones
+  // the server rejected show the server's status until they are retried
+  const {
+    entries: outboxEntries,
+    isSyncing: isOutboxSyncing,
+    enqueue: enqueueStatusChange,
+    replay: syncOutbox,
+    retry: retryOutboxEntry,
+    discard: discardOutboxEntry,
+  } = useStatusOutbox();
+  const outboxByUser = useMemo(
+    () => new Map(outboxEntries.map((entry) => [entry.userId, entry])),
+    [outboxEntries]
+  );
+  const users = useMemo(
+    () =>
+      loadedUsers.map((user) => {
+        const entry = outboxByUser.get(user.userId);
+        return entry && entry.state !== 'failed' ? { ...user, status: entry.status } : user;
+      }),
+    [loadedUsers, outboxByUser]
+  );
+  const totalCount =
+    (isInfiniteScroll
+      ? infiniteQuery.data?.pages[0]?.data?.totalCount
+      : pagedQuery.data?.data?.totalCount) ?? 0;
+  // Loading the next page keeps the rows already shown
+  const isFetching = isInfiniteScroll
+    ? infiniteQuery.isFetching && !infiniteQuery.isFetchingNextPage
+    : pagedQuery.isFetching;
+
+  // Export every matching user (all pages) with the visible columns
+  const { exportUsers, isExporting, progress: exportProgress } = useExportUsers();
+
+  const handleExport = (format: ExportFormat) => {
+    const visibleColumns = serverColumns.filter(
+      (col) => currentViewState.columnVisibility[col.key]
+    );
+
+    exportUsers(format, queryParams, visibleColumns)
+      .then((count) => {
+        // null: cancelled by leaving the page
+        if (count !== null) {
+          enqueueSnackbar(`Exported ${count} users`, { variant: 'success' });
+        }
+      })
+      .catch((err: Error) => {
+        enqueueSnackbar(err.message || 'Failed to export users. Please try again.', {
+          variant: 'error',
+        });
       });
+  };
+
+  // Update user status mutation
+  const {
+    mutate: updateStatus,
+    isPending: isUpdating,
+    variables: statusUpdate,
+  } = useUpdateUserStatus();
+
+  // Bulk update mutation
+  const { mutate: bulkUpdate, isPending: isBulkUpdating } = useBulkUpdateUsers();
+
+  // Create/edit/delete mutations
+  const createUserMutation = useCreateUser();
+  const updateUserMutation = useUpdateUser();
+  const { mutate: deleteUser } = useDeleteUser();
+  const formMutation = formState?.user ? updateUserMutation : createUserMutation;
+
+  // Queue a status change to sync later, e.g. while offline
+  const queueStatusChange = (user: User, newStatus: 'active' | 'inactive') => {
+    enqueueStatusChange(user, newStatus);
+    enqueueSnackbar(`${user.name} will be updated when you're back online`, {
+      variant: 'info',
+      autoHideDuration: 4000,
+    });
+  };
+
+  const handleToggleStatus = (user: User, newStatus: 'active' | 'inactive') => {
+    // Offline changes go to the outbox and show as pending sync; so do
+    // further changes to a user that already has one queued
+    if (isOffline || outboxByUser.has(user.userId)) {
+      queueStatusChange(user, newStatus);
       return;
     }
 
     updateStatus(
-      { userId, status: newStatus },
+      { userId: user.userId, status: newStatus },
       {
         onSuccess: (response) => {
-          enqueueSnackbar(response.message, { variant: 'success' });
-          // FIX: Invalidate queries to refresh the table
-          invalidateAll();
+          // The mutation updates the cached rows and marks the lists stale itself
+          enqueueSnackbar(response.message ?? 'User status updated', { variant: 'success' });
         },
         onError: (error) => {
-          // Check if it's a network error
+          // The connection dropped mid-request: keep the change for later
           if (isNetworkError(error)) {
-            enqueueSnackbar('No internet connection. Please check your network and try again.', {
-              variant: 'warning',
-              autoHideDuration: 4000,
-            });
+            queueStatusChange(user, newStatus);
           } else {
-            enqueueSnackbar('Failed to update user status. Please try again.', {
+            enqueueSnackbar(error.message || 'Failed to update user status. Please try again.', {
               variant: 'error',
             });
           }
@@ -160,6 +443,121 @@ export const UsersPage: React.FC = () => {
     );
   };
 
+  // Open the create/edit dialog
+  const handleOpenForm = (user?: User) => {
+    createUserMutation.reset();
+    updateUserMutation.reset();
+    setFormState({ user });
+  };
+
+  // Handle create/edit form submit
+  const handleFormSubmit = (input: UserInput) => {
+    const options = {
+      onSuccess: (response: { message?: string }) => {
+        enqueueSnackbar(response.message ?? 'User saved', { variant: 'success' });
+        setFormState(null);
+      },
+    };
+
+    if (formState?.user) {
+      updateUserMutation.mutate({ userId: formState.user.userId, input }, options);
+    } else {
+      createUserMutation.mutate(input, options);
+    }
+  };
+
+  // Handle delete (already confirmed by the row action)
+  const handleDeleteUser = (user: User) => {
+    if (isOffline) {
+      enqueueSnackbar('No internet connection. Please check your network and try again.', {
+        variant: 'warning',
+        autoHideDuration: 4000,
+      });
+      return;
+    }
+
+    deleteUser(user.userId, {
+      onSuccess: (response) => {
+        enqueueSnackbar(response.message ?? `User ${user.name} deleted`, { variant: 'success' });
+        handleRowSelectionChange(
+          Object.fromEntries(Object.entries(rowSelection).filter(([userId]) => userId !== user.userId))
+        );
+      },
+      onError: (error) => {
+        enqueueSnackbar(error.message || 'Failed to delete user. Please try again.', {
+          variant: 'error',
+        });
+      },
+    });
+  };
+
+  // Handle selection change, remembering users picked on the current page
+  const handleRowSelectionChange = (newSelection: MRT_RowSelectionState) => {
+    setRowSelection(newSelection);
+    setSelectedUsers((prev) => {
+      const next: Record<string, User> = {};
+      Object.keys(newSelection).forEach((userId) => {
+        if (!newSelection[userId]) return;
+        const user = prev[userId] ?? users.find((u) => u.userId === userId);
+        if (user) next[userId] = user;
+      });
+      return next;
+    });
+  };
+
+  const handleClearSelection = () => {
+    setRowSelection({});
+    setSelectedUsers({});
+  };
+
+  // Handle a confirmed bulk action; users that failed stay selected for a retry
+  const handleBulkUpdate = (update: BulkUserUpdate) => {
+    if (isOffline) {
+      enqueueSnackbar('No internet connection. Please check your network and try again.', {
+        variant: 'warning',
+        autoHideDuration: 4000,
+      });
+      return;
+    }
+
+    bulkUpdate(update, {
+      onSuccess: (response) => {
+        const results = response.data ?? [];
+        const failed = results.filter((result) => !result.success);
+
+        if (failed.length === 0) {
+          enqueueSnackbar(response.message ?? 'Users updated', { variant: 'success' });
+          handleClearSelection();
+          return;
+        }
+
+        enqueueSnackbar(
+          `${response.message}. ${failed.length} failed: ${failed
+            .map((result) => `${selectedUsers[result.userId]?.name ?? result.userId} (${result.error})`)
+            .join(', ')}`,
+          { variant: 'warning', autoHideDuration: 8000 }
+        );
+        const failedSelection = Object.fromEntries(failed.map((result) => [result.userId, true]));
+        setRowSelection(failedSelection);
+        setSelectedUsers((prev) =>
+          Object.fromEntries(Object.entries(prev).filter(([userId]) => failedSelection[userId]))
+        );
+      },
+      onError: (error) => {
+        if (isNetworkError(error)) {
+          enqueueSnackbar('No internet connection. Please check your network and try again.', {
+            variant: 'warning',
+            autoHideDuration: 4000,
+          });
+        } else {
+          enqueueSnackbar('Failed to update users. Please try again.', {
+            variant: 'error',
+          });
+        }
+      },
+    });
+  };
+
   // Handle search input change
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchQuery(e.target.value);
@@ -176,37 +574,131 @@ export const UsersPage: React.FC = () => {
     setPagination(newPagination);
   };
 
-  // Add actions column to metadata
-  const columnsWithActions: ColumnMetadata[] = [
-    ...userColumnMetadata,
+  // Switch between pages and infinite scrolling, starting from the top
+  const handleScrollModeChange = (infinite: boolean) => {
+    setIsInfiniteScroll(infinite);
+    setPagination((prev) => ({ ...prev, pageIndex: 0 }));
+  };
+
+  // Handle column filter changes from the grid (status, groups, created date)
+  const handleGridFiltersChange = (newColumnFilters: MRT_ColumnFiltersState) => {
+    const next = fromColumnFiltersState(newColumnFilters, columnFilters);
+    setStatusFilter(next.status);
+    setColumnFilters(next.filters);
+    setPagination((prev) => ({ ...prev, pageIndex: 0 }));
+  };
+
+  // Handle toolbar filters that have no column of their own (roles, privilege level)
+  const handleFilterChange = (changes: Partial<UserColumnFilters>) => {
+    setColumnFilters((prev) => ({ ...prev, ...changes }));
+    setPagination((prev) => ({ ...prev, pageIndex: 0 }));
+  };
+
+  // Handle sorting change - the new order starts from the first page
+  const handleSortingChange = (newSorting: MRT_SortingState) => {
+    setSorting(newSorting);
+    setPagination((prev) => ({ ...prev, pageIndex: 0 }));
+  };
+
+  // Close the import wizard and summarize the result
+  const handleImported = (report: UserImportReport) => {
+    setIsImportOpen(false);
+    enqueueSnackbar(
+      `Imported ${report.createdCount} users` +
+        (report.skippedCount > 0 ? `, skipped ${report.skippedCount}` : ''),
+      { variant: 'success' }
+    );
+  };
+
+  // Open the detail page for a row
+  const handleRowClick = (user: User) => {
+    navigate(`/users/${user.userId}`);
+  };
+
+  // The known groups as filter options for the groups column
+  const columns: ColumnMetadata<User>[] = serverColumns.map((col) =>
+    col.type === 'chiplist'
+      ? {
+          ...col,
+          filterOptions: groups.map((group) => ({
+            value: group.groupId,
+            label: group.groupName,
+          })),
+        }
+      : col
+  );
+
+  // Per-row actions; ones the current user may not perform are disabled
+  // (with the reason in a tooltip) or, for delete, hidden
+  const userRowActions: RowAction<User>[] = [
+    {
+      id: 'deactivate',
+      label: (user) => `Deactivate user ${user.name}`,
+      icon: <CancelIcon />,
+      color: 'error',
+      isVisible: (user) => user.status === 'active',
+      getDisabledReason: (user) => getDeniedReason(user, 'deactivate'),
+      confirm: (user) => ({
+        title: 'Deactivate User?',
+        message: (
+          <>
+            Are you sure you want to deactivate <strong>{user.name}</strong>? This user will no
+            longer have access to the system.
+          </>
+        ),
+        confirmLabel: 'Deactivate',
+        color: 'error',
+      }),
+      onAction: (user) => handleToggleStatus(user, 'inactive'),
+    },
+    {
+      id: 'activate',
+      label: (user) => `Activate user ${user.name}`,
+      icon: <CheckCircleIcon />,
+      color: 'success',
+      isVisible: (user) => user.status !== 'active',
+      getDisabledReason: (user) => getDeniedReason(user, 'activate'),
+      onAction: (user) => handleToggleStatus(user, 'active'),
+    },
     {
-      key: 'actions',
-      header: 'Actions',
-      type: 'string',
-      width: 100,
+      id: 'edit',
+      label: (user) => `Edit user ${user.name}`,
+      icon: <EditIcon fontSize="small" />,
+      getDisabledReason: (user) => getDeniedReason(user, 'edit'),
+      onAction: (user) => handleOpenForm(user),
+    },
+    {
+      id: 'delete',
+      label: (user) => `Delete user ${user.name}`,
+      icon: <DeleteIcon fontSize="small" />,
+      color: 'error',
+      isVisible: (user) => getDeniedReason(user, 'delete') === null,
+      confirm: (user) => ({
+        title: 'Delete User?',
+        message: (
+          <>
+            Are you sure you want to permanently delete <strong>{user.name}</strong>? This cannot
+            be undone.
+          </>
+        ),
+        confirmLabel: 'Delete',
+        color: 'error',
+      }),
+      onAction: handleDeleteUser,
     },
   ];
 
-  // Transform data to include actions renderer
-  const usersWithActions = (data?.data?.users || []).map((user: User) => ({
-    ...user,
-    actions: (
-      <UserActions
-        user={user}
-        onToggleStatus={handleToggleStatus}
-        isUpdating={isUpdating}
-      />
-    ),
-  }));
-
   // Handle retry for failed requests
   const handleRetry = () => {
+    checkNow();
     refetch();
   };
 
-  // Error state with retry functionality
-  if (error) {
-    const networkError = isNetworkError(error) || isOffline;
+  // Error state with retry functionality, unless there is data to show
+  // (offline with nothing cached counts as a network error)
+  const isPausedOffline = isOffline && fetchStatus === 'paused';
+  if (!hasData && (error || isPausedOffline)) {
+    const networkError = !error || isNetworkFailure || isOffline;
 
     // Show offline page if user is offline or network error occurred
     if (networkError) {
@@ -217,7 +709,8 @@ export const UsersPage: React.FC = () => {
           </Typography>
           <OfflinePage
             onRetry={handleRetry}
-            message="Unable to load users. Please check your internet connection and try again."
+            message="Unable to load users."
+            reason={isBrowserOffline ? 'offline' : 'unreachable'}
           />
         </Box>
       );
@@ -230,7 +723,8 @@ export const UsersPage: React.FC = () => {
         </Typography>
         <ErrorAlert
           title="Failed to Load Users"
-          message={`Something went wrong while loading users: ${error.message}`}
+          message={`Something went wrong while loading users: ${error?.message}`}
+          error={error}
           onRetry={handleRetry}
           showRetry={true}
         />
@@ -240,13 +734,75 @@ export const UsersPage: React.FC = () => {
 
   return (
     <Box>
-      {/* Offline Banner - shows when user loses connection */}
-      <OfflineBanner isOffline={isOffline} />
+      {/* Offline Banner - shows when user loses connection, with the age of cached data */}
+      <OfflineBanner
+        isOffline={isOffline || isNetworkFailure}
+        isDegraded={isDegraded}
+        reason={isBrowserOffline ? 'offline' : 'unreachable'}
+        dataUpdatedAt={hasData ? dataUpdatedAt : undefined}
+      />
 
       {/* Page Header */}
-      <Typography variant="h4" component="h1" gutterBottom>
-        Users
-      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 1 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Users
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <SavedViewsMenu
+            views={views}
+            activeViewId={activeViewId}
+            defaultViewId={defaultView?.viewId ?? null}
+            isModified={isViewModified}
+            onSelect={handleSelectView}
+            onSave={handleSaveView}
+            onUpdate={handleUpdateView}
+            onDelete={handleDeleteView}
+            onSetDefault={setDefaultView}
+            onShare={handleShareView}
+          />
+          <ExportButton
+            onExport={handleExport}
+            isExporting={isExporting}
+            progress={exportProgress}
+            disabled={isOffline}
+          />
+          {canManage && (
+            <Button
+              variant="outlined"
+              startIcon={<UploadFileIcon />}
+              onClick={() => setIsImportOpen(true)}
+              disabled={isOffline}
+            >
+              Import
+            </Button>
+          )}
+          {canManage && (
+            <Button
+              variant="contained"
+              startIcon={<PersonAddIcon />}
+              onClick={() => handleOpenForm()}
+            >
+              Add User
+            </Button>
+          )}
+        </Box>
+      </Box>
+
+      {/* Shared view opened from a link */}
+      {sharedView && (
+        <Alert
+          severity="info"
+          sx={{ mb: 2 }}
+          onClose={() => setSharedView(null)}
+          action={
+            <Button color="inherit" size="small" onClick={handleSaveSharedView}>
+              Save View
+            </Button>
+          }
+        >
+          You are looking at the shared view "{sharedView.name}".
+        </Alert>
+      )}
 
       {/* Filters */}
       <Paper sx={{ p: 2, mb: 3 }}>
@@ -283,10 +839,74 @@ export const UsersPage: React.FC = () => {
             </Select>
           </FormControl>
 
-          {/* Results Count */}
-          <Box sx={{ display: 'flex', alignItems: 'center', ml: 'auto' }}>
+          {/* Role Filter */}
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>Roles</InputLabel>
+            <Select<string[]>
+              multiple
+              value={columnFilters.roleIds}
+              label="Roles"
+              onChange={(e) => {
+                const value = e.target.value;
+                handleFilterChange({
+                  roleIds: typeof value === 'string' ? value.split(',') : value,
+                });
+              }}
+              renderValue={(selected) => (
+                <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                  {selected.map((roleId) => (
+                    <Chip
+                      key={roleId}
+                      size="small"
+                      label={roles.find((role) => role.roleId === roleId)?.roleName ?? roleId}
+                    />
+                  ))}
+                </Box>
+              )}
+            >
+              {roles.map((role) => (
+                <MenuItem key={role.roleId} value={role.roleId}>
+                  {role.roleName}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          {/* Privilege Level Filter (derived from group membership) */}
+          <FormControl size="small" sx={{ minWidth: 170 }}>
+            <InputLabel>Privilege</InputLabel>
+            <Select
+              value={columnFilters.privilegeLevel ?? 'all'}
+              label="Privilege"
+              onChange={(e) => {
+                const value = e.target.value as PrivilegeLevel | 'all';
+                handleFilterChange({
+                  privilegeLevel: value === 'all' ? undefined : value,
+                });
+              }}
+            >
+              <MenuItem value="all">All Levels</MenuItem>
+              {privilegeLevelOptions.map((option) => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          {/* Results Count and scroll mode */}
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, ml: 'auto' }}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={isInfiniteScroll}
+                  onChange={(e) => handleScrollModeChange(e.target.checked)}
+                />
+              }
+              label="Infinite scroll"
+            />
             <Typography variant="body2" color="text.secondary">
-              {data?.data?.totalCount || 0} users found
+              {totalCount} users found
             </Typography>
           </Box>
         </Box>
@@ -294,17 +914,94 @@ export const UsersPage: React.FC = () => {
 
       {/* Users Table */}
       <Paper>
+        {quarantinedCount > 0 && (
+          <Alert severity="warning" sx={{ mx: 2, mt: 2 }}>
+            {quarantinedCount} {quarantinedCount === 1 ? 'user' : 'users'} could not be shown
+            because the server sent invalid data.
+          </Alert>
+        )}
+        <StatusOutboxPanel
+          entries={outboxEntries}
+          isOffline={isOffline}
+          isSyncing={isOutboxSyncing}
+          onSyncNow={syncOutbox}
+          onRetry={retryOutboxEntry}
+          onDiscard={discardOutboxEntry}
+        />
+        <BulkActionsToolbar
+          selectedUsers={Object.values(selectedUsers)}
+          groups={groups}
+          onConfirm={handleBulkUpdate}
+          onClearSelection={handleClearSelection}
+          isUpdating={isBulkUpdating}
+        />
         <DynamicGrid
-          data={usersWithActions}
-          columns={columnsWithActions}
+          data={users}
+          columns={columns}
           isLoading={isLoading}
           isFetching={isFetching}
-          totalCount={data?.data?.totalCount || 0}
-          pagination={pagination}
+          totalCount={totalCount}
+          pagination={isInfiniteScroll ? undefined : pagination}
           onPaginationChange={handlePaginationChange}
+          infiniteScroll={
+            isInfiniteScroll
+              ? {
+                  hasNextPage: infiniteQuery.hasNextPage,
+                  isFetchingNextPage: infiniteQuery.isFetchingNextPage,
+                  onLoadMore: infiniteQuery.fetchNextPage,
+                }
+              : undefined
+          }
+          sorting={sorting}
+          onSortingChange={handleSortingChange}
+          tablePreferences={tablePreferences}
+          columnFilters={toColumnFiltersState(statusFilter, columnFilters)}
+          onColumnFiltersChange={handleGridFiltersChange}
+          rowSelection={canManage ? rowSelection : undefined}
+          onRowSelectionChange={handleRowSelectionChange}
+          getRowId={(user) => user.userId}
+          rowActions={userRowActions}
+          enableRowContextMenu
+          isRowPending={(user) => isUpdating && statusUpdate?.userId === user.userId}
+          getRowMarker={(user) => {
+            const entry = outboxByUser.get(user.userId);
+            if (!entry) return null;
+            return entry.state === 'failed' ? (
+              <Tooltip title={`Sync failed: ${entry.error}`}>
+                <SyncProblemIcon fontSize="small" color="warning" aria-label="Sync failed" />
+              </Tooltip>
+            ) : (
+              <Tooltip title="Pending sync">
+                <CloudQueueIcon fontSize="small" color="action" aria-label="Pending sync" />
+              </Tooltip>
+            );
+          }}
+          onRowClick={handleRowClick}
           tableId="users-table"
         />
       </Paper>
+
+      {/* Create/Edit User Dialog */}
+      <UserFormDialog
+        open={!!formState}
+        user={formState?.user}
+        groups={groups}
+        onClose={() => setFormState(null)}
+        onSubmit={handleFormSubmit}
+        isSubmitting={formMutation.isPending}
+        submitError={formMutation.error?.message}
+        submitFieldErrors={
+          formMutation.error instanceof ApiError ? formMutation.error.fieldErrors : undefined
+        }
+      />
+
+      {/* CSV Import Wizard */}
+      <ImportUsersDialog
+        open={isImportOpen}
+        groups={groups}
+        onClose={() => setIsImportOpen(false)}
+        onImported={handleImported}
+      />
     </Box>
   );
-};
+};
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+  encodeSharedView,
+  parseSharedViewParam,
+  parseUserViewState,
+  parsePageSize,
+  type UserViewState,
+} from './urlParams';
+
+const state: UserViewState = {
+  query: 'zoë',
+  status: 'inactive',
+  filters: { groupIds: ['g1'], roleIds: [], privilegeLevel: 'admin' },
+  sorting: [{ id: 'createdAt', desc: true }],
+  pageSize: 25,
+  columnVisibility: { email: false },
+  density: 'compact',
+};
+
+describe('Users page view params', () => {
+  it('should round-trip a shared view through the view param', () => {
+    const params = new URLSearchParams({
+      view: encodeSharedView({ name: 'Inactive admins', state }),
+    });
+    expect(parseSharedViewParam(params)).toEqual({ name: 'Inactive admins', state });
+  });
+
+  it('should ignore a missing or corrupt view param', () => {
+    expect(parseSharedViewParam(new URLSearchParams())).toBeNull();
+    expect(parseSharedViewParam(new URLSearchParams({ view: 'not-a-view' }))).toBeNull();
+  });
+
+  it('should reject view states with invalid fields', () => {
+    expect(parseUserViewState(state)).toEqual(state);
+    expect(parseUserViewState({ ...state, status: 'pending' })).toBeNull();
+    expect(parseUserViewState({ ...state, density: 'huge' })).toBeNull();
+    expect(
+      parseUserViewState({ ...state, filters: { ...state.filters, privilegeLevel: 'root' } })
+    ).toBeNull();
+  });
+
+  it('should only accept page sizes the grid offers', () => {
+    expect(parsePageSize('50')).toBe(50);
+    expect(parsePageSize('100000')).toBe(10);
+    expect(parsePageSize(null)).toBe(10);
+    expect(parseUserViewState({ ...state, pageSize: 7 })?.pageSize).toBe(10);
+    expect(parseUserViewState({ ...state, pageSize: 'all' })?.pageSize).toBe(10);
+  });
+});
@@ -0,0 +1,232 @@
+import dayjs from 'dayjs';
+import type { MRT_ColumnFiltersState, MRT_SortingState } from 'material-react-table';
+import { PAGE_SIZE_OPTIONS } from '@/components';
+import type { TablePreferences } from '@/hooks';
+import type { PrivilegeLevel } from '@/utils';
+
+/**
+ * URL <-> state helpers for the Users page
+ *
+ * Keeps the search params format in one place so page, status,
+ * sorting and column filters stay shareable and survive a refresh.
+ * Saved views travel as a single encoded `view` param.
+ */
+
+// Column filters applied on the server (status is kept separately)
+export interface UserColumnFilters {
+  groupIds: string[];
+  roleIds: string[];
+  createdFrom?: string; // YYYY-MM-DD
+  createdTo?: string; // YYYY-MM-DD
+  privilegeLevel?: PrivilegeLevel;
+}
+
+const PRIVILEGE_LEVELS: PrivilegeLevel[] = ['admin', 'management', 'standard', 'readonly'];
+const DATE_FORMAT = 'YYYY-MM-DD';
+
+export const DEFAULT_PAGE_SIZE = 10;
+
+const parseList = (value: string | null): string[] =>
+  value ? value.split(',').filter(Boolean) : [];
+
+/**
+ * Parse sorting from URL params (sortBy=name,email&sortDir=asc,desc)
+ */
+export const parseSortingParams = (searchParams: URLSearchParams): MRT_SortingState | null => {
+  const sortBy = searchParams.get('sortBy');
+  if (!sortBy) return null;
+
+  const sortDir = parseList(searchParams.get('sortDir'));
+  return parseList(sortBy).map((id, index) => ({ id, desc: sortDir[index] === 'desc' }));
+};
+
+/**
+ * Read a page size (from the URL or a shared view); anything the grid
+ * doesn't offer falls back to the default
+ */
+export const parsePageSize = (value: unknown): number => {
+  const pageSize = typeof value === 'string' ? Number(value) : value;
+  return PAGE_SIZE_OPTIONS.includes(pageSize as number) ? (pageSize as number) : DEFAULT_PAGE_SIZE;
+};
+
+/**
+ * Write sorting to URL params
+ */
+export const writeSortingParams = (params: URLSearchParams, sorting: MRT_SortingState): void => {
+  if (sorting.length === 0) return;
+  params.set('sortBy', sorting.map((sort) => sort.id).join(','));
+  params.set('sortDir', sorting.map((sort) => (sort.desc ? 'desc' : 'asc')).join(','));
+};
+
+/**
+ * Parse column filters from URL params
+ */
+export const parseFilterParams = (searchParams: URLSearchParams): UserColumnFilters => {
+  const privilegeLevel = searchParams.get('privilegeLevel') as PrivilegeLevel | null;
+
+  return {
+    groupIds: parseList(searchParams.get('groups')),
+    roleIds: parseList(searchParams.get('roles')),
+    createdFrom: searchParams.get('createdFrom') || undefined,
+    createdTo: searchParams.get('createdTo') || undefined,
+    privilegeLevel:
+      privilegeLevel && PRIVILEGE_LEVELS.includes(privilegeLevel) ? privilegeLevel : undefined,
+  };
+};
+
+/**
+ * Write column filters to URL params (only non-empty values)
+ */
+export const writeFilterParams = (params: URLSearchParams, filters: UserColumnFilters): void => {
+  if (filters.groupIds.length > 0) params.set('groups', filters.groupIds.join(','));
+  if (filters.roleIds.length > 0) params.set('roles', filters.roleIds.join(','));
+  if (filters.createdFrom) params.set('createdFrom', filters.createdFrom);
+  if (filters.createdTo) params.set('createdTo', filters.createdTo);
+  if (filters.privilegeLevel) params.set('privilegeLevel', filters.privilegeLevel);
+};
+
+/**
+ * Convert page state into the MRT column filter state shown in the grid
+ */
+export const toColumnFiltersState = (
+  status: 'all' | 'active' | 'inactive',
+  filters: UserColumnFilters
+): MRT_ColumnFiltersState => {
+  const state: MRT_ColumnFiltersState = [];
+
+  if (status !== 'all') {
+    state.push({ id: 'status', value: status });
+  }
+  if (filters.groupIds.length > 0) {
+    state.push({ id: 'groups', value: filters.groupIds });
+  }
+  if (filters.createdFrom || filters.createdTo) {
+    state.push({
+      id: 'createdAt',
+      value: [
+        filters.createdFrom ? dayjs(filters.createdFrom) : '',
+        filters.createdTo ? dayjs(filters.createdTo) : '',
+      ],
+    });
+  }
+
+  return state;
+};
+
+const toDateParam = (value: unknown): string | undefined =>
+  dayjs.isDayjs(value) && value.isValid() ? value.format(DATE_FORMAT) : undefined;
+
+/**
+ * Read the grid's column filter state back into page state
+ */
+export const fromColumnFiltersState = (
+  columnFilters: MRT_ColumnFiltersState,
+  filters: UserColumnFilters
+): { status: 'all' | 'active' | 'inactive'; filters: UserColumnFilters } => {
+  const findValue = (id: string) => columnFilters.find((filter) => filter.id === id)?.value;
+
+  const status = findValue('status');
+  const groupIds = findValue('groups');
+  const createdAt = findValue('createdAt');
+  const [from, to] = Array.isArray(createdAt) ? createdAt : [];
+
+  return {
+    status: status === 'active' || status === 'inactive' ? status : 'all',
+    filters: {
+      ...filters,
+      groupIds: Array.isArray(groupIds) ? (groupIds as string[]) : [],
+      createdFrom: toDateParam(from),
+      createdTo: toDateParam(to),
+    },
+  };
+};
+
+/**
+ * Everything a saved view captures on the Users page
+ */
+export interface UserViewState {
+  query: string;
+  status: 'all' | 'active' | 'inactive';
+  filters: UserColumnFilters;
+  sorting: MRT_SortingState;
+  pageSize: number;
+  columnVisibility: Record<string, boolean>;
+  columnOrder?: string[]; // Missing in views saved before column reordering
+  density: TablePreferences['density'];
+}
+
+// A view shared through the URL (?view=...)
+export interface SharedView {
+  name: string;
+  state: UserViewState;
+}
+
+const DENSITIES: TablePreferences['density'][] = ['comfortable', 'compact', 'spacious'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+/**
+ * Check a view state from an untrusted source (a shared link)
+ */
+export const parseUserViewState = (value: unknown): UserViewState | null => {
+  if (!isRecord(value) || !isRecord(value.filters) || !isRecord(value.columnVisibility)) {
+    return null;
+  }
+  const { query, status, filters, sorting, pageSize, columnVisibility, columnOrder, density } =
+    value;
+
+  const valid =
+    typeof query === 'string' &&
+    (status === 'all' || status === 'active' || status === 'inactive') &&
+    isStringList(filters.groupIds) &&
+    isStringList(filters.roleIds) &&
+    ['createdFrom', 'createdTo'].every(
+      (key) => filters[key] === undefined || typeof filters[key] === 'string'
+    ) &&
+    (filters.privilegeLevel === undefined ||
+      PRIVILEGE_LEVELS.includes(filters.privilegeLevel as PrivilegeLevel)) &&
+    Array.isArray(sorting) &&
+    sorting.every(
+      (sort) => isRecord(sort) && typeof sort.id === 'string' && typeof sort.desc === 'boolean'
+    ) &&
+    Object.values(columnVisibility).every((visible) => typeof visible === 'boolean') &&
+    (columnOrder === undefined || isStringList(columnOrder)) &&
+    DENSITIES.includes(density as TablePreferences['density']);
+
+  return valid ? { ...(value as unknown as UserViewState), pageSize: parsePageSize(pageSize) } : null;
+};
+
+/**
+ * Encode a view for the `view` URL param (base64url JSON)
+ */
+export const encodeSharedView = (view: SharedView): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(view));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+/**
+ * Read a shared view from the `view` URL param (null when absent or invalid)
+ */
+export const parseSharedViewParam = (searchParams: URLSearchParams): SharedView | null => {
+  const encoded = searchParams.get('view');
+  if (!encoded) return null;
+
+  try {
+    const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+    const json = new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+    const parsed: unknown = JSON.parse(json);
+    if (!isRecord(parsed) || typeof parsed.name !== 'string') return null;
+
+    const state = parseUserViewState(parsed.state);
+    return state ? { name: parsed.name, state } : null;
+  } catch {
+    return null;
+  }
+};
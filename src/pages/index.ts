@@ -1 +1,6 @@
 export { UsersPage } from './UsersPage';
+export { UserDetailPage } from './UserDetailPage';
+export { LoginPage } from './LoginPage';
+export { GroupsPage } from './GroupsPage';
+export { RolesPage } from './RolesPage';
+export { AuditPage } from './AuditPage';
@@ -1,11 +1,20 @@
 import { createBrowserRouter } from 'react-router-dom';
 import { MainLayout } from '@/layouts';
-import { UsersPage } from '@/pages';
+import { RequireAuth } from '@/components';
+import { UsersPage, UserDetailPage, LoginPage, GroupsPage, RolesPage, AuditPage } from '@/pages';
 
 export const router = createBrowserRouter([
+  {
+    path: '/login',
+    element: <LoginPage />,
+  },
   {
     path: '/',
-    element: <MainLayout />,
+    element: (
+      <RequireAuth>
+        <MainLayout />
+      </RequireAuth>
+    ),
     children: [
       {
         index: true,
@@ -15,6 +24,22 @@ export const router = createBrowserRouter([
         path: 'users',
         element: <UsersPage />,
       },
+      {
+        path: 'users/:userId',
+        element: <UserDetailPage />,
+      },
+      {
+        path: 'groups',
+        element: <GroupsPage />,
+      },
+      {
+        path: 'roles',
+        element: <RolesPage />,
+      },
+      {
+        path: 'audit',
+        element: <AuditPage />,
+      },
     ],
   },
 ]);
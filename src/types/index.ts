@@ -1,3 +1,5 @@
+import type { PrivilegeLevel } from '@/utils/roleUtils';
+
 // Role type
 export interface Role {
   roleId: string;
@@ -11,6 +13,27 @@ export interface Group {
   roles: Role[];
 }
 
+// Group with its current member count (GET /api/groups)
+export interface GroupSummary extends Group {
+  memberCount: number;
+}
+
+// Role with the number of groups granting it (GET /api/roles)
+export interface RoleSummary extends Role {
+  groupCount: number;
+}
+
+// Payload for creating or editing a group (roles referenced by ID)
+export interface GroupInput {
+  groupName: string;
+  roleIds: string[];
+}
+
+// Payload for creating or renaming a role
+export interface RoleInput {
+  roleName: string;
+}
+
 // User type with nested groups
 export interface User {
   userId: string;
@@ -27,6 +50,70 @@ export interface UsersApiResponse {
     totalCount: number;
     users: User[];
   };
+  quarantined?: QuarantinedRecord[]; // Invalid records the client left out of `users`
+}
+
+// A record left out of a response because it broke the API contract
+export interface QuarantinedRecord {
+  recordId: string | null;
+  errors: string[];
+}
+
+// Sort direction for server-side sorting
+export type SortDirection = 'asc' | 'desc';
+
+// Payload for creating or editing a user (groups referenced by ID)
+export interface UserInput {
+  name: string;
+  email: string;
+  status: 'active' | 'inactive';
+  groupIds: string[];
+}
+
+// Bulk update request (PATCH /api/users)
+export interface BulkUserUpdate {
+  userIds: string[];
+  status?: 'active' | 'inactive';
+  addGroupId?: string;
+  removeGroupId?: string;
+}
+
+// Per-user outcome of a bulk update
+export interface BulkUserResult {
+  userId: string;
+  success: boolean;
+  data?: User;
+  error?: string;
+}
+
+// A user row read from an import file (groups referenced by name)
+export interface UserImportRow {
+  rowNumber: number; // Line in the source file, for error reporting
+  name: string;
+  email: string;
+  status: string; // Empty means active
+  groups: string[];
+}
+
+// Import request (POST /api/users/import)
+export interface UserImportRequest {
+  rows: UserImportRow[];
+  dryRun: boolean; // Validate only; nothing is created
+}
+
+// Validation outcome for one import row
+export interface UserImportRowResult {
+  rowNumber: number;
+  valid: boolean;
+  errors: string[];
+}
+
+// Import report; invalid rows are skipped, valid rows are created together
+export interface UserImportReport {
+  dryRun: boolean;
+  rows: UserImportRowResult[];
+  createdCount: number;
+  skippedCount: number;
 }
 
 // Pagination params
@@ -35,25 +122,196 @@ export interface PaginationParams {
   pageSize: number;
   query?: string;
   status?: 'active' | 'inactive' | 'all';
+  sortBy?: string[]; // Column keys in priority order (multi-column sort)
+  sortDir?: SortDirection[]; // Direction for each entry in sortBy
+  groupIds?: string[]; // Users in any of these groups
+  roleIds?: string[]; // Users holding any of these roles
+  createdFrom?: string; // Inclusive start date (YYYY-MM-DD)
+  createdTo?: string; // Inclusive end date (YYYY-MM-DD)
+  privilegeLevel?: PrivilegeLevel;
+}
+
+// Mutation recorded in the audit log
+export type AuditAction =
+  | 'user.created'
+  | 'user.updated'
+  | 'user.activated'
+  | 'user.deactivated'
+  | 'user.deleted'
+  | 'group.created'
+  | 'group.updated'
+  | 'group.deleted'
+  | 'role.created'
+  | 'role.updated';
+
+// A single field's value before and after a mutation (null when absent)
+export interface AuditChange {
+  field: string;
+  before: string | null;
+  after: string | null;
+}
+
+// Audit log entry
+export interface AuditEntry {
+  auditId: string;
+  timestamp: string; // ISO date string
+  actorId: string;
+  actorName: string;
+  action: AuditAction;
+  targetType: 'user' | 'group' | 'role';
+  targetId: string;
+  targetName: string;
+  changes: AuditChange[];
+}
+
+// Audit log query params (GET /api/audit)
+export interface AuditQueryParams {
+  page: number;
+  pageSize: number;
+  actor?: string; // Actor ID, or part of their name/email
+  target?: string; // Target ID, or part of its name
+  action?: AuditAction;
+  from?: string; // Inclusive start date (YYYY-MM-DD)
+  to?: string; // Inclusive end date (YYYY-MM-DD)
 }
 
-// Column metadata type for dynamic grid
-export type ColumnType = 'string' | 'badge' | 'date' | 'chiplist';
+// API response for the audit log, newest entries first
+export interface AuditLogApiResponse {
+  data: {
+    totalCount: number;
+    entries: AuditEntry[];
+  };
+}
+
+// Audit entry with the display fields the audit page derives for the grid
+export type AuditRow = AuditEntry & {
+  actionLabel: string;
+  changeSummary: string;
+};
+
+// MUI palette colors usable for chips and badges
+export type ChipColor = 'default' | 'primary' | 'secondary' | 'error' | 'info' | 'success' | 'warning';
+
+// Chip style for chiplist items whose label contains `match` (case-insensitive)
+export interface ChipStyleRule {
+  match: string;
+  color: ChipColor;
+  icon?: string; // Name of an icon known to the chiplist renderer
+}
 
-export interface ColumnMetadata {
-  key: string;
+/**
+ * Renderer-specific options for each column type, keyed by type name.
+ *
+ * The set of column types is open: an app registering its own type with
+ * `registerColumnType` declares its options by merging into this interface:
+ *
+ *   declare module '@/types' {
+ *     interface ColumnTypeOptionsMap { rating: { max: number } }
+ *   }
+ */
+export interface ColumnTypeOptionsMap {
+  string: Record<never, never>;
+  badge: {
+    colors?: Record<string, ChipColor>; // Chip color per value (default: active = success)
+  };
+  date: Record<never, never>; // Uses ColumnMetadata.format
+  chiplist: {
+    labelKey?: string; // Item field shown as the chip label (items may also be strings)
+    idKey?: string; // Item field used as the React key
+    tooltipKey?: string; // Item field holding a list shown in the chip tooltip
+    tooltipLabelKey?: string; // Field of each tooltip list entry to show
+    tooltipPrefix?: string; // e.g. "Roles"
+    emptyText?: string;
+    styles?: ChipStyleRule[]; // First matching rule wins; unmatched chips are outlined
+  };
+  number: {
+    decimals?: number;
+    locale?: string;
+  };
+  currency: {
+    currency?: string; // ISO 4217 code (default USD)
+    locale?: string;
+  };
+  boolean: {
+    trueLabel?: string;
+    falseLabel?: string;
+  };
+  link: {
+    hrefTemplate?: string; // e.g. "/users/{userId}"; {field} is replaced from the row
+    external?: boolean; // Open in a new tab
+  };
+  avatar: {
+    imageKey?: string; // Row field holding an image URL (initials are shown otherwise)
+    size?: number;
+  };
+  'relative-time': Record<never, never>;
+  progress: {
+    max?: number; // Value treated as 100% (default 100)
+  };
+}
+
+// Column type for dynamic grid (open: see ColumnTypeOptionsMap)
+export type ColumnType = keyof ColumnTypeOptionsMap;
+
+// Depth limit for ColumnKey paths (keeps recursive row types finite)
+type PathDepth = [never, 0, 1, 2, 3];
+
+/**
+ * Keys a column can read from a row of type T: a field name, or a dotted
+ * path into nested objects (e.g. "manager.name"). Arrays are leaves, so a
+ * chiplist column reads the whole array. Untyped rows accept any string.
+ */
+export type ColumnKey<T, Depth extends number = 4> = string extends keyof T
+  ? string
+  : [Depth] extends [never]
+    ? never
+    : {
+        [K in keyof T & string]: NonNullable<T[K]> extends readonly unknown[]
+          ? K
+          : NonNullable<T[K]> extends object
+            ? K | `${K}.${ColumnKey<NonNullable<T[K]>, PathDepth[Depth]>}`
+            : K;
+      }[keyof T & string];
+
+// Fields shared by every column type
+interface ColumnMetadataBase<T> {
+  key: ColumnKey<T>;
   header: string;
-  type: ColumnType;
   width?: number;
   pinned?: 'left' | 'right';
+  hideable?: boolean; // Whether the user can hide the column (default true)
   sorting?: boolean;
+  filterable?: boolean; // Filter UI is derived from the column type
+  filterOptions?: FilterOption[]; // Choices for select-style filters
   format?: string;
 }
 
+// Column metadata for one column type, with that type's options
+export type TypedColumnMetadata<
+  K extends ColumnType,
+  T = Record<string, unknown>,
+> = ColumnMetadataBase<T> & {
+  type: K;
+  options?: ColumnTypeOptionsMap[K];
+};
+
+// Column metadata for dynamic grid rows of type T (discriminated by `type`)
+export type ColumnMetadata<T = Record<string, unknown>> = {
+  [K in ColumnType]: TypedColumnMetadata<K, T>;
+}[ColumnType];
+
+// Option for select-style column filters
+export interface FilterOption {
+  value: string;
+  label: string;
+}
+
 // API Response wrapper
 export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   message?: string;
   error?: string;
+  code?: string; // Machine-readable error code, when the server sends one
+  fieldErrors?: Record<string, string>; // Validation errors keyed by input field
 }
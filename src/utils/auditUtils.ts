@@ -0,0 +1,42 @@
+import type { AuditAction, AuditChange } from '@/types';
+
+/**
+ * Audit log presentation helpers
+ */
+
+// Human readable labels for each audited action
+export const auditActionLabels: Record<AuditAction, string> = {
+  'user.created': 'User created',
+  'user.updated': 'User updated',
+  'user.activated': 'User activated',
+  'user.deactivated': 'User deactivated',
+  'user.deleted': 'User deleted',
+  'group.created': 'Group created',
+  'group.updated': 'Group updated',
+  'group.deleted': 'Group deleted',
+  'role.created': 'Role created',
+  'role.updated': 'Role renamed',
+};
+
+// Summarize a before/after diff, e.g. "status: active → inactive"
+export const formatAuditChanges = (changes: AuditChange[]): string => {
+  return changes
+    .map((change) => {
+      if (change.before === null) return `${change.field}: ${change.after || '(empty)'}`;
+      if (change.after === null) return `${change.field}: ${change.before || '(empty)'} → (removed)`;
+      return `${change.field}: ${change.before || '(empty)'} → ${change.after || '(empty)'}`;
+    })
+    .join('; ');
+};
+
+// Format an ISO timestamp with date and time
+export const formatAuditTimestamp = (timestamp: string): string => {
+  return new Date(timestamp).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+};
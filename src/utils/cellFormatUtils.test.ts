@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import type { ColumnMetadata } from '@/types';
+import { formatCellValue, formatDate } from './cellFormatUtils';
+import { toCsv } from './exportUtils';
+
+describe('cellFormatUtils', () => {
+  it('should show unparseable dates as they are', () => {
+    expect(formatDate('not a date', 'YYYY-MM-DD')).toBe('not a date');
+    expect(formatDate('not a date')).toBe('not a date');
+    expect(formatDate('2024-03-05T10:00:00.000Z', 'YYYY-MM-DD')).toBe('2024-03-05');
+  });
+
+  it('should export rows with a bad date instead of failing', () => {
+    const columns: ColumnMetadata[] = [
+      { key: 'createdAt', header: 'Joined', type: 'date', format: 'YYYY-MM-DD' },
+      { key: 'lastSeen', header: 'Last seen', type: 'relative-time' },
+    ];
+    const rows = [{ createdAt: 'garbage', lastSeen: 'garbage' }];
+
+    expect(toCsv(rows, columns, formatCellValue)).toBe('Joined,Last seen\r\ngarbage,garbage\r\n');
+  });
+});
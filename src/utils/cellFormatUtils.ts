@@ -0,0 +1,163 @@
+import type { ColumnMetadata, ColumnType, ColumnTypeOptionsMap } from '@/types';
+
+/**
+ * Plain-text cell formatting
+ *
+ * How each column type's values read as text, for exports and for the
+ * grid's cell renderers (see components/tables/columnTypes), so both show
+ * the same thing. Column types registered by the app bring their own
+ * formatter through registerColumnType.
+ */
+
+// Turns a cell value into plain text
+export type CellFormatter = (value: unknown, column: ColumnMetadata, row: unknown) => string;
+
+export const isEmptyCell = (value: unknown) =>
+  value === null || value === undefined || value === '';
+
+// Read a field from an object value (or the row)
+export const getField = (source: unknown, key: string): unknown =>
+  source && typeof source === 'object' ? (source as Record<string, unknown>)[key] : undefined;
+
+export const toNumber = (value: unknown): number | null => {
+  if (isEmptyCell(value)) return null;
+  const number = Number(value);
+  return Number.isNaN(number) ? null : number;
+};
+
+/**
+ * Format date string to readable format
+ */
+export const formatDate = (dateString: string, format?: string): string => {
+  const date = new Date(dateString);
+
+  // Unparseable values are shown as they are (toISOString would throw)
+  if (Number.isNaN(date.getTime())) {
+    return String(dateString);
+  }
+
+  if (format === 'YYYY-MM-DD') {
+    return date.toISOString().split('T')[0];
+  }
+
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+// Chip label for a chiplist item (plain strings are their own label)
+export const getChipLabel = (
+  item: unknown,
+  options: ColumnTypeOptionsMap['chiplist'] = {}
+): string =>
+  typeof item === 'string' ? item : String(getField(item, options.labelKey ?? 'label') ?? '');
+
+export const formatNumber = (value: unknown, options: ColumnTypeOptionsMap['number'] = {}) => {
+  const number = toNumber(value);
+  if (number === null) return '';
+  return new Intl.NumberFormat(options.locale, {
+    minimumFractionDigits: options.decimals,
+    maximumFractionDigits: options.decimals,
+  }).format(number);
+};
+
+export const formatCurrency = (value: unknown, options: ColumnTypeOptionsMap['currency'] = {}) => {
+  const number = toNumber(value);
+  if (number === null) return '';
+  return new Intl.NumberFormat(options.locale, {
+    style: 'currency',
+    currency: options.currency ?? 'USD',
+  }).format(number);
+};
+
+export const formatBoolean = (value: unknown, options: ColumnTypeOptionsMap['boolean'] = {}) => {
+  if (isEmptyCell(value)) return '';
+  return value ? options.trueLabel ?? 'Yes' : options.falseLabel ?? 'No';
+};
+
+// Schemes a link cell may point to; relative URLs resolve to http(s)
+const SAFE_LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/**
+ * Target of a link cell, or null when it isn't safe to link to
+ *
+ * Without `hrefTemplate` the cell value itself is the target, so values
+ * like `javascript:...` must never become a clickable href. The URL
+ * parser strips the same characters browsers do before reading the
+ * scheme (e.g. "java\tscript:").
+ */
+export const getLinkHref = (
+  value: unknown,
+  row: unknown,
+  options: ColumnTypeOptionsMap['link'] = {}
+): string | null => {
+  const href = options.hrefTemplate
+    ? options.hrefTemplate.replace(/\{(\w+)\}/g, (_, field: string) =>
+        encodeURIComponent(String(field === 'value' ? value : getField(row, field) ?? ''))
+      )
+    : String(value);
+
+  try {
+    const { protocol } = new URL(href, 'https://relative.invalid');
+    return SAFE_LINK_PROTOCOLS.includes(protocol) ? href : null;
+  } catch {
+    return null;
+  }
+};
+
+// Share of options.max a progress value stands for, as 0-100
+export const getProgressPercent = (
+  value: unknown,
+  options: ColumnTypeOptionsMap['progress'] = {}
+) => {
+  const number = toNumber(value);
+  if (number === null) return null;
+  return Math.min(100, Math.max(0, (number / (options.max ?? 100)) * 100));
+};
+
+// Options of a column, typed by the column type the formatter is for
+type Options<K extends ColumnType> = ColumnTypeOptionsMap[K] | undefined;
+
+const builtInFormatters: Partial<Record<ColumnType, CellFormatter>> = {
+  date: (value, column) => (isEmptyCell(value) ? '' : formatDate(value as string, column.format)),
+  chiplist: (value, column) =>
+    (Array.isArray(value) ? value : [])
+      .map((item) => getChipLabel(item, column.options as Options<'chiplist'>))
+      .join(', '),
+  number: (value, column) => formatNumber(value, column.options as Options<'number'>),
+  currency: (value, column) => formatCurrency(value, column.options as Options<'currency'>),
+  boolean: (value, column) => formatBoolean(value, column.options as Options<'boolean'>),
+  link: (value, column, row) =>
+    isEmptyCell(value)
+      ? ''
+      : getLinkHref(value, row, column.options as Options<'link'>) ?? String(value),
+  'relative-time': (value) => {
+    if (isEmptyCell(value)) return '';
+    const date = new Date(value as string);
+    return Number.isNaN(date.getTime()) ? String(value) : date.toISOString();
+  },
+  progress: (value, column) => {
+    const percent = getProgressPercent(value, column.options as Options<'progress'>);
+    return percent === null ? '' : `${Math.round(percent)}%`;
+  },
+};
+
+const formatters = new Map<string, CellFormatter>(Object.entries(builtInFormatters));
+
+/**
+ * Set the text formatter for a column type
+ *
+ * Called by registerColumnType; types without one export their raw value.
+ */
+export const registerCellFormatter = (type: string, formatter: CellFormatter): void => {
+  formatters.set(type, formatter);
+};
+
+// Format a cell value as plain text for export
+export const formatCellValue = (value: unknown, column: ColumnMetadata, row?: unknown): string => {
+  const formatter = formatters.get(column.type);
+  if (formatter) return formatter(value, column, row);
+  return isEmptyCell(value) ? '' : String(value);
+};
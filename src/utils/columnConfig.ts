@@ -1,4 +1,16 @@
-import type { ColumnMetadata } from '@/types';
+import type { AuditRow, ColumnMetadata, User } from '@/types';
+
+// Read a column's value from a row, following dotted keys (see ColumnKey) into nested objects
+export const getColumnValue = (row: object, key: string): unknown =>
+  key
+    .split('.')
+    .reduce<unknown>(
+      (value, part) =>
+        value !== null && typeof value === 'object'
+          ? (value as Record<string, unknown>)[part]
+          : undefined,
+      row
+    );
 
 /**
  * Column metadata configuration for the Users table
@@ -6,12 +18,13 @@ import type { ColumnMetadata } from '@/types';
  * This defines how each column should be rendered in the table.
  * The table component uses this metadata to dynamically generate columns.
  */
-export const userColumnMetadata: ColumnMetadata[] = [
+export const userColumnMetadata: ColumnMetadata<User>[] = [
   {
     key: 'name',
     header: 'Name',
     type: 'string',
     pinned: 'left',
+    hideable: false, // Rows must stay identifiable
     width: 220,
     sorting: true,
   },
@@ -27,6 +40,11 @@ export const userColumnMetadata: ColumnMetadata[] = [
     header: 'Status',
     type: 'badge',
     width: 120,
+    filterable: true,
+    filterOptions: [
+      { value: 'active', label: 'Active' },
+      { value: 'inactive', label: 'Inactive' },
+    ],
   },
   {
     key: 'createdAt',
@@ -34,11 +52,67 @@ export const userColumnMetadata: ColumnMetadata[] = [
     type: 'date',
     format: 'YYYY-MM-DD',
     width: 140,
+    filterable: true,
   },
   {
     key: 'groups',
     header: 'Groups',
     type: 'chiplist',
     width: 280,
+    filterable: true, // Options are the known groups, supplied at runtime
+    options: {
+      labelKey: 'groupName',
+      idKey: 'groupId',
+      tooltipKey: 'roles',
+      tooltipLabelKey: 'roleName',
+      tooltipPrefix: 'Roles',
+      emptyText: 'No groups',
+      // Special groups stand out (first match wins)
+      styles: [
+        { match: 'admin', color: 'error', icon: 'admin' },
+        { match: 'management', color: 'warning', icon: 'management' },
+        { match: 'content', color: 'info', icon: 'content' },
+        { match: 'standard', color: 'secondary', icon: 'person' },
+        { match: 'read only', color: 'success', icon: 'readonly' },
+      ],
+    },
+  },
+];
+
+/**
+ * Column metadata configuration for the Audit Log table
+ *
+ * Keys refer to display fields derived from each entry by the page.
+ */
+export const auditColumnMetadata: ColumnMetadata<AuditRow>[] = [
+  {
+    key: 'timestamp',
+    header: 'Time',
+    type: 'relative-time',
+    width: 160,
+  },
+  {
+    key: 'actorName',
+    header: 'Actor',
+    type: 'string',
+    width: 180,
+  },
+  {
+    key: 'actionLabel',
+    header: 'Action',
+    type: 'string',
+    width: 160,
+  },
+  {
+    key: 'targetName',
+    header: 'Target',
+    type: 'string',
+    width: 200,
+  },
+  {
+    key: 'changeSummary',
+    header: 'Changes',
+    type: 'string',
+    width: 420,
   },
 ];
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import type { ColumnMetadata } from '@/types';
+import { toCsv, toJson } from './exportUtils';
+import type { CellFormatter } from './cellFormatUtils';
+
+const columns: ColumnMetadata[] = [
+  { key: 'name', header: 'Name', type: 'string' },
+  { key: 'status', header: 'Status', type: 'badge' },
+  { key: 'groups', header: 'Groups', type: 'chiplist' },
+];
+
+const row = {
+  name: 'Smith, "Jo"',
+  status: 'active',
+  groups: 'Administrators, Standard Users',
+};
+
+describe('exportUtils', () => {
+  it('should produce RFC 4180 CSV with quoted fields and CRLF line endings', () => {
+    expect(toCsv([row], columns)).toBe(
+      'Name,Status,Groups\r\n' +
+        '"Smith, ""Jo""",active,"Administrators, Standard Users"\r\n'
+    );
+  });
+
+  it('should quote fields containing line breaks', () => {
+    const csv = toCsv([{ ...row, name: 'Line\nBreak' }], [columns[0]]);
+    expect(csv).toBe('Name\r\n"Line\nBreak"\r\n');
+  });
+
+  it('should format cells with the given formatter', () => {
+    const upper: CellFormatter = (value, column) =>
+      column.type === 'badge' ? String(value).toUpperCase() : String(value ?? '');
+    expect(toCsv([row], [columns[1]], upper)).toBe('Status\r\nACTIVE\r\n');
+  });
+
+  it('should read dotted keys from nested objects', () => {
+    const nested = [{ name: 'Jo', manager: { name: 'Sam' } }];
+    expect(toCsv(nested, [{ key: 'manager.name', header: 'Manager', type: 'string' }])).toBe(
+      'Manager\r\nSam\r\n'
+    );
+  });
+
+  it('should produce JSON records keyed by column', () => {
+    expect(JSON.parse(toJson([row], columns))).toEqual([row]);
+  });
+});
@@ -0,0 +1,63 @@
+import type { ColumnMetadata } from '@/types';
+import type { CellFormatter } from './cellFormatUtils';
+import { getColumnValue } from './columnConfig';
+
+/**
+ * Export helpers
+ *
+ * Turn table rows into CSV (RFC 4180) or JSON. Cell values are formatted
+ * by the caller, normally with formatCellValue (./cellFormatUtils) so
+ * exports match what the table shows.
+ */
+
+export type ExportFormat = 'csv' | 'json';
+
+// Fallback formatter: the raw value as text
+const formatRaw: CellFormatter = (value) =>
+  value === null || value === undefined ? '' : String(value);
+
+// Quote a CSV field when it contains a delimiter, quote or line break (RFC 4180)
+const escapeCsvField = (field: string): string => {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+};
+
+// Build a CSV document: header row of column headers, CRLF line endings
+export const toCsv = <T extends object>(
+  rows: T[],
+  columns: ColumnMetadata<T>[],
+  formatCell: CellFormatter = formatRaw
+): string => {
+  const lines = [
+    columns.map((col) => escapeCsvField(col.header)),
+    ...rows.map((row) =>
+      columns.map((col) => escapeCsvField(formatCell(getColumnValue(row, col.key), col, row)))
+    ),
+  ];
+  return lines.map((fields) => fields.join(',')).join('\r\n') + '\r\n';
+};
+
+// Build a JSON document: an array of objects keyed by column key
+export const toJson = <T extends object>(
+  rows: T[],
+  columns: ColumnMetadata<T>[],
+  formatCell: CellFormatter = formatRaw
+): string => {
+  const records = rows.map((row) =>
+    Object.fromEntries(
+      columns.map((col) => [col.key, formatCell(getColumnValue(row, col.key), col, row)])
+    )
+  );
+  return JSON.stringify(records, null, 2);
+};
+
+// Save text as a file through a temporary download link
+export const downloadFile = (content: string, fileName: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
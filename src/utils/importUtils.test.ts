@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, guessColumnMapping, toImportRows } from './importUtils';
+import { toCsv } from './exportUtils';
+import type { ColumnMetadata } from '@/types';
+
+describe('importUtils', () => {
+  it('should parse quoted fields with commas, quotes and line breaks', () => {
+    const csv = 'Name,Notes\r\n"Smith, ""Jo""","two\nlines"\r\n\r\nPlain,value';
+    expect(parseCsv(csv)).toEqual([
+      ['Name', 'Notes'],
+      ['Smith, "Jo"', 'two\nlines'],
+      ['Plain', 'value'],
+    ]);
+  });
+
+  it('should round-trip the exporter output', () => {
+    const columns: ColumnMetadata[] = [
+      { key: 'name', header: 'Name', type: 'string' },
+      { key: 'email', header: 'Email', type: 'string' },
+    ];
+    const rows = [{ name: 'A "B", C', email: 'a@example.com' }];
+    expect(parseCsv(toCsv(rows, columns))).toEqual([
+      ['Name', 'Email'],
+      ['A "B", C', 'a@example.com'],
+    ]);
+  });
+
+  it('should guess the mapping from header names', () => {
+    expect(guessColumnMapping(['E-mail', 'Full Name', 'Group', 'Other'])).toEqual({
+      name: 1,
+      email: 0,
+      status: null,
+      groups: 2,
+    });
+  });
+
+  it('should build import rows with split group names and file line numbers', () => {
+    const rows = toImportRows(
+      [[' Jo ', 'jo@example.com', 'Standard Users; Content Team']],
+      { name: 0, email: 1, status: null, groups: 2 }
+    );
+    expect(rows).toEqual([
+      {
+        rowNumber: 2,
+        name: 'Jo',
+        email: 'jo@example.com',
+        status: '',
+        groups: ['Standard Users', 'Content Team'],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import type { UserImportRow } from '@/types';
+
+/**
+ * Import helpers
+ *
+ * Parse an uploaded CSV (RFC 4180) and turn its rows into user import
+ * rows using a header-to-field mapping chosen in the import wizard.
+ */
+
+// User fields a CSV column can be mapped to
+export type ImportField = 'name' | 'email' | 'status' | 'groups';
+
+// Column index for each field (null = not mapped)
+export type ImportColumnMapping = Record<ImportField, number | null>;
+
+export const importFields: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'name', label: 'Name', required: true },
+  { field: 'email', label: 'Email', required: true },
+  { field: 'status', label: 'Status', required: false },
+  { field: 'groups', label: 'Groups', required: true },
+];
+
+// Header names recognised for each field (matched case-insensitively)
+const headerAliases: Record<ImportField, string[]> = {
+  name: ['name', 'full name', 'display name'],
+  email: ['email', 'e-mail', 'email address'],
+  status: ['status', 'state'],
+  groups: ['groups', 'group', 'group names'],
+};
+
+// Parse CSV text into rows of fields. Handles quoted fields with
+// embedded commas, quotes ("") and line breaks; blank lines are dropped.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, ''); // Strip a byte order mark
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Last line without a trailing line break
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ''));
+};
+
+// Map fields to columns by header name
+export const guessColumnMapping = (headers: string[]): ImportColumnMapping => {
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+  const findColumn = (field: ImportField) => {
+    const index = normalized.findIndex((header) => headerAliases[field].includes(header));
+    return index === -1 ? null : index;
+  };
+
+  return {
+    name: findColumn('name'),
+    email: findColumn('email'),
+    status: findColumn('status'),
+    groups: findColumn('groups'),
+  };
+};
+
+// Build import rows from parsed data rows (header excluded). Group cells
+// may list several groups separated by commas or semicolons.
+export const toImportRows = (
+  dataRows: string[][],
+  mapping: ImportColumnMapping
+): UserImportRow[] => {
+  const cell = (fields: string[], field: ImportField) => {
+    const index = mapping[field];
+    return index === null ? '' : (fields[index] ?? '').trim();
+  };
+
+  return dataRows.map((fields, index) => ({
+    rowNumber: index + 2, // Line 1 is the header
+    name: cell(fields, 'name'),
+    email: cell(fields, 'email'),
+    status: cell(fields, 'status'),
+    groups: cell(fields, 'groups')
+      .split(/[,;]/)
+      .map((name) => name.trim())
+      .filter(Boolean),
+  }));
+};
@@ -1,4 +1,38 @@
-export { userColumnMetadata } from './columnConfig';
+export { userColumnMetadata, auditColumnMetadata, getColumnValue } from './columnConfig';
+export {
+  validateColumnMetadata,
+  mergeColumnVisibility,
+  mergeColumnOrder,
+  mergeColumnPinning,
+  mergeColumnSizing,
+} from './metadataUtils';
+export type { ColumnMetadataValidation } from './metadataUtils';
+export { readVersionedValue, wrapVersionedValue } from './storageUtils';
+export type { StorageSchema, VersionedValue, StoredValueResult } from './storageUtils';
+export { restoreQueryCache, persistQueryCache } from './queryCacheUtils';
+export type { QueryCachePersistOptions } from './queryCacheUtils';
+export { validators } from './validationUtils';
+export type { Validator } from './validationUtils';
+export { toCsv, toJson, downloadFile } from './exportUtils';
+export type { ExportFormat } from './exportUtils';
+export {
+  formatCellValue,
+  registerCellFormatter,
+  formatDate,
+  formatNumber,
+  formatCurrency,
+  formatBoolean,
+  getChipLabel,
+  getLinkHref,
+  getProgressPercent,
+  getField,
+  toNumber,
+  isEmptyCell,
+} from './cellFormatUtils';
+export type { CellFormatter } from './cellFormatUtils';
+export { parseCsv, guessColumnMapping, toImportRows, importFields } from './importUtils';
+export type { ImportField, ImportColumnMapping } from './importUtils';
+export { auditActionLabels, formatAuditChanges, formatAuditTimestamp } from './auditUtils';
 export {
   isAdmin,
   isManagement,
@@ -8,22 +42,9 @@ export {
   getPrivilegeLevel,
   getPrivilegeBadgeColor,
   canPerformAction,
+  canManageUsers,
+  canManageGroups,
+  getActionDeniedReason,
+  isAccessLevelGroupName,
 } from './roleUtils';
-export type { PrivilegeLevel } from './roleUtils';
-
-/**
- * Format date string to readable format
- */
-export const formatDate = (dateString: string, format?: string): string => {
-  const date = new Date(dateString);
-
-  if (format === 'YYYY-MM-DD') {
-    return date.toISOString().split('T')[0];
-  }
-
-  return date.toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'short',
-    day: 'numeric',
-  });
-};
+export type { PrivilegeLevel, UserAction } from './roleUtils';
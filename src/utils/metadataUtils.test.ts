@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import type { ColumnMetadata } from '@/types';
+import {
+  validateColumnMetadata,
+  mergeColumnVisibility,
+  mergeColumnOrder,
+  mergeColumnPinning,
+  mergeColumnSizing,
+} from './metadataUtils';
+import { userColumnMetadata } from './columnConfig';
+
+const knownTypes = new Set(['string', 'badge', 'date', 'chiplist']);
+const isKnownType = (type: string) => knownTypes.has(type);
+
+describe('metadataUtils', () => {
+  it('should accept the bundled user columns', () => {
+    const result = validateColumnMetadata(userColumnMetadata, isKnownType);
+    expect(result.valid).toBe(true);
+  });
+
+  it('should reject unknown column types', () => {
+    const result = validateColumnMetadata(
+      [{ key: 'score', header: 'Score', type: 'sparkline' }],
+      isKnownType
+    );
+    expect(result).toEqual({
+      valid: false,
+      errors: ['Column "score": unknown type "sparkline"'],
+    });
+  });
+
+  it('should reject malformed entries and duplicate keys', () => {
+    const result = validateColumnMetadata(
+      [
+        { key: 'name', header: 'Name', type: 'string', width: '200' },
+        { key: 'name', header: 'Name again', type: 'string', pinned: 'top' },
+        'email',
+      ],
+      isKnownType
+    );
+    expect(result.valid).toBe(false);
+    expect(!result.valid && result.errors).toEqual([
+      'Column "name": width must be a number',
+      'Column "name": pinned must be "left" or "right"',
+      'Column "name": duplicate key',
+      'Column #3: must be an object',
+    ]);
+  });
+
+  it('should reject payloads that are not a non-empty list', () => {
+    expect(validateColumnMetadata({ columns: [] }, isKnownType).valid).toBe(false);
+    expect(validateColumnMetadata([], isKnownType).valid).toBe(false);
+  });
+
+  it('should keep saved visibility, show new columns and drop removed ones', () => {
+    const columns: ColumnMetadata[] = [
+      { key: 'name', header: 'Name', type: 'string', hideable: false },
+      { key: 'email', header: 'Email', type: 'string' },
+      { key: 'userId', header: 'User ID', type: 'string' },
+    ];
+    expect(
+      mergeColumnVisibility(columns, { name: false, email: false, removed: false })
+    ).toEqual({ name: true, email: false, userId: true });
+  });
+
+  it('should keep the saved column order and append new columns', () => {
+    const columns: ColumnMetadata[] = [
+      { key: 'name', header: 'Name', type: 'string' },
+      { key: 'email', header: 'Email', type: 'string' },
+      { key: 'userId', header: 'User ID', type: 'string' },
+    ];
+    expect(mergeColumnOrder(columns, ['email', 'removed', 'name'])).toEqual([
+      'email',
+      'name',
+      'userId',
+    ]);
+    expect(mergeColumnOrder(columns, [])).toEqual(['name', 'email', 'userId']);
+  });
+
+  it('should use metadata pinning until the user pins columns', () => {
+    const columns: ColumnMetadata[] = [
+      { key: 'name', header: 'Name', type: 'string', pinned: 'left' },
+      { key: 'email', header: 'Email', type: 'string' },
+    ];
+    expect(mergeColumnPinning(columns, null)).toEqual({ left: ['name'], right: [] });
+    expect(mergeColumnPinning(columns, { left: [], right: ['email', 'removed'] })).toEqual({
+      left: [],
+      right: ['email'],
+    });
+  });
+
+  it('should drop saved sizes for removed columns', () => {
+    const columns: ColumnMetadata[] = [{ key: 'name', header: 'Name', type: 'string' }];
+    expect(mergeColumnSizing(columns, { name: 240, removed: 100 })).toEqual({ name: 240 });
+  });
+});
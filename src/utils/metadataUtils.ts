@@ -0,0 +1,139 @@
+import type { ColumnMetadata } from '@/types';
+
+/**
+ * Column metadata helpers
+ *
+ * Column metadata can come from the server, so it is checked at runtime
+ * before the grid uses it. Saved column visibility, order, pinning and
+ * widths are merged with the current metadata so columns added later
+ * show up without discarding the user's existing choices.
+ */
+
+export type ColumnMetadataValidation =
+  | { valid: true; columns: ColumnMetadata[] }
+  | { valid: false; errors: string[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalFields: [field: string, type: 'string' | 'number' | 'boolean'][] = [
+  ['width', 'number'],
+  ['hideable', 'boolean'],
+  ['sorting', 'boolean'],
+  ['filterable', 'boolean'],
+  ['format', 'string'],
+];
+
+// Problems with a single entry (empty = valid)
+const validateColumn = (entry: unknown, isKnownType: (type: string) => boolean): string[] => {
+  if (!isRecord(entry)) return ['must be an object'];
+
+  const errors: string[] = [];
+  if (typeof entry.key !== 'string' || !entry.key.trim()) errors.push('key is required');
+  if (typeof entry.header !== 'string') errors.push('header is required');
+  if (typeof entry.type !== 'string') errors.push('type is required');
+  else if (!isKnownType(entry.type)) errors.push(`unknown type "${entry.type}"`);
+
+  optionalFields.forEach(([field, type]) => {
+    if (entry[field] !== undefined && typeof entry[field] !== type) {
+      errors.push(`${field} must be a ${type}`);
+    }
+  });
+  if (entry.pinned !== undefined && entry.pinned !== 'left' && entry.pinned !== 'right') {
+    errors.push('pinned must be "left" or "right"');
+  }
+  if (
+    entry.filterOptions !== undefined &&
+    !(
+      Array.isArray(entry.filterOptions) &&
+      entry.filterOptions.every(
+        (option) =>
+          isRecord(option) && typeof option.value === 'string' && typeof option.label === 'string'
+      )
+    )
+  ) {
+    errors.push('filterOptions must be a list of { value, label }');
+  }
+  if (entry.options !== undefined && !isRecord(entry.options)) {
+    errors.push('options must be an object');
+  }
+  return errors;
+};
+
+// Validate a column metadata payload; any bad entry rejects the whole list
+export const validateColumnMetadata = (
+  value: unknown,
+  isKnownType: (type: string) => boolean
+): ColumnMetadataValidation => {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { valid: false, errors: ['Column metadata must be a non-empty list'] };
+  }
+
+  const errors: string[] = [];
+  const seenKeys = new Set<string>();
+  value.forEach((entry, index) => {
+    const label =
+      isRecord(entry) && typeof entry.key === 'string' ? `"${entry.key}"` : `#${index + 1}`;
+    validateColumn(entry, isKnownType).forEach((error) => errors.push(`Column ${label}: ${error}`));
+    if (isRecord(entry) && typeof entry.key === 'string') {
+      if (seenKeys.has(entry.key)) errors.push(`Column ${label}: duplicate key`);
+      seenKeys.add(entry.key);
+    }
+  });
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, columns: value };
+};
+
+// Saved visibility for the current columns: new columns are visible,
+// columns that can't be hidden stay visible, and entries for columns
+// that no longer exist are dropped
+export const mergeColumnVisibility = <T>(
+  columns: ColumnMetadata<T>[],
+  savedVisibility: Record<string, boolean>
+): Record<string, boolean> =>
+  Object.fromEntries(
+    columns.map((col) => [
+      col.key,
+      col.hideable === false ? true : (savedVisibility[col.key] ?? true),
+    ])
+  );
+
+// Saved column order for the current columns: saved keys that still exist
+// keep their place, columns added since follow in metadata order
+export const mergeColumnOrder = <T>(
+  columns: ColumnMetadata<T>[],
+  savedOrder: string[]
+): string[] => {
+  const keys: string[] = columns.map((col) => col.key);
+  const kept = savedOrder.filter((key) => keys.includes(key));
+  return [...kept, ...keys.filter((key) => !kept.includes(key))];
+};
+
+// Saved pinning for the current columns, or the metadata `pinned` defaults
+export const mergeColumnPinning = <T>(
+  columns: ColumnMetadata<T>[],
+  savedPinning: { left: string[]; right: string[] } | null
+): { left: string[]; right: string[] } => {
+  if (!savedPinning) {
+    return {
+      left: columns.filter((col) => col.pinned === 'left').map((col) => col.key),
+      right: columns.filter((col) => col.pinned === 'right').map((col) => col.key),
+    };
+  }
+  const keys: string[] = columns.map((col) => col.key);
+  return {
+    left: savedPinning.left.filter((key) => keys.includes(key)),
+    right: savedPinning.right.filter((key) => keys.includes(key)),
+  };
+};
+
+// Saved widths for columns that still exist (others use metadata `width`)
+export const mergeColumnSizing = <T>(
+  columns: ColumnMetadata<T>[],
+  savedSizing: Record<string, number>
+): Record<string, number> =>
+  Object.fromEntries(
+    columns
+      .filter((col) => typeof savedSizing[col.key] === 'number')
+      .map((col) => [col.key, savedSizing[col.key]])
+  );
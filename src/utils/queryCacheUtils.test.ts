@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { QueryClient } from '@tanstack/react-query';
+import {
+  persistQueryCache,
+  restoreQueryCache,
+  type QueryCachePersistOptions,
+} from './queryCacheUtils';
+
+const options: QueryCachePersistOptions = {
+  storageKey: 'test-query-cache',
+  buster: '1.0.0',
+  maxAge: 60_000,
+  shouldPersistQuery: (query) => query.queryKey[0] === 'users',
+  throttleMs: 100,
+};
+
+// Save a users page and an unrelated query, then wait for the throttled write
+const saveCache = () => {
+  const client = new QueryClient();
+  const stop = persistQueryCache(client, options);
+  client.setQueryData(['users', 'list', { page: 1 }], { users: ['ada'] });
+  client.setQueryData(['session', 'me'], { name: 'Ada' });
+  vi.advanceTimersByTime(100);
+  stop();
+};
+
+describe('queryCacheUtils', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should restore only the persisted queries', () => {
+    saveCache();
+    const client = new QueryClient();
+
+    expect(restoreQueryCache(client, options)).toBe(true);
+    expect(client.getQueryData(['users', 'list', { page: 1 }])).toEqual({ users: ['ada'] });
+    expect(client.getQueryData(['session', 'me'])).toBeUndefined();
+  });
+
+  it('should drop a cache saved by another app version', () => {
+    saveCache();
+    const client = new QueryClient();
+
+    expect(restoreQueryCache(client, { ...options, buster: '1.1.0' })).toBe(false);
+    expect(client.getQueryData(['users', 'list', { page: 1 }])).toBeUndefined();
+    expect(window.localStorage.getItem(options.storageKey)).toBeNull();
+  });
+
+  it('should drop a cache older than maxAge', () => {
+    saveCache();
+    vi.advanceTimersByTime(options.maxAge + 1);
+
+    expect(restoreQueryCache(new QueryClient(), options)).toBe(false);
+  });
+});
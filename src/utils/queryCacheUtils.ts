@@ -0,0 +1,109 @@
+import { dehydrate, hydrate, type DehydratedState, type Query, type QueryClient } from '@tanstack/react-query';
+import { readVersionedValue, wrapVersionedValue, type StorageSchema } from './storageUtils';
+
+/**
+ * Persisted React Query cache
+ *
+ * Selected queries are saved to localStorage (throttled) and restored on
+ * load, so data seen earlier can still be shown while offline. A saved
+ * cache is dropped once it is older than `maxAge`, or when `buster`
+ * (the app version) changes, since old data may not fit the new code.
+ */
+export interface QueryCachePersistOptions {
+  storageKey: string;
+  buster: string;
+  maxAge: number; // Milliseconds
+  shouldPersistQuery: (query: Query) => boolean;
+  throttleMs?: number; // Delay between cache changes and the write (default 1s)
+}
+
+interface PersistedQueryCache {
+  buster: string;
+  savedAt: number;
+  clientState: DehydratedState;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const persistedCacheSchema: StorageSchema<PersistedQueryCache> = {
+  version: 1,
+  parse: (data) => {
+    if (
+      !isRecord(data) ||
+      typeof data.buster !== 'string' ||
+      typeof data.savedAt !== 'number' ||
+      !isRecord(data.clientState) ||
+      !Array.isArray(data.clientState.queries)
+    ) {
+      throw new Error('expected { buster, savedAt, clientState }');
+    }
+    return data as unknown as PersistedQueryCache;
+  },
+};
+
+const removePersistedCache = (storageKey: string) => {
+  try {
+    window.localStorage.removeItem(storageKey);
+  } catch {
+    // Nothing to clean up if storage is unavailable
+  }
+};
+
+// Restore a saved cache into the client; returns whether anything was restored
+export const restoreQueryCache = (
+  queryClient: QueryClient,
+  { storageKey, buster, maxAge }: QueryCachePersistOptions
+): boolean => {
+  let raw: string | null;
+  try {
+    raw = window.localStorage.getItem(storageKey);
+  } catch {
+    return false;
+  }
+  if (raw === null) return false;
+
+  const result = readVersionedValue(raw, persistedCacheSchema);
+  if (!result.ok || result.value.buster !== buster || Date.now() - result.value.savedAt > maxAge) {
+    removePersistedCache(storageKey);
+    return false;
+  }
+
+  hydrate(queryClient, result.value.clientState);
+  return true;
+};
+
+// Save the selected queries whenever the cache changes; returns an unsubscribe function
+export const persistQueryCache = (
+  queryClient: QueryClient,
+  { storageKey, buster, shouldPersistQuery, throttleMs = 1000 }: QueryCachePersistOptions
+): (() => void) => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const save = () => {
+    timer = null;
+    const clientState = dehydrate(queryClient, {
+      shouldDehydrateQuery: (query) => query.state.status === 'success' && shouldPersistQuery(query),
+      shouldDehydrateMutation: () => false,
+    });
+    const value = wrapVersionedValue(
+      { buster, savedAt: Date.now(), clientState },
+      persistedCacheSchema.version
+    );
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(value));
+    } catch (error) {
+      // Most likely over the storage quota; offline reads just won't have this data
+      console.warn('Error saving the query cache:', error);
+    }
+  };
+
+  const unsubscribe = queryClient.getQueryCache().subscribe(() => {
+    timer ??= setTimeout(save, throttleMs);
+  });
+
+  return () => {
+    unsubscribe();
+    if (timer) clearTimeout(timer);
+  };
+};
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import type { Group, User } from '@/types';
+import { canPerformAction, getActionDeniedReason } from './roleUtils';
+
+const makeUser = (groupName: string): User => {
+  const group: Group = { groupId: groupName, groupName, roles: [] };
+  return {
+    userId: `user-${groupName}`,
+    name: groupName,
+    email: `${groupName}@example.com`,
+    status: 'active',
+    createdAt: '2024-01-01T00:00:00.000Z',
+    groups: [group],
+  };
+};
+
+describe('roleUtils permissions', () => {
+  const admin = makeUser('Administrators');
+  const standard = makeUser('Standard Users');
+
+  it('should only let admins act on admins', () => {
+    expect(canPerformAction('management', admin, 'deactivate')).toBe(false);
+    expect(getActionDeniedReason('management', admin, 'deactivate')).toBe(
+      'Only administrators can deactivate an administrator'
+    );
+    expect(canPerformAction('admin', admin, 'deactivate')).toBe(true);
+  });
+
+  it('should only let admins delete users', () => {
+    expect(getActionDeniedReason('management', standard, 'delete')).toBe(
+      'Only administrators can delete users'
+    );
+    expect(canPerformAction('admin', standard, 'delete')).toBe(true);
+  });
+
+  it('should let management activate, deactivate and edit non-admins', () => {
+    expect(canPerformAction('management', standard, 'activate')).toBe(true);
+    expect(canPerformAction('management', standard, 'deactivate')).toBe(true);
+    expect(canPerformAction('management', standard, 'edit')).toBe(true);
+  });
+
+  it('should deny standard and read-only users with a reason', () => {
+    expect(canPerformAction('standard', standard, 'activate')).toBe(false);
+    expect(getActionDeniedReason('readonly', standard, 'edit')).toBe(
+      'Your access level does not allow you to edit users'
+    );
+  });
+});
@@ -13,6 +13,15 @@ const ADMIN_GROUPS = ['administrators', 'admins', 'admin'];
 // Management group names
 const MANAGEMENT_GROUPS = ['management team', 'managers', 'management'];
 
+// Read-only group name
+const READ_ONLY_GROUP = 'read only';
+
+// Check if a group's name alone sets its members' privilege level (see getPrivilegeLevel)
+export const isAccessLevelGroupName = (groupName: string): boolean => {
+  const name = groupName.trim().toLowerCase();
+  return ADMIN_GROUPS.includes(name) || MANAGEMENT_GROUPS.includes(name) || name === READ_ONLY_GROUP;
+};
+
 // Check if a user belongs to a specific group
 export const isInGroup = (user: User, groupName: string): boolean => {
   return user.groups.some(
@@ -60,7 +69,7 @@ export type PrivilegeLevel = 'admin' | 'management' | 'standard' | 'readonly';
 export const getPrivilegeLevel = (user: User): PrivilegeLevel => {
   if (isAdmin(user)) return 'admin';
   if (isManagement(user)) return 'management';
-  if (isInGroup(user, 'Read Only')) return 'readonly';
+  if (isInGroup(user, READ_ONLY_GROUP)) return 'readonly';
   return 'standard';
 };
 
@@ -81,28 +90,50 @@ export const getPrivilegeBadgeColor = (
   }
 };
 
-// Check if current user can perform action on target user
-export const canPerformAction = (
+// Actions that can be performed on another user
+export type UserAction = 'activate' | 'deactivate' | 'edit' | 'delete';
+
+// Check if a privilege level can manage (create/edit/toggle) users at all
+export const canManageUsers = (level: PrivilegeLevel): boolean => {
+  return level === 'admin' || level === 'management';
+};
+
+// Only administrators may create, edit or delete groups and roles
+export const canManageGroups = (level: PrivilegeLevel): boolean => {
+  return level === 'admin';
+};
+
+// Explain why the current user cannot perform an action (null when allowed)
+export const getActionDeniedReason = (
   currentUserLevel: PrivilegeLevel,
   targetUser: User,
-  action: 'activate' | 'deactivate' | 'delete'
-): boolean => {
+  action: UserAction
+): string | null => {
   const targetLevel = getPrivilegeLevel(targetUser);
 
   // Only admins can perform actions on other admins
   if (targetLevel === 'admin' && currentUserLevel !== 'admin') {
-    return false;
+    return `Only administrators can ${action} an administrator`;
   }
 
   // Management and above can perform most actions
   if (action === 'delete') {
-    return currentUserLevel === 'admin';
+    return currentUserLevel === 'admin' ? null : 'Only administrators can delete users';
   }
 
   // Standard users can't perform actions
-  if (currentUserLevel === 'standard' || currentUserLevel === 'readonly') {
-    return false;
+  if (!canManageUsers(currentUserLevel)) {
+    return `Your access level does not allow you to ${action} users`;
   }
 
-  return true;
+  return null;
+};
+
+// Check if current user can perform action on target user
+export const canPerformAction = (
+  currentUserLevel: PrivilegeLevel,
+  targetUser: User,
+  action: UserAction
+): boolean => {
+  return getActionDeniedReason(currentUserLevel, targetUser, action) === null;
 };
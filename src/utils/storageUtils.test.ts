@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { readVersionedValue, type StorageSchema } from './storageUtils';
+
+interface Settings {
+  theme: 'light' | 'dark';
+  fontSize: number;
+}
+
+const schema: StorageSchema<Settings> = {
+  version: 3,
+  migrations: {
+    2: (data) => ({ ...(data as object), fontSize: 14 }),
+    3: (data) => {
+      const { darkMode, ...rest } = data as { darkMode: boolean };
+      return { ...rest, theme: darkMode ? 'dark' : 'light' };
+    },
+  },
+  parse: (data) => {
+    const { theme, fontSize } = data as Record<string, unknown>;
+    if (theme !== 'light' && theme !== 'dark') throw new Error('theme is required');
+    if (typeof fontSize !== 'number') throw new Error('fontSize is required');
+    return { theme, fontSize };
+  },
+};
+
+describe('storageUtils', () => {
+  it('should return current-version values as stored', () => {
+    const raw = JSON.stringify({ version: 3, data: { theme: 'dark', fontSize: 16 } });
+    expect(readVersionedValue(raw, schema)).toEqual({
+      ok: true,
+      value: { theme: 'dark', fontSize: 16 },
+    });
+  });
+
+  it('should run migrations in order for unversioned values', () => {
+    expect(readVersionedValue(JSON.stringify({ darkMode: true }), schema)).toEqual({
+      ok: true,
+      value: { theme: 'dark', fontSize: 14 },
+    });
+  });
+
+  it('should report migration, validation and version errors', () => {
+    expect(readVersionedValue('{not json', schema)).toEqual({
+      ok: false,
+      error: 'Stored value is not valid JSON',
+    });
+    expect(
+      readVersionedValue(JSON.stringify({ version: 3, data: { theme: 'blue' } }), schema)
+    ).toEqual({ ok: false, error: 'Stored value is invalid: theme is required' });
+    expect(readVersionedValue(JSON.stringify({ version: 4, data: {} }), schema)).toEqual({
+      ok: false,
+      error: 'Stored version 4 is newer than the supported version 3',
+    });
+    expect(
+      readVersionedValue(JSON.stringify({ version: 0, data: {} }), schema)
+    ).toEqual({ ok: false, error: 'No migration registered for version 1' });
+  });
+
+  it('should report a throwing migration instead of throwing', () => {
+    const failing: StorageSchema<Settings> = {
+      ...schema,
+      migrations: {
+        ...schema.migrations,
+        2: () => {
+          throw new Error('bad data');
+        },
+      },
+    };
+    expect(readVersionedValue(JSON.stringify({ darkMode: false }), failing)).toEqual({
+      ok: false,
+      error: 'Migration to version 2 failed: bad data',
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Versioned localStorage values
+ *
+ * Values are stored as `{ version, data }` envelopes. When the stored
+ * version is older than the schema's, the registered migrations run in
+ * order (migration N upgrades version N-1 data to version N), then the
+ * schema's `parse` checks the result before the app sees it.
+ */
+
+export interface StorageSchema<T> {
+  version: number; // Current version, starting at 1
+  migrations?: Record<number, (data: unknown) => unknown>;
+  parse: (data: unknown) => T; // Validates and cleans migrated data; throws if unusable
+}
+
+export interface VersionedValue<T> {
+  version: number;
+  data: T;
+}
+
+export type StoredValueResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+// Values written before envelopes were introduced count as version 1
+const LEGACY_VERSION = 1;
+
+const isVersionedValue = (value: unknown): value is VersionedValue<unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  Number.isInteger((value as Record<string, unknown>).version) &&
+  'data' in value;
+
+const getMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export const wrapVersionedValue = <T>(data: T, version: number): VersionedValue<T> => ({
+  version,
+  data,
+});
+
+// Parse, migrate and validate a raw stored string
+export const readVersionedValue = <T>(
+  raw: string,
+  schema: StorageSchema<T>
+): StoredValueResult<T> => {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: 'Stored value is not valid JSON' };
+  }
+
+  const { version, data: storedData } = isVersionedValue(stored)
+    ? stored
+    : wrapVersionedValue(stored, LEGACY_VERSION);
+  if (version > schema.version) {
+    return {
+      ok: false,
+      error: `Stored version ${version} is newer than the supported version ${schema.version}`,
+    };
+  }
+
+  let data = storedData;
+  for (let next = version + 1; next <= schema.version; next++) {
+    const migrate = schema.migrations?.[next];
+    if (!migrate) {
+      return { ok: false, error: `No migration registered for version ${next}` };
+    }
+    try {
+      data = migrate(data);
+    } catch (error) {
+      return { ok: false, error: `Migration to version ${next} failed: ${getMessage(error)}` };
+    }
+  }
+
+  try {
+    return { ok: true, value: schema.parse(data) };
+  } catch (error) {
+    return { ok: false, error: `Stored value is invalid: ${getMessage(error)}` };
+  }
+};
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { validators as v } from './validationUtils';
+
+interface Item {
+  id: string;
+  kind: 'a' | 'b';
+  tags: string[];
+  updatedAt: string;
+}
+
+const itemSchema = v.object<Item>({
+  id: v.nonEmptyString(),
+  kind: v.oneOf('a', 'b'),
+  tags: v.arrayOf(v.string()),
+  updatedAt: v.isoDateString(),
+});
+
+const validItem: Item = {
+  id: 'item-1',
+  kind: 'a',
+  tags: ['x'],
+  updatedAt: '2024-03-01T12:30:00.000Z',
+};
+
+describe('validationUtils', () => {
+  it('should accept a value matching the schema', () => {
+    expect(itemSchema(validItem, '')).toEqual([]);
+  });
+
+  it('should report every problem with its path', () => {
+    const errors = itemSchema(
+      { id: '', kind: 'c', tags: ['x', 3], updatedAt: 'yesterday' },
+      'items[2]'
+    );
+
+    expect(errors).toEqual([
+      'items[2].id must be a non-empty string',
+      'items[2].kind must be one of "a", "b"',
+      'items[2].tags[1] must be a string',
+      'items[2].updatedAt must be an ISO date-time string',
+    ]);
+  });
+
+  it('should report missing fields and non-objects', () => {
+    const { tags: _tags, ...withoutTags } = validItem;
+    expect(itemSchema(withoutTags, '')).toEqual(['tags must be a list']);
+    expect(itemSchema(null, '')).toEqual(['value must be an object']);
+    expect(v.arrayOf(itemSchema)({}, 'items')).toEqual(['items must be a list']);
+  });
+
+  it('should accept a missing optional field but check one that is present', () => {
+    const note = v.optional(v.string());
+    expect(note(undefined, 'note')).toEqual([]);
+    expect(note(null, 'note')).toEqual(['note must be a string']);
+  });
+
+  it('should only accept real ISO date-times', () => {
+    const isoDate = v.isoDateString();
+    expect(isoDate('2024-03-01T12:30:00Z', '')).toEqual([]);
+    expect(isoDate('2024-03-01T12:30:00+02:00', '')).toEqual([]);
+    expect(isoDate('2024-03-01', 'createdAt')).toHaveLength(1);
+    expect(isoDate('2024-13-45T99:99:00Z', 'createdAt')).toHaveLength(1);
+    expect(isoDate(1709296200000, 'createdAt')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Runtime validators for API payloads
+ *
+ * A validator checks an unknown value and returns its problems (empty =
+ * valid), each prefixed with the path to the offending field. Validators
+ * carry the type they check, and `object<T>` needs one for every field of
+ * T, so a schema stops compiling when its type gains, loses or changes a
+ * field.
+ */
+
+export interface Validator<T> {
+  (value: unknown, path: string): string[];
+  readonly type?: T; // Never set; ties the validator to the type it checks
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Format "users[3].createdAt" style paths
+const at = (path: string, field: string) => (path ? `${path}.${field}` : field);
+const label = (path: string) => path || 'value';
+
+const string = (): Validator<string> => (value, path) =>
+  typeof value === 'string' ? [] : [`${label(path)} must be a string`];
+
+const nonEmptyString = (): Validator<string> => (value, path) =>
+  typeof value === 'string' && value.trim() ? [] : [`${label(path)} must be a non-empty string`];
+
+const boolean = (): Validator<boolean> => (value, path) =>
+  typeof value === 'boolean' ? [] : [`${label(path)} must be a boolean`];
+
+// Accepts anything; for fields checked elsewhere (e.g. records quarantined one by one)
+const unknown = (): Validator<unknown> => () => [];
+
+const number = (): Validator<number> => (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) ? [] : [`${label(path)} must be a number`];
+
+// Full ISO 8601 date-time, as produced by Date.toISOString()
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+const isoDateString = (): Validator<string> => (value, path) =>
+  typeof value === 'string' && ISO_DATE_TIME.test(value) && !Number.isNaN(Date.parse(value))
+    ? []
+    : [`${label(path)} must be an ISO date-time string`];
+
+const oneOf =
+  <T extends string>(...values: T[]): Validator<T> =>
+  (value, path) =>
+    values.includes(value as T)
+      ? []
+      : [`${label(path)} must be one of ${values.map((v) => `"${v}"`).join(', ')}`];
+
+// Also accepts a missing value, for optional fields
+const optional =
+  <T>(item: Validator<T>): Validator<T | undefined> =>
+  (value, path) =>
+    value === undefined ? [] : item(value, path);
+
+const arrayOf =
+  <T>(item: Validator<T>): Validator<T[]> =>
+  (value, path) =>
+    Array.isArray(value)
+      ? value.flatMap((entry, index) => item(entry, `${path}[${index}]`))
+      : [`${label(path)} must be a list`];
+
+const object =
+  <T>(shape: { [K in keyof T]-?: Validator<T[K]> }): Validator<T> =>
+  (value, path) => {
+    if (!isRecord(value)) return [`${label(path)} must be an object`];
+    return (Object.keys(shape) as (keyof T & string)[]).flatMap((field) =>
+      shape[field](value[field], at(path, field))
+    );
+  };
+
+export const validators = {
+  string,
+  nonEmptyString,
+  number,
+  boolean,
+  unknown,
+  isoDateString,
+  oneOf,
+  optional,
+  arrayOf,
+  object,
+};
@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MOCK_USER_COUNT?: string; // Size of the generated mock user set
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
+
+// Injected by vite.config.ts (package.json version)
+declare const __APP_VERSION__: string;